@@ -1,11 +1,22 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { GoogleGenAI, Chat, GenerateContentResponse } from "@google/genai";
-import { AgentConfig, Lead, AppMode, AgentStatus, Message, Session } from './types';
+import { GoogleGenAI, Chat, Content, GenerateContentResponse } from "@google/genai";
+import { AgentConfig, AgentProfile, ConfigVersion, Lead, AppMode, AgentStatus, Message, Session, SessionEscalation, QualificationAssessment, QualificationLevel, ActivityActor, ObjectionHandler, ObjectionOccurrence } from './types';
 import Orb from './components/Orb';
 import AdminDashboard from './components/AdminDashboard';
 import LandingPage from './components/LandingPage';
+import { OPERATOR_NAME_KEY } from './components/LiveQueue';
 import { LiveClient } from './services/liveApi';
-import { db } from './services/db';
+import { ToolRegistry, createUpdateLeadTool, createBookAppointmentTool, createEscalateToHumanTool, createQualifyLeadTool, createScheduleFollowUpTool, createReportObjectionTool, createUnansweredQuestionTool, createSearchKnowledgeTool, sendChatMessageWithTools } from './services/agentTools';
+import { BookingOutcome, bookAppointment, formatAvailability, toLocalISO, DEFAULT_APPOINTMENT_MINUTES } from './services/booking';
+import { db, SchemaReport } from './services/db';
+import { mergeLeadFields } from './services/leadDedup';
+import { computeQualificationScore, QUALIFICATION_LEVEL_LABELS } from './services/qualification';
+import { DEFAULT_PIPELINE_STAGES, getPipelineStages, initialStage, engagedStatus } from './services/pipeline';
+import { ConversationContext, startConversation, touchConversation, restoreTranscript, reattachByPhone, compileVisitorMemory, appendNote } from './services/conversation';
+import { SYSTEM_ACTOR, adminActor, agentActor, logLeadActivity, logLeadUpdate } from './services/activity';
+import { applyStageRules, describeRule, formatDueDate, scheduleFollowUp } from './services/followUps';
+import { summarizeSession } from './services/sessionInsights';
+import { KnowledgeHit, KnowledgeKind, buildKnowledgeChunks, createKnowledgeIndex, summarizeKnowledge } from './services/knowledgeBase';
 
 // Helper to retrieve API Key compatibly
 const getApiKey = (): string => {
@@ -16,31 +27,48 @@ const getApiKey = (): string => {
 };
 
 // --- Prompt Compilation Engine ---
+// Products, FAQs and documents are only summarised; the agent retrieves details with search_knowledge
 const compileSystemPrompt = (c: AgentConfig): string => {
-  const productsList = c.products.map(p => 
-    `- Product: ${p.name} (${p.category})
-      Desc: ${p.description}
-      Features: ${p.features}
-      Specs: ${p.specs}
-      Price: ${p.priceRange}
-      Stock: ${p.stockStatus}`
-  ).join('\n');
-
-  const personasList = c.personas.map(p => 
-    `- Target: ${p.name} (${p.jobTitle})
-      Pain: ${p.painPoints}
-      Motivation: ${p.motivations}`
-  ).join('\n');
-
-  const objectionsList = c.objections.map(o => 
-    `- If user says: "${o.objection}" -> You say: "${o.answer}"`
-  ).join('\n');
-
-  const faqsList = c.faqs.map(f => 
-    `- Q: ${f.question} -> A: ${f.answer} (${f.category})`
-  ).join('\n');
-
-  const docsList = c.documents.map(d => `- ${d.title}: ${d.url}`).join('\n');
+  const personasList = c.personas.map(p => `- Target: ${p.name} (${p.jobTitle})`).join('\n    ');
+
+  const objectionsList = c.objections.map(o => `- "${o.objection}"`).join('\n    ');
+
+  const criteria = c.process.qualificationCriteria || [];
+  const qualificationInstructions = criteria.length > 0
+    ? `
+    QUALIFICATION CRITERIA:
+    ${criteria.map(q => `- ${q.name} (weight ${q.weight}): ${q.description}`).join('\n    ')}
+    - Discover these naturally during the conversation; never read them out as a checklist.
+    - Whenever the user reveals something about a criterion, call the "qualify_lead" tool with "met", "partial" or "not_met" and the supporting evidence.`
+    : '';
+
+  const stages = getPipelineStages(c.process);
+  const pipelineInstructions = `
+    SALES PIPELINE (lead "status" values, in order):
+    ${stages.map(s => `- ${s.name}${s.outcome === 'won' ? ' (deal won)' : s.outcome === 'lost' ? ' (deal lost)' : ''}`).join('\n    ')}
+    - Move the lead forward with the "update_lead" tool as the conversation progresses. Only use a won or lost stage once the outcome is clear.`;
+
+  const followUpRules = c.process.followUpRules || [];
+  const followUpInstructions = `
+    FOLLOW-UP:
+    - Strategy: ${c.process.followUpStrategy}${followUpRules.length > 0 ? `
+    - The team follows up automatically: ${followUpRules.map(r => describeRule(r, stages)).join('; ')}.` : ''}
+    - When the user asks to be contacted later (e.g. "call me next week") or agrees to a follow-up, call the "schedule_follow_up" tool with the agreed time (counted from the CURRENT TIME) and what to follow up on, then confirm when the team will get back to them.`;
+
+  const availability = c.process.availability || [];
+  const bookingInstructions = availability.length > 0
+    ? `
+    APPOINTMENT BOOKING:
+    - Available hours: ${formatAvailability(availability)}. Each visit lasts ${c.process.appointmentDurationMinutes || DEFAULT_APPOINTMENT_MINUTES} minutes.
+    - When the user agrees to a visit or meeting, call the "book_appointment" tool with the agreed time.
+    - If the tool reports the slot is unavailable, offer the suggested times it returns instead.
+    - Once booked, confirm the exact day and time back to the user.${c.process.bookingLink ? `
+    - Users who prefer to pick a time themselves can use: ${c.process.bookingLink}` : ''}`
+    : c.process.bookingLink
+      ? `
+    APPOINTMENT BOOKING:
+    - Share this booking link when the user wants to schedule a visit: ${c.process.bookingLink}`
+      : '';
 
   let languageInstruction = 'Adapt naturally.';
   if (c.tone.languageMix === 'Arabic') {
@@ -73,11 +101,13 @@ const compileSystemPrompt = (c: AgentConfig): string => {
     - Language Handling: ${languageInstruction}
     - Emoji Use: ${c.tone.allowEmoji ? 'Allowed in text chat' : 'Forbidden'}
 
-    KNOWLEDGE BASE (PRODUCTS):
-    ${productsList}
+    KNOWLEDGE BASE:
+    ${summarizeKnowledge(c)}
+    - Look up products, prices, specs, stock, FAQ answers and documents with the "search_knowledge" tool before answering. Never quote a price, spec or policy the tool did not return.
 
     SALES STRATEGY (TARGET AUDIENCE):
     ${personasList}
+    - Search with kind "persona" for an audience's pain points and motivations.
 
     SCRIPTS & PHRASES:
     - Opening Hook: "${c.scripts.hooks.short}" OR "${c.scripts.hooks.medium}"
@@ -87,18 +117,19 @@ const compileSystemPrompt = (c: AgentConfig): string => {
 
     OBJECTION HANDLING (STRICT):
     ${objectionsList}
-
-    FAQ LIBRARY:
-    ${faqsList}
+    - Whenever the user raises one of these objections or any other concern, call the "report_objection" tool first, then answer. It returns the scripted answer when there is one; use it.
 
     OPERATIONAL PROCESS:
     1. Qualification: ${c.process.leadQualificationRules}
     2. Discovery: Ask "${c.process.discoveryQuestions}"
     3. Pricing Strategy: ${c.pricing.standardPricing} (Offers: ${c.pricing.seasonalOffers})
     4. Escalation: ${c.process.humanEscalationTrigger}
+       When this condition is met, call the "escalate_to_human" tool, then tell the user a human colleague is joining this chat now. Never promise a callback instead.
 
-    REFERENCE DOCUMENTS:
-    ${docsList}
+    ${pipelineInstructions}
+    ${followUpInstructions}
+    ${qualificationInstructions}
+    ${bookingInstructions}
 
     CRITICAL INSTRUCTIONS FOR CRM UPDATES:
     - You have access to a tool called "update_lead".
@@ -109,18 +140,40 @@ const compileSystemPrompt = (c: AgentConfig): string => {
       4. Any important Note or Requirement
     - Do NOT ask for permission to save these details. Just call the tool in the background.
     - After calling the tool, you MUST verbally confirm to the user (e.g., "I've updated your record with that information," or "Got it, I've noted that down").
-    - If the user changes the topic or expresses a clear sentiment, update the "sentiment" and "status" fields using the tool.
+    - If the user changes the topic or expresses a clear sentiment, update the "sentiment" and "status" fields using the tool.${c.personas.length > 0 ? `
+    - Once it is clear which target audience (see SALES STRATEGY) the user belongs to, set the "persona" field using the tool.` : ''}
     - Failure to update the lead details is a critical failure of your role.
 
     CORE INSTRUCTIONS:
     - You are helpful, efficient, and profit-driven but customer-centric.
-    - Do not hallucinate products not listed above.
+    - Do not hallucinate products that "search_knowledge" does not return.
     - Keep responses concise for voice interaction.
-    - If you don't know an answer, refer to the FAQ or suggest scheduling a call.
+    - If "search_knowledge" finds no answer to a question, never guess: call the "unanswered_question" tool, tell the user you will check with the team, and suggest scheduling a call.
     - Always aim to move the conversation forward (Close -> Schedule -> Sale).
   `;
 };
 
+// Added when a text chat starts or a call connects. Kept out of compileSystemPrompt, whose memoized result can outlive the day.
+const compileCurrentTime = (now: Date): string => `
+    CURRENT TIME:
+    - Today is ${now.toDateString()} (current local time ${toLocalISO(now)}). Booking and follow-up tool results report the time again.`;
+
+// How often the visitor view checks for operator replies during a human handoff
+const ESCALATION_POLL_MS = 3000;
+
+const GREETING_MESSAGE_ID = 'init';
+const GREETING_TEXT = 'النظام متصل. كيف يمكنني مساعدتك في عملياتك اليوم؟';
+const RETURNING_GREETING_TEXT = 'أهلاً بعودتك! كيف يمكنني مساعدتك اليوم؟';
+// Shown when the model ends a turn without any text (e.g. it kept calling tools past the round limit)
+const NO_REPLY_TEXT = 'عذراً، لم أتمكن من إكمال طلبك. هل يمكنك إعادة صياغته؟';
+
+// Seeds a resumed text chat with the earlier turns so the model keeps the context after a reload
+const toChatHistory = (messages: Message[]): Content[] =>
+  messages
+    // Transcripts saved before replies were checked for text can hold messages without one
+    .filter(m => m.id !== GREETING_MESSAGE_ID && m.text?.trim())
+    .map(m => ({ role: m.role === 'user' ? 'user' : 'model', parts: [{ text: m.text }] }));
+
 // Default config fallback
 const DEFAULT_CONFIG: AgentConfig = {
     // Identity
@@ -165,7 +218,20 @@ const DEFAULT_CONFIG: AgentConfig = {
       leadQualificationRules: 'Budget > $1000, Need immediate.',
       discoveryQuestions: 'How many leads do you get per day?',
       followUpStrategy: 'Email after 24h if no answer.',
-      humanEscalationTrigger: 'If user asks for "human" twice.'
+      humanEscalationTrigger: 'If user asks for "human" twice.',
+      appointmentDurationMinutes: 30,
+      availability: [0, 1, 2, 3, 4].map(day => ({ id: String(day + 1), dayOfWeek: day, startTime: '10:00', endTime: '18:00' })),
+      qualificationCriteria: [
+        { id: '1', name: 'Budget', description: 'Can spend at least $1000 on automation.', weight: 30 },
+        { id: '2', name: 'Timeline', description: 'Wants to start within the next month.', weight: 25 },
+        { id: '3', name: 'Authority', description: 'Makes or directly influences the buying decision.', weight: 20 },
+        { id: '4', name: 'Product Fit', description: 'Their use case matches one of our products.', weight: 25 }
+      ],
+      pipelineStages: DEFAULT_PIPELINE_STAGES,
+      followUpRules: [
+        { id: '1', stageId: 'Contacted', afterDays: 1, action: 'Email if there is no answer' },
+        { id: '2', stageId: 'Qualified', afterDays: 2, action: 'Call to discuss an offer' }
+      ]
     },
     pricing: {
       standardPricing: 'Basic: $99, Pro: $199',
@@ -212,19 +278,41 @@ function App() {
   const [leads, setLeads] = useState<Lead[]>([]);
   const [config, setConfig] = useState<AgentConfig>(DEFAULT_CONFIG);
   const [isLoadingData, setIsLoadingData] = useState(true);
-  const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  // Lead and session this visitor's chat and voice call are bound to (set when the agent view opens)
+  const [conversation, setConversation] = useState<ConversationContext | null>(null);
+  const [schemaReport, setSchemaReport] = useState<SchemaReport | null>(null);
+  const [agents, setAgents] = useState<AgentProfile[]>([]);
+  const [activeAgent, setActiveAgent] = useState<AgentProfile | null>(null);
+
+  // Latest leads for callbacks created in earlier renders (e.g. the Live client's)
+  const leadsRef = useRef(leads);
+  leadsRef.current = leads;
+  // Latest context of the visitor's conversation. Tools and the Live client stay bound to one session, but its lead
+  // can change mid-conversation (see reattachByPhone), so callbacks created in earlier renders read it through here.
+  const conversationRef = useRef(conversation);
+  conversationRef.current = conversation;
+  const currentContext = (bound: ConversationContext) =>
+    conversationRef.current?.sessionId === bound.sessionId ? conversationRef.current : bound;
+  const pipelineStages = getPipelineStages(config.process);
 
   // --- Data Persistence ---
   
-  // Fetch initial data (Config + Leads)
+  // Fetch initial data (Agent + Config + Leads). The agent comes from ?agent=<slug> in the URL.
   useEffect(() => {
     const initData = async () => {
       try {
-        const [fetchedConfig, fetchedLeads] = await Promise.all([
+        const agent = await db.resolveAgent(new URLSearchParams(window.location.search).get('agent'), DEFAULT_CONFIG);
+        setActiveAgent(agent);
+        setAgents(await db.getAgents());
+
+        const [fetchedConfig, fetchedLeads, report] = await Promise.all([
           db.getAgentConfig(),
-          db.getLeads()
+          db.getLeads(),
+          db.checkSchema()
         ]);
 
+        setSchemaReport(report);
+
         if (fetchedConfig) {
           setConfig(fetchedConfig);
         }
@@ -242,43 +330,128 @@ function App() {
     initData();
   }, []);
 
-  const handleUpdateLead = async (id: string, updates: Partial<Lead>) => {
+  // Replay writes queued while Supabase was unreachable
+  useEffect(() => db.startSync(), []);
+
+  // Move legacy inline recordings to IndexedDB and keep recordings within budget
+  useEffect(() => {
+    db.compactStorage();
+  }, []);
+
+  // Every lead change is attributed in the lead's activity log; entering a stage applies its follow-up rules
+  const handleUpdateLead = async (id: string, updates: Partial<Lead>, actor: ActivityActor, sessionId?: string) => {
+    const before = leadsRef.current.find(l => l.id === id);
     setLeads(prev => prev.map(l => l.id === id ? { ...l, ...updates } : l));
     await db.updateLead(id, updates);
+    await logLeadUpdate(before, id, updates, actor, pipelineStages, sessionId);
+    if (updates.status && updates.status !== before?.status) {
+      await applyStageRules(id, updates.status, config.process.followUpRules || [], sessionId);
+    }
   };
 
+  // The admin signed in to the dashboard, by the operator name they use in the live queue
+  const currentAdmin = () => adminActor(localStorage.getItem(OPERATOR_NAME_KEY));
+
+  const handleAdminUpdateLead = (id: string, updates: Partial<Lead>) => handleUpdateLead(id, updates, currentAdmin());
+
   const handleDeleteLead = async (id: string) => {
     setLeads(prev => prev.filter(l => l.id !== id));
     await db.deleteLead(id);
   };
 
-  const handleSaveConfig = async (newConfig: AgentConfig) => {
-    await db.saveAgentConfig(newConfig);
-    setConfig(newConfig);
+  const handleBulkUpdateLeads = async (ids: string[], updates: Partial<Lead>) => {
+    const actor = currentAdmin();
+    const selected = new Set(ids);
+    const before = leadsRef.current.filter(l => selected.has(l.id));
+    setLeads(prev => prev.map(l => selected.has(l.id) ? { ...l, ...updates } : l));
+    for (const lead of before) {
+      await db.updateLead(lead.id, updates);
+      await logLeadUpdate(lead, lead.id, updates, actor, pipelineStages);
+      if (updates.status && updates.status !== lead.status) {
+        await applyStageRules(lead.id, updates.status, config.process.followUpRules || []);
+      }
+    }
+  };
+
+  const handleBulkDeleteLeads = async (ids: string[]) => {
+    const selected = new Set(ids);
+    setLeads(prev => prev.filter(l => !selected.has(l.id)));
+    for (const id of ids) await db.deleteLead(id);
   };
 
-  // Triggered when user enters "Agent View" from landing page
-  const createNewLead = async () => {
-    const tempName = `Guest User ${Math.floor(Math.random() * 9000) + 1000}`;
-    // Create in DB
-    const created = await db.createLead({
-      name: tempName,
-      company: 'Unknown',
-      status: 'New',
-      lastInteraction: 'Just now',
-      sentiment: 'Neutral',
-      phone: '',
-      interestedIn: 'General Interest',
-      notes: ''
+  const handleMergeLeads = async (survivor: Lead, duplicate: Lead) => {
+    const fields = mergeLeadFields(survivor, duplicate, pipelineStages);
+    const merged = { ...fields, qualificationScore: computeQualificationScore(config.process.qualificationCriteria, fields.qualification) };
+    await db.mergeLeads(survivor.id, duplicate.id, merged);
+    setLeads(prev => prev
+      .filter(l => l.id !== duplicate.id)
+      .map(l => l.id === survivor.id ? { ...l, ...merged } : l));
+    await logLeadActivity({
+      leadId: survivor.id,
+      type: 'merged',
+      actor: currentAdmin(),
+      summary: `Merged duplicate lead ${duplicate.name} into this lead`
     });
+    await logLeadUpdate(survivor, survivor.id, merged, currentAdmin(), pipelineStages);
+  };
 
-    if (created) {
-       setLeads(prev => [created, ...prev]);
-       // Create Session for recording transcript
-       const session = await db.createSession(created.id);
-       if (session) {
-         setCurrentSessionId(session.id);
-       }
+  const handleSaveConfig = async (newConfig: AgentConfig, author?: string) => {
+    await db.saveAgentConfig(newConfig, author);
+    setConfig(newConfig);
+    setAgents(prev => prev.map(a => a.id === activeAgent?.id ? { ...a, name: newConfig.name } : a));
+  };
+
+  const handleRestoreConfigVersion = async (version: ConfigVersion, author: string) => {
+    const restored = await db.restoreConfigVersion(version, author);
+    setConfig(restored);
+    setAgents(prev => prev.map(a => a.id === activeAgent?.id ? { ...a, name: restored.name } : a));
+  };
+
+  // --- Agents (multi-agent deployments) ---
+
+  const handleSwitchAgent = async (agent: AgentProfile) => {
+    db.setActiveAgent(agent.id);
+    setActiveAgent(agent);
+    setConversation(null);
+
+    // Keep the URL shareable: the public view opens the same agent
+    const url = new URL(window.location.href);
+    url.searchParams.set('agent', agent.slug);
+    window.history.replaceState(null, '', url.toString());
+
+    const [fetchedConfig, fetchedLeads] = await Promise.all([db.getAgentConfig(), db.getLeads()]);
+    setConfig(fetchedConfig || { ...DEFAULT_CONFIG, name: agent.name });
+    setLeads(fetchedLeads);
+  };
+
+  const handleCreateAgent = async (name: string) => {
+    const created = await db.createAgent(name, DEFAULT_CONFIG);
+    setAgents(await db.getAgents());
+    await handleSwitchAgent(created);
+  };
+
+  const handleDeleteAgent = async (agent: AgentProfile) => {
+    await db.deleteAgent(agent.id);
+    const remaining = await db.getAgents();
+    setAgents(remaining);
+    if (remaining[0]) await handleSwitchAgent(remaining[0]);
+  };
+
+  // Triggered when user enters "Agent View" from landing page.
+  // Returning visitors get their existing lead (and, right after a reload, their open session) back;
+  // anyone else gets a new guest lead. Earlier conversations are added to the system prompt.
+  const startVisitorConversation = async () => {
+    const started = await startConversation(initialStage(pipelineStages));
+
+    if (started) {
+      const { context, lead, session, resumed, previousSessions, verified } = started;
+      setLeads(prev => [lead, ...prev.filter(l => l.id !== lead.id)]);
+      setVisitorMemory(compileVisitorMemory(lead, previousSessions, pipelineStages, verified));
+      resumedTranscriptRef.current = resumed ? restoreTranscript(session) : [];
+      const openEscalation = session.escalation && session.escalation.status !== 'Resolved' ? session.escalation : null;
+      escalationRef.current = openEscalation;
+      setEscalation(openEscalation);
+      setConversation(context);
     }
     setMode(AppMode.AGENT_VIEW);
   };
@@ -292,17 +465,78 @@ function App() {
 
   // Chat State
   const [chatMessages, setChatMessages] = useState<Message[]>([]);
+  const chatMessagesRef = useRef(chatMessages);
+  chatMessagesRef.current = chatMessages;
   const [chatInput, setChatInput] = useState('');
   const [isChatLoading, setIsChatLoading] = useState(false);
   const chatSessionRef = useRef<Chat | null>(null);
+  const resumedTranscriptRef = useRef<Message[]>([]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
-  // Auto-save session transcript whenever messages update
+  // Human Handoff State (AI is paused while set)
+  const [escalation, setEscalation] = useState<SessionEscalation | null>(null);
+  const escalationRef = useRef<SessionEscalation | null>(null);
+  escalationRef.current = escalation;
+
+  // Auto-save session transcript whenever messages update.
+  // During a handoff the operator writes to the same transcript, so messages are appended instead.
   useEffect(() => {
-    if (currentSessionId && chatMessages.length > 0) {
-      db.updateSessionTranscript(currentSessionId, chatMessages);
+    if (conversation && chatMessages.length > 0 && !escalation) {
+      db.updateSessionTranscript(conversation.sessionId, chatMessages);
     }
-  }, [chatMessages, currentSessionId]);
+  }, [chatMessages, conversation, escalation]);
+
+  // Digest of the conversation so far for the admin history panel, generated when a call ends or the
+  // visitor leaves; skipped when nothing was said since the last one
+  const summarizedCountRef = useRef<Record<string, number>>({});
+  const summarizeConversation = (context: ConversationContext) => {
+    const transcript = chatMessagesRef.current;
+    if (summarizedCountRef.current[context.sessionId] === transcript.length) return;
+    summarizedCountRef.current[context.sessionId] = transcript.length;
+    summarizeSession(context.sessionId, transcript, config);
+  };
+
+  const pushChatMessage = (context: ConversationContext, msg: Message) => {
+    setChatMessages(prev => [...prev, msg]);
+    touchConversation(context);
+    if (escalationRef.current) {
+      db.appendSessionMessage(context.sessionId, msg);
+    }
+  };
+
+  // Visitor activity on the bound lead (chat message or voice turn). Moves a lead out of the initial stage,
+  // never back from a later one; reads through a ref because the Live client's callbacks outlive renders.
+  const markLeadContacted = (context: ConversationContext) => {
+    const current = leadsRef.current.find(l => l.id === context.leadId)?.status || initialStage(pipelineStages);
+    handleUpdateLead(context.leadId, { lastInteractionAt: new Date().toISOString(), status: engagedStatus(pipelineStages, current) }, SYSTEM_ACTOR, context.sessionId);
+  };
+
+  // Pick up operator replies and status changes while escalated
+  useEffect(() => {
+    if (!escalation || !conversation) return;
+    const interval = window.setInterval(async () => {
+      const session = await db.getSession(conversation.sessionId);
+      if (!session) return;
+
+      setChatMessages(prev => {
+        const known = new Set(prev.map(m => m.id));
+        const incoming = session.transcript
+          .filter(m => !known.has(m.id))
+          .map(m => ({ ...m, timestamp: new Date(m.timestamp) }));
+        return incoming.length > 0 ? [...prev, ...incoming] : prev;
+      });
+
+      const remote = session.escalation;
+      if (!remote || remote.status === 'Resolved') {
+        // Operator handed the visitor back to the AI
+        setEscalation(null);
+      } else if (remote.status !== escalationRef.current?.status || remote.operatorName !== escalationRef.current?.operatorName) {
+        setEscalation(remote);
+      }
+    }, ESCALATION_POLL_MS);
+
+    return () => clearInterval(interval);
+  }, [escalation, conversation]);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -312,73 +546,267 @@ function App() {
     scrollToBottom();
   }, [chatMessages]);
 
-  const systemPrompt = useMemo(() => compileSystemPrompt(config), [config]);
+  // What the agent remembers about a returning visitor (see compileVisitorMemory)
+  const [visitorMemory, setVisitorMemory] = useState('');
+
+  const systemPrompt = useMemo(() => compileSystemPrompt(config) + visitorMemory, [config, visitorMemory]);
+
+  // Handle automatic updates from the AI agent tool calls (voice and text).
+  // Each call carries the conversation its tool registry was built for, never whichever lead is listed first.
+  const agentLeadUpdateRef = useRef<(context: ConversationContext, updates: Partial<Lead>) => Promise<string | void>>(async () => {});
+  agentLeadUpdateRef.current = async (context, updates) => {
+    // A phone number that belongs to an existing lead means a returning visitor: continue on their record
+    let returningNote: string | undefined;
+    let lead = leads.find(l => l.id === context.leadId);
+    if (updates.phone) {
+      const match = await reattachByPhone(context, updates.phone);
+      if (match) {
+        context = match.context;
+        conversationRef.current = context; // other tool calls of this turn must not wait for the next render
+        setConversation(context);
+        lead = match.lead;
+        setLeads(prev => prev
+          .filter(l => l.id !== match.removedLeadId)
+          .map(l => l.id === match.lead.id ? match.lead : l));
+        returningNote = `Lead updated. This phone number belongs to a returning customer, so the conversation is now linked to their existing record. Welcome them back.${compileVisitorMemory(match.lead, match.previousSessions, pipelineStages, match.verified)}`;
+      }
+    }
+
+    // Agent notes are added to the existing notes, never replacing what a human wrote
+    if (updates.notes !== undefined) {
+      const { notes, ...rest } = updates;
+      const appended = appendNote(lead?.notes, notes);
+      updates = appended ? { ...rest, notes: appended } : rest;
+    }
+
+    handleUpdateLead(context.leadId, updates, agentActor(config.name), context.sessionId);
+    setNotification(returningNote ? "Returning visitor recognised" : "Lead updated by Agent");
+    setTimeout(() => setNotification(null), 3000);
+    return returningNote;
+  };
+
+  const agentBookingRef = useRef<(context: ConversationContext, startsAt: Date, notes?: string) => Promise<BookingOutcome>>(
+    async () => ({ booked: false, reason: 'No active lead.', suggestedTimes: [] })
+  );
+  agentBookingRef.current = async (context, startsAt, notes) => {
+    const outcome = await bookAppointment(
+      { leadId: context.leadId, sessionId: context.sessionId, startsAt, notes },
+      config.process
+    );
+    if (outcome.booked) {
+      await logLeadActivity({
+        leadId: context.leadId,
+        sessionId: context.sessionId,
+        type: 'appointment_booked',
+        actor: agentActor(config.name),
+        summary: `Booked a visit for ${startsAt.toLocaleString([], { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}${notes ? ` (${notes})` : ''}`
+      });
+      setNotification("Appointment booked by Agent");
+      setTimeout(() => setNotification(null), 3000);
+    }
+    return outcome;
+  };
+
+  // Assessments are accumulated here as well, so parallel qualify_lead calls do not overwrite each other
+  const qualificationRef = useRef<Record<string, Record<string, QualificationAssessment>>>({});
+  const agentQualifyRef = useRef<(context: ConversationContext, criterionId: string, level: QualificationLevel, evidence?: string) => Promise<number | undefined>>(
+    async () => undefined
+  );
+  agentQualifyRef.current = async (context, criterionId, level, evidence) => {
+    const current = qualificationRef.current[context.leadId] || leads.find(l => l.id === context.leadId)?.qualification || {};
+    const qualification = { ...current, [criterionId]: { level, evidence, assessedAt: new Date().toISOString() } };
+    qualificationRef.current[context.leadId] = qualification;
+    const qualificationScore = computeQualificationScore(config.process.qualificationCriteria, qualification);
+    await handleUpdateLead(context.leadId, { qualification, qualificationScore }, agentActor(config.name), context.sessionId);
+    const criterion = config.process.qualificationCriteria?.find(c => c.id === criterionId);
+    await logLeadActivity({
+      leadId: context.leadId,
+      sessionId: context.sessionId,
+      type: 'qualified',
+      actor: agentActor(config.name),
+      summary: `${criterion?.name || 'Criterion'}: ${QUALIFICATION_LEVEL_LABELS[level]}${evidence ? ` (${evidence})` : ''}${qualificationScore !== undefined ? ` · score ${qualificationScore}/100` : ''}`
+    });
+    return qualificationScore;
+  };
+
+  // Objections reported per session; kept here so reports in quick succession do not overwrite each other
+  const objectionsRef = useRef<Record<string, ObjectionOccurrence[]>>({});
+  const agentObjectionRef = useRef<(context: ConversationContext, handler: ObjectionHandler | undefined, concern: string, userWords?: string) => Promise<string>>(
+    async () => 'No active session.'
+  );
+  agentObjectionRef.current = async (context, handler, concern, userWords) => {
+    const stored = objectionsRef.current[context.sessionId] ? [] : (await db.getSession(context.sessionId))?.objections || [];
+    const objections = [...(objectionsRef.current[context.sessionId] || stored), { handlerId: handler?.id, objection: concern, userWords, at: new Date().toISOString() }];
+    objectionsRef.current[context.sessionId] = objections;
+    await db.updateSessionObjections(context.sessionId, objections);
+    logLeadActivity({
+      leadId: context.leadId,
+      sessionId: context.sessionId,
+      type: 'objection_raised',
+      actor: agentActor(config.name),
+      summary: `Objection: ${concern}${userWords ? ` ("${userWords}")` : ''}${handler ? '' : ' · no scripted answer'}`
+    });
+    return handler
+      ? `Objection recorded. Scripted answer: "${handler.answer}"`
+      : 'Objection recorded. There is no scripted answer for it, so answer from the knowledge base and stay honest.';
+  };
+
+  // Rebuilt only when the searchable parts of the config change, not on every prompt tweak
+  const knowledgeIndex = useMemo(
+    () => createKnowledgeIndex(buildKnowledgeChunks(config)),
+    [config.products, config.faqs, config.personas, config.objections, config.documents]
+  );
+  const agentSearchRef = useRef<(query: string, kind?: KnowledgeKind) => KnowledgeHit[]>(() => []);
+  agentSearchRef.current = (query, kind) => knowledgeIndex.search(query, { kind });
+
+  const agentUnansweredRef = useRef<(context: ConversationContext, question: string, userWords?: string) => Promise<string>>(
+    async () => 'No active session.'
+  );
+  agentUnansweredRef.current = async (context, question, userWords) => {
+    await db.createUnansweredQuestion({ leadId: context.leadId, sessionId: context.sessionId, question, userWords, status: 'Open' });
+    logLeadActivity({
+      leadId: context.leadId,
+      sessionId: context.sessionId,
+      type: 'question_unanswered',
+      actor: agentActor(config.name),
+      summary: `Could not answer: ${question}`
+    });
+    return 'Question recorded for the team. Tell the user you will check and get back to them; do not guess an answer.';
+  };
+
+  const agentEscalationRef = useRef<(context: ConversationContext, reason: string) => Promise<string>>(async () => 'No active session.');
+  agentEscalationRef.current = async (context, reason) => {
+    const next: SessionEscalation = { status: 'Waiting', reason, requestedAt: new Date().toISOString() };
+    await db.updateSessionEscalation(context.sessionId, next);
+    escalationRef.current = next;
+    setEscalation(next);
+    handleUpdateLead(context.leadId, { escalated: true }, agentActor(config.name), context.sessionId);
+    logLeadActivity({
+      leadId: context.leadId,
+      sessionId: context.sessionId,
+      type: 'escalated',
+      actor: agentActor(config.name),
+      summary: `Handed over to a human: ${reason}`
+    });
+    // Let the agent announce the handoff before the voice call ends
+    liveClientRef.current?.endAfterCurrentTurn();
+    setNotification("Connecting you to a human agent");
+    setTimeout(() => setNotification(null), 3000);
+    return 'A human operator has been notified and will join this chat shortly. The AI is now paused.';
+  };
+
+  const agentFollowUpRef = useRef<(context: ConversationContext, dueAt: Date, reason: string) => Promise<string>>(async () => 'No active lead.');
+  agentFollowUpRef.current = async (context, dueAt, reason) => {
+    await scheduleFollowUp(
+      { leadId: context.leadId, sessionId: context.sessionId, title: reason, dueAt: dueAt.toISOString(), source: 'agent' },
+      agentActor(config.name)
+    );
+    setNotification("Follow-up scheduled by Agent");
+    setTimeout(() => setNotification(null), 3000);
+    return `Follow-up scheduled for ${formatDueDate(dueAt.toISOString())}. Confirm to the user when the team will get back to them.`;
+  };
+
+  const qualificationCriteria = config.process.qualificationCriteria;
+
+  // Shared by the Live client and the text chat so both channels expose the same tools.
+  // Built once per session so every tool call is bound to its conversation (and rebuilt only if
+  // the qualification criteria or pipeline stages, which shape the tool schemas, change); handlers read through refs,
+  // so they always see the latest config and the lead the conversation is currently on.
+  const agentTools = useMemo(() => {
+    const bound = conversationRef.current;
+    if (!bound) return null;
+    const context = () => currentContext(bound);
+    const registry = new ToolRegistry()
+      .register(createUpdateLeadTool(pipelineStages, config.personas, updates => agentLeadUpdateRef.current(context(), updates)))
+      .register(createBookAppointmentTool((startsAt, notes) => agentBookingRef.current(context(), startsAt, notes)))
+      .register(createScheduleFollowUpTool((dueAt, reason) => agentFollowUpRef.current(context(), dueAt, reason)))
+      .register(createEscalateToHumanTool(reason => agentEscalationRef.current(context(), reason)))
+      .register(createReportObjectionTool(config.objections, (handler, concern, userWords) =>
+        agentObjectionRef.current(context(), handler, concern, userWords)))
+      .register(createUnansweredQuestionTool((question, userWords) => agentUnansweredRef.current(context(), question, userWords)))
+      .register(createSearchKnowledgeTool((query, kind) => agentSearchRef.current(query, kind)));
+    if (qualificationCriteria && qualificationCriteria.length > 0) {
+      registry.register(createQualifyLeadTool(qualificationCriteria, (criterionId, level, evidence) =>
+        agentQualifyRef.current(context(), criterionId, level, evidence)));
+    }
+    return registry;
+  }, [conversation?.sessionId, qualificationCriteria, pipelineStages, config.personas, config.objections]);
 
   // Initialize Chat Session
   useEffect(() => {
-    if (mode === AppMode.AGENT_VIEW) {
+    if (mode === AppMode.AGENT_VIEW && agentTools) {
       const apiKey = getApiKey();
       if (!apiKey) {
         console.error("API Key missing");
         return;
       }
+      const resumedTranscript = resumedTranscriptRef.current;
       const ai = new GoogleGenAI({ apiKey });
       chatSessionRef.current = ai.chats.create({
         model: 'gemini-2.5-flash',
         config: {
-          systemInstruction: systemPrompt,
-        }
+          systemInstruction: systemPrompt + compileCurrentTime(new Date()),
+          tools: [{ functionDeclarations: agentTools.declarations }]
+        },
+        history: toChatHistory(resumedTranscript)
       });
-      setChatMessages([{
-        id: 'init',
+      setChatMessages(resumedTranscript.length > 0 ? resumedTranscript : [{
+        id: GREETING_MESSAGE_ID,
         role: 'model',
-        text: 'النظام متصل. كيف يمكنني مساعدتك في عملياتك اليوم؟',
+        text: visitorMemory ? RETURNING_GREETING_TEXT : GREETING_TEXT,
         timestamp: new Date()
       }]);
-    } else {
+    } else if (mode !== AppMode.AGENT_VIEW) {
       // Clear session when leaving view
-      setCurrentSessionId(null);
+      if (conversation) summarizeConversation(conversation);
+      chatSessionRef.current = null;
+      resumedTranscriptRef.current = [];
+      setConversation(null);
+      setVisitorMemory('');
       setChatMessages([]);
+      setEscalation(null);
     }
-  }, [mode, systemPrompt]); 
+  }, [mode, systemPrompt, agentTools]); 
 
   // Handle Text Chat
   const handleSendMessage = async (e?: React.FormEvent) => {
     e?.preventDefault();
-    if (!chatInput.trim() || !chatSessionRef.current || isChatLoading) return;
+    if (!chatInput.trim() || !chatSessionRef.current || !conversation || !agentTools || isChatLoading) return;
 
     const userText = chatInput;
     setChatInput('');
-    setIsChatLoading(true);
 
     const userMsg: Message = {
-      id: Date.now().toString(),
+      id: crypto.randomUUID(),
       role: 'user',
       text: userText,
       timestamp: new Date()
     };
-    setChatMessages(prev => [...prev, userMsg]);
+    pushChatMessage(conversation, userMsg);
     
     // Update lead timestamp
-    if (leads.length > 0) {
-      handleUpdateLead(leads[0].id, { lastInteraction: 'Just now', status: 'Contacted' });
-    }
+    markLeadContacted(conversation);
+
+    // A human operator has the conversation; the AI stays out of it
+    if (escalationRef.current) return;
+
+    setIsChatLoading(true);
 
     try {
-      const result = await chatSessionRef.current.sendMessage({ message: userText });
-      const responseText = result.text;
+      const result = await sendChatMessageWithTools(chatSessionRef.current, userText, agentTools);
+      const responseText = result.text?.trim() || NO_REPLY_TEXT;
       
       const modelMsg: Message = {
-        id: (Date.now() + 1).toString(),
+        id: crypto.randomUUID(),
         role: 'model',
         text: responseText,
         timestamp: new Date()
       };
-      setChatMessages(prev => [...prev, modelMsg]);
+      pushChatMessage(currentContext(conversation), modelMsg);
     } catch (err) {
       console.error("Chat Error", err);
       const errorMsg: Message = {
-        id: (Date.now() + 1).toString(),
+        id: crypto.randomUUID(),
         role: 'model',
         text: "عذراً، حدث خطأ في النظام. يرجى المحاولة مرة أخرى.",
         timestamp: new Date()
@@ -389,75 +817,60 @@ function App() {
     }
   };
 
-  // Initialize Live Client
+  // Initialize Live Client. Each client lives exactly as long as the session it was created for,
+  // so its status, recording and transcript callbacks can never write into a different session.
   useEffect(() => {
-    if (mode === AppMode.AGENT_VIEW && !liveClientRef.current) {
-      const effectiveConfig = { ...config, systemInstruction: systemPrompt };
-      
-      liveClientRef.current = new LiveClient(effectiveConfig);
-      
-      liveClientRef.current.onVolumeUpdate = (vol) => {
-        setOrbVolume(vol);
-      };
+    if (mode !== AppMode.AGENT_VIEW || !conversation || !agentTools) return;
 
-      liveClientRef.current.onStatusChange = (status) => {
-        setAgentStatus(status);
-        if (status === 'listening' || status === 'speaking') {
-            if (leads.length > 0) {
-              handleUpdateLead(leads[0].id, { lastInteraction: 'Just now', status: 'Contacted' });
-            }
-        }
-      };
+    const effectiveConfig = { ...config, systemInstruction: systemPrompt };
+    const client = new LiveClient(effectiveConfig, agentTools);
+    liveClientRef.current = client;
 
-      // Handle automatic updates from the AI agent tool calls
-      liveClientRef.current.onLeadUpdate = (updates) => {
-        if (leads.length > 0) {
-           console.log("Applying AI updates to lead:", updates);
-           handleUpdateLead(leads[0].id, updates);
-           setNotification("Lead updated by Agent");
-           setTimeout(() => setNotification(null), 3000);
-        }
-      };
+    client.onVolumeUpdate = (vol) => {
+      setOrbVolume(vol);
+    };
 
-      // Save recorded audio blob
-      liveClientRef.current.onAudioRecord = (blob) => {
-         if (currentSessionId) {
-            console.log("Saving audio recording...", blob.size);
-            db.updateSessionAudio(currentSessionId, blob);
-            setNotification("Call Recording Saved");
-            setTimeout(() => setNotification(null), 3000);
-         }
-      };
+    client.onStatusChange = (status) => {
+      setAgentStatus(status);
+      if (status === 'listening' || status === 'speaking') {
+        markLeadContacted(currentContext(conversation));
+        touchConversation(currentContext(conversation));
+      }
+    };
 
-      // Capture voice transcripts and add to chat history
-      liveClientRef.current.onTranscript = (text, role) => {
-        setChatMessages(prev => [
-          ...prev, 
-          {
-            id: Date.now().toString(),
-            role,
-            text,
-            timestamp: new Date()
-          }
-        ]);
-      };
-    }
+    // Save recorded audio blob
+    client.onAudioRecord = (blob) => {
+      console.log("Saving audio recording...", blob.size);
+      db.updateSessionAudio(conversation.sessionId, blob);
+      setNotification("Call Recording Saved");
+      setTimeout(() => setNotification(null), 3000);
+    };
+
+    client.onCallEnd = () => summarizeConversation(conversation);
+
+    // Capture voice transcripts and add to chat history
+    client.onTranscript = (text, role) => {
+      pushChatMessage(currentContext(conversation), {
+        id: crypto.randomUUID(),
+        role,
+        text,
+        timestamp: new Date()
+      });
+    };
 
     return () => {
-      if (liveClientRef.current && mode !== AppMode.AGENT_VIEW) {
-        liveClientRef.current.disconnect();
-        liveClientRef.current = null;
-        setAgentStatus('idle');
-      }
+      client.disconnect();
+      if (liveClientRef.current === client) liveClientRef.current = null;
+      setAgentStatus('idle');
     };
-  }, [mode, config, systemPrompt, leads, currentSessionId]); 
+  }, [mode, conversation?.sessionId, config, systemPrompt, agentTools]);
 
   const toggleLiveSession = async () => {
     if (!liveClientRef.current) return;
     if (agentStatus !== 'idle' && agentStatus !== 'error') {
       await liveClientRef.current.disconnect();
     } else {
-      await liveClientRef.current.connect();
+      await liveClientRef.current.connect(compileCurrentTime(new Date()));
     }
   };
 
@@ -479,9 +892,19 @@ function App() {
         config={config} 
         setConfig={setConfig} 
         leads={leads}
-        onUpdateLead={handleUpdateLead}
+        schemaReport={schemaReport}
+        agents={agents}
+        activeAgent={activeAgent}
+        onSwitchAgent={handleSwitchAgent}
+        onCreateAgent={handleCreateAgent}
+        onDeleteAgent={handleDeleteAgent}
+        onUpdateLead={handleAdminUpdateLead}
         onDeleteLead={handleDeleteLead}
+        onBulkUpdateLeads={handleBulkUpdateLeads}
+        onBulkDeleteLeads={handleBulkDeleteLeads}
+        onMergeLeads={handleMergeLeads}
         onSave={handleSaveConfig}
+        onRestoreVersion={handleRestoreConfigVersion}
         onClose={() => {
           setMode(AppMode.LANDING);
           setNotification("تم تحديث قاعدة المعرفة بنجاح");
@@ -536,7 +959,7 @@ function App() {
         {mode === AppMode.LANDING ? (
           <LandingPage 
             config={config.landingPage} 
-            onStartDemo={createNewLead} 
+            onStartDemo={startVisitorConversation} 
             logoUrl={config.logoUrl}
             companyName={config.companyName}
           />
@@ -563,8 +986,9 @@ function App() {
                <div className="flex flex-col items-center gap-4">
                   <button
                     onClick={toggleLiveSession}
+                    disabled={!!escalation && agentStatus === 'idle'}
                     className={`
-                      px-8 py-3 rounded-full font-semibold tracking-wide transition-all duration-300 flex items-center gap-3 backdrop-blur-md z-20
+                      px-8 py-3 rounded-full font-semibold tracking-wide transition-all duration-300 flex items-center gap-3 backdrop-blur-md z-20 disabled:opacity-40 disabled:cursor-not-allowed
                       ${(agentStatus !== 'idle' && agentStatus !== 'error')
                         ? 'bg-red-500/10 text-red-400 border border-red-500/50 hover:bg-red-500/20 shadow-[0_0_20px_rgba(239,68,68,0.3)]' 
                         : 'bg-neon-blue/10 text-neon-blue border border-neon-blue/50 hover:bg-neon-blue/20 shadow-[0_0_20px_rgba(6,182,212,0.3)]'}
@@ -585,6 +1009,15 @@ function App() {
                  </div>
                </div>
 
+               {escalation && (
+                 <div className="px-6 py-3 border-b border-neon-purple/30 bg-neon-purple/10 text-xs text-neon-purple flex items-center gap-2">
+                   <span className={`w-2 h-2 rounded-full bg-neon-purple ${escalation.status === 'Waiting' ? 'animate-pulse' : ''}`}></span>
+                   {escalation.status === 'Active'
+                     ? `أنت الآن تتحدث مع ${escalation.operatorName || 'أحد ممثلي المبيعات'}`
+                     : 'جاري تحويلك إلى أحد ممثلي المبيعات، يرجى البقاء في المحادثة...'}
+                 </div>
+               )}
+
                <div className="flex-1 overflow-y-auto p-4 space-y-4 custom-scrollbar">
                  {chatMessages.map((msg) => (
                    <div 
@@ -596,9 +1029,14 @@ function App() {
                          max-w-[85%] px-4 py-3 rounded-2xl text-sm leading-relaxed
                          ${msg.role === 'user' 
                            ? 'bg-neon-blue/10 text-neon-blue border border-neon-blue/20 rounded-tr-sm' 
-                           : 'bg-white/10 text-gray-200 border border-white/5 rounded-tl-sm'}
+                           : msg.role === 'operator'
+                             ? 'bg-neon-purple/10 text-gray-100 border border-neon-purple/30 rounded-tl-sm'
+                             : 'bg-white/10 text-gray-200 border border-white/5 rounded-tl-sm'}
                        `}
                      >
+                       {msg.role === 'operator' && (
+                         <span className="block text-[10px] font-bold text-neon-purple mb-1">{escalation?.operatorName || 'فريق المبيعات'}</span>
+                       )}
                        {msg.text}
                      </div>
                      <span className="text-[10px] text-gray-600 mt-1 px-1">
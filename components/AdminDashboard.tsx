@@ -1,20 +1,60 @@
 
 import React, { useState, useRef, useMemo, useEffect } from 'react';
-import { AgentConfig, Lead, Product, Persona, ObjectionHandler, FAQ, AgentDoc, LandingFeature, Testimonial, PartnerLogo, Session } from '../types';
+import { AgentConfig, AgentProfile, ConfigVersion, Lead, Product, Persona, ObjectionHandler, FAQ, AgentDoc, LandingFeature, Testimonial, PartnerLogo, Session, AvailabilitySlot, Appointment, QualificationCriterion, PipelineStage, LeadActivity, FollowUpRule, FollowUpTask, UnansweredQuestion } from '../types';
 import CRMTable from './CRMTable';
-import { db } from '../services/db';
+import PipelineBoard from './PipelineBoard';
+import DuplicateReview from './DuplicateReview';
+import LiveQueue, { OPERATOR_NAME_KEY } from './LiveQueue';
+import RecordingPlayer from './RecordingPlayer';
+import AgentSwitcher, { agentLink } from './AgentSwitcher';
+import ConfigHistory from './ConfigHistory';
+import LeadTimeline from './LeadTimeline';
+import FollowUpTasks from './FollowUpTasks';
+import SessionInsightsCard from './SessionInsightsCard';
+import ConversationAnalytics from './ConversationAnalytics';
+import ObjectionEffectivenessTable from './ObjectionEffectivenessTable';
+import FaqInbox from './FaqInbox';
+import { db, SchemaReport, StorageUsage } from '../services/db';
+import { SyncStatus } from '../services/outbox';
+import { DAY_NAMES, DEFAULT_APPOINTMENT_MINUTES } from '../services/booking';
+import { getPipelineStages, stageLabel, stageStyle } from '../services/pipeline';
+import { leadScore } from '../services/qualification';
+import { DEFAULT_STALE_LEAD_DAYS, findStaleLeads, formatRelativeTime, lastContactAt } from '../services/leadTiming';
+import { adminActor, logLeadActivity } from '../services/activity';
+import { completeFollowUp } from '../services/followUps';
+import { summarizeSession } from '../services/sessionInsights';
+import { QuestionGroup, draftFaqAnswer } from '../services/knowledgeGaps';
 
 interface AdminDashboardProps {
   config: AgentConfig;
   setConfig: (config: AgentConfig) => void;
   leads: Lead[];
+  schemaReport?: SchemaReport | null;
+  agents: AgentProfile[];
+  activeAgent: AgentProfile | null;
+  onSwitchAgent: (agent: AgentProfile) => Promise<void>;
+  onCreateAgent: (name: string) => Promise<void>;
+  onDeleteAgent: (agent: AgentProfile) => Promise<void>;
   onUpdateLead: (id: string, updates: Partial<Lead>) => void;
   onDeleteLead: (id: string) => void;
+  onBulkUpdateLeads: (ids: string[], updates: Partial<Lead>) => void;
+  onBulkDeleteLeads: (ids: string[]) => void;
+  onMergeLeads: (survivor: Lead, duplicate: Lead) => Promise<void>;
   onClose: () => void;
-  onSave: (config: AgentConfig) => Promise<void>;
+  onSave: (config: AgentConfig, author: string) => Promise<void>;
+  onRestoreVersion: (version: ConfigVersion, author: string) => Promise<void>;
 }
 
-type TabID = 'overview' | 'landing' | 'crm' | 'company' | 'products' | 'personas' | 'scripts' | 'objections' | 'faqs' | 'process' | 'pricing' | 'docs' | 'tone' | 'deploy';
+type TabID = 'overview' | 'queue' | 'tasks' | 'landing' | 'crm' | 'company' | 'products' | 'personas' | 'scripts' | 'objections' | 'faqs' | 'process' | 'pricing' | 'docs' | 'tone' | 'deploy' | 'history';
+
+type CrmView = 'table' | 'board';
+const CRM_VIEW_KEY = 'nova_crm_view';
+
+// Warn in the history panel once the browser's storage quota is this full
+const STORAGE_WARNING_RATIO = 0.8;
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1048576 ? `${(bytes / 1048576).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
 
 // CSV Helper Functions
 const exportToCSV = (data: any[], filename: string) => {
@@ -100,16 +140,26 @@ const ListManager = <T extends { id: string }>({
   onUpdate, 
   renderItem, 
   newItemTemplate,
-  name
+  name,
+  sortable = false
 }: { 
   items: T[], 
   onUpdate: (items: T[]) => void, 
   renderItem: (item: T, index: number, updateItem: (u: T) => void) => React.ReactNode,
   newItemTemplate: T,
-  name: string
+  name: string,
+  sortable?: boolean // show move up/down buttons, for lists where order matters
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= items.length) return;
+    const newItems = [...items];
+    const [moved] = newItems.splice(from, 1);
+    newItems.splice(to, 0, moved);
+    onUpdate(newItems);
+  };
+
   return (
     <div className="space-y-4">
       <div className="flex justify-end gap-3 mb-2">
@@ -145,16 +195,38 @@ const ListManager = <T extends { id: string }>({
 
       {items.map((item, idx) => (
         <div key={item.id} className="bg-white/5 border border-white/10 p-4 rounded-xl relative group">
-          <button 
-            onClick={() => {
-              const newItems = [...items];
-              newItems.splice(idx, 1);
-              onUpdate(newItems);
-            }}
-            className="absolute top-2 right-2 text-red-500 md:opacity-0 group-hover:opacity-100 transition-opacity text-xs border border-red-500/50 px-2 py-1 rounded hover:bg-red-500/10"
-          >
-            Remove
-          </button>
+          <div className="absolute top-2 right-2 flex gap-1 md:opacity-0 group-hover:opacity-100 transition-opacity">
+            {sortable && (
+              <>
+                <button
+                  onClick={() => move(idx, idx - 1)}
+                  disabled={idx === 0}
+                  className="text-gray-400 text-xs border border-white/20 px-2 py-1 rounded hover:bg-white/10 disabled:opacity-30"
+                  title="Move up"
+                >
+                  ↑
+                </button>
+                <button
+                  onClick={() => move(idx, idx + 1)}
+                  disabled={idx === items.length - 1}
+                  className="text-gray-400 text-xs border border-white/20 px-2 py-1 rounded hover:bg-white/10 disabled:opacity-30"
+                  title="Move down"
+                >
+                  ↓
+                </button>
+              </>
+            )}
+            <button 
+              onClick={() => {
+                const newItems = [...items];
+                newItems.splice(idx, 1);
+                onUpdate(newItems);
+              }}
+              className="text-red-500 text-xs border border-red-500/50 px-2 py-1 rounded hover:bg-red-500/10"
+            >
+              Remove
+            </button>
+          </div>
           {renderItem(item, idx, (updated) => {
             const newItems = [...items];
             newItems[idx] = updated;
@@ -174,21 +246,209 @@ const ListManager = <T extends { id: string }>({
 
 // --- Main Component ---
 
-const AdminDashboard: React.FC<AdminDashboardProps> = ({ config, setConfig, leads, onUpdateLead, onDeleteLead, onClose, onSave }) => {
+const AdminDashboard: React.FC<AdminDashboardProps> = ({ config, setConfig, leads, schemaReport, agents, activeAgent, onSwitchAgent, onCreateAgent, onDeleteAgent, onUpdateLead, onDeleteLead, onBulkUpdateLeads, onBulkDeleteLeads, onMergeLeads, onClose, onSave, onRestoreVersion }) => {
   const [activeTab, setActiveTab] = useState<TabID>('overview');
   const [isSaving, setIsSaving] = useState(false);
   
   // --- Session History State ---
   const [selectedLead, setSelectedLead] = useState<Lead | null>(null);
   const [leadSessions, setLeadSessions] = useState<Session[]>([]);
+  const [leadActivities, setLeadActivities] = useState<LeadActivity[]>([]);
+  const [historyView, setHistoryView] = useState<'sessions' | 'activity'>('sessions');
   const [isLoadingSessions, setIsLoadingSessions] = useState(false);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+
+  // --- Appointments ---
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+
+  // --- CRM view (table or pipeline board), remembered per browser ---
+  const [crmView, setCrmView] = useState<CrmView>(() => localStorage.getItem(CRM_VIEW_KEY) === 'board' ? 'board' : 'table');
+
+  useEffect(() => {
+    localStorage.setItem(CRM_VIEW_KEY, crmView);
+  }, [crmView]);
+
+  useEffect(() => {
+    db.getAppointments()
+      .then(setAppointments)
+      .catch(e => console.error("Failed to fetch appointments", e));
+  }, [leads]);
+
+  // --- Offline Sync Status ---
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(db.getSyncStatus());
+
+  useEffect(() => db.subscribeSyncStatus(setSyncStatus), []);
+
+  const syncBadge = {
+    disabled: { label: 'Local Mode', className: 'border-white/10 text-gray-400' },
+    synced: { label: 'Synced', className: 'border-emerald-500/30 text-emerald-400' },
+    pending: { label: `${syncStatus.pending} pending`, className: 'border-yellow-500/30 text-yellow-400' },
+    syncing: { label: 'Syncing...', className: 'border-neon-blue/30 text-neon-blue animate-pulse' },
+    offline: { label: `Offline · ${syncStatus.pending} pending`, className: 'border-red-500/30 text-red-400' }
+  }[syncStatus.state];
+
+  // --- Config Version History ---
+  const [configVersions, setConfigVersions] = useState<ConfigVersion[]>([]);
+
+  const refreshVersions = () => {
+    db.getConfigVersions()
+      .then(setConfigVersions)
+      .catch(e => console.error("Failed to fetch config history", e));
+  };
+
+  useEffect(() => {
+    if (activeTab === 'history') refreshVersions();
+  }, [activeTab, activeAgent?.id]);
+
+  const handleRestoreVersion = async (version: ConfigVersion, author: string) => {
+    await onRestoreVersion(version, author);
+    refreshVersions();
+  };
+
+  // --- Follow-up Tasks ---
+  const [followUpTasks, setFollowUpTasks] = useState<FollowUpTask[]>([]);
+
+  const refreshTasks = () => {
+    db.getFollowUpTasks()
+      .then(setFollowUpTasks)
+      .catch(e => console.error("Failed to fetch follow-up tasks", e));
+  };
+
+  useEffect(() => {
+    if (activeTab === 'tasks') refreshTasks();
+  }, [activeTab, activeAgent?.id]);
+
+  const handleCompleteTask = async (task: FollowUpTask, operatorName: string) => {
+    await completeFollowUp(task, adminActor(operatorName));
+    refreshTasks();
+  };
+
+  const handleUpdateTask = async (task: FollowUpTask, updates: Partial<FollowUpTask>) => {
+    await db.updateFollowUpTask(task.id, updates);
+    refreshTasks();
+  };
+
+  // --- FAQ Inbox (Knowledge Gaps) ---
+  const [unansweredQuestions, setUnansweredQuestions] = useState<UnansweredQuestion[]>([]);
+  // Promoted groups whose FAQ is not saved yet; they are marked Promoted once the config holding it is saved
+  const [pendingPromotions, setPendingPromotions] = useState<{ group: QuestionGroup; faqId: string }[]>([]);
+  const openQuestions = useMemo(() => {
+    const pendingIds = new Set(pendingPromotions.flatMap(p => p.group.questions.map(q => q.id)));
+    return unansweredQuestions.filter(q => !pendingIds.has(q.id));
+  }, [unansweredQuestions, pendingPromotions]);
+
+  const refreshQuestions = () => {
+    db.getUnansweredQuestions()
+      .then(setUnansweredQuestions)
+      .catch(e => console.error("Failed to fetch unanswered questions", e));
+  };
+
+  useEffect(() => {
+    if (activeTab === 'faqs') refreshQuestions();
+  }, [activeTab, activeAgent?.id]);
+
+  const closeQuestions = async (group: QuestionGroup, updates: Partial<Pick<UnansweredQuestion, 'status' | 'faqId'>>) => {
+    for (const question of group.questions) await db.updateUnansweredQuestion(question.id, updates);
+    refreshQuestions();
+  };
+
+  // Adds a drafted FAQ to the (unsaved) config; without a draft the admin writes the answer themselves
+  const handlePromoteQuestion = async (group: QuestionGroup) => {
+    let draft: Pick<FAQ, 'answer' | 'category'> = { answer: '', category: 'General' };
+    try {
+      draft = await draftFaqAnswer(group.question, config);
+    } catch (e: any) {
+      console.warn('Failed to draft FAQ answer:', e.message || e);
+    }
+    const faq: FAQ = { id: Date.now().toString(), question: group.question, ...draft };
+    updateConfig('faqs', [...config.faqs, faq]);
+    setPendingPromotions(prev => [...prev, { group, faqId: faq.id }]);
+  };
+
+  // Marks the questions behind FAQs that made it into the saved config (an FAQ removed before saving leaves them open)
+  const closePromotedQuestions = async (saved: AgentConfig) => {
+    const savedFaqIds = new Set(saved.faqs.map(f => f.id));
+    for (const { group, faqId } of pendingPromotions) {
+      if (savedFaqIds.has(faqId)) await closeQuestions(group, { status: 'Promoted', faqId });
+    }
+    setPendingPromotions([]);
+  };
+
+  // --- Live Queue (Human Escalation) ---
+  const [escalatedSessions, setEscalatedSessions] = useState<Session[]>([]);
+
+  const refreshQueue = async () => {
+    try {
+      setEscalatedSessions(await db.getEscalatedSessions());
+    } catch (e) {
+      console.error("Failed to fetch live queue", e);
+    }
+  };
+
+  useEffect(() => {
+    refreshQueue();
+    const interval = window.setInterval(refreshQueue, 5000);
+    return () => clearInterval(interval);
+  }, [activeAgent?.id]);
+
+  const handleTakeOver = async (session: Session, operatorName: string) => {
+    if (!session.escalation) return;
+    await db.updateSessionEscalation(session.id, { ...session.escalation, status: 'Active', operatorName });
+    await logLeadActivity({
+      leadId: session.leadId,
+      sessionId: session.id,
+      type: 'escalation_taken',
+      actor: adminActor(operatorName),
+      summary: 'Took over the conversation from the AI agent'
+    });
+    await refreshQueue();
+  };
+
+  const handleOperatorMessage = async (session: Session, text: string) => {
+    await db.appendSessionMessage(session.id, {
+      id: crypto.randomUUID(),
+      role: 'operator',
+      text,
+      timestamp: new Date()
+    });
+    await refreshQueue();
+  };
+
+  const handleResolveEscalation = async (session: Session) => {
+    if (!session.escalation) return;
+    await db.updateSessionEscalation(session.id, { ...session.escalation, status: 'Resolved' });
+    onUpdateLead(session.leadId, { escalated: false });
+    await logLeadActivity({
+      leadId: session.leadId,
+      sessionId: session.id,
+      type: 'escalation_resolved',
+      actor: adminActor(session.escalation.operatorName || localStorage.getItem(OPERATOR_NAME_KEY)),
+      summary: 'Resolved the handover'
+    });
+    await refreshQueue();
+  };
+
+  const handleCancelAppointment = async (appointment: Appointment) => {
+    setAppointments(prev => prev.map(a => a.id === appointment.id ? { ...a, status: 'Cancelled' } : a));
+    await db.updateAppointment(appointment.id, { status: 'Cancelled' });
+    const activity = await logLeadActivity({
+      leadId: appointment.leadId,
+      sessionId: appointment.sessionId,
+      type: 'appointment_cancelled',
+      actor: adminActor(localStorage.getItem(OPERATOR_NAME_KEY)),
+      summary: `Cancelled the visit on ${new Date(appointment.startsAt).toLocaleString([], { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}`
+    });
+    if (activity) setLeadActivities(prev => [activity, ...prev]);
+  };
 
   const handleViewHistory = async (lead: Lead) => {
     setSelectedLead(lead);
     setIsLoadingSessions(true);
     try {
-      const sessions = await db.getSessions(lead.id);
+      const [sessions, activities, usage] = await Promise.all([db.getSessions(lead.id), db.getLeadActivities(lead.id), db.getStorageUsage()]);
       setLeadSessions(sessions);
+      setLeadActivities(activities);
+      setStorageUsage(usage);
     } catch (e) {
       console.error("Failed to fetch sessions", e);
     } finally {
@@ -196,15 +456,43 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ config, setConfig, lead
     }
   };
 
+  // One flat row per lead, with stage names and current scores instead of internal ids and objects
+  const exportLeads = (selected: Lead[]) => {
+    exportToCSV(selected.map(l => ({
+      id: l.id,
+      name: l.name,
+      company: l.company,
+      phone: l.phone,
+      interestedIn: l.interestedIn,
+      stage: stageLabel(pipelineStages, l.status),
+      dealValue: l.dealValue || 0,
+      score: leadScore(l, config.process.qualificationCriteria) ?? '',
+      sentiment: l.sentiment,
+      persona: config.personas.find(p => p.id === l.personaId)?.name || '',
+      escalated: l.escalated ? 'yes' : 'no',
+      createdAt: l.createdAt || '',
+      lastInteractionAt: l.lastInteractionAt || '',
+      notes: l.notes
+    })), 'leads');
+  };
+
+  const handleSummarizeSession = async (session: Session) => {
+    const insights = await summarizeSession(session.id, session.transcript, config);
+    if (insights) setLeadSessions(prev => prev.map(s => s.id === session.id ? { ...s, insights } : s));
+    else alert("Could not summarize this conversation. Please try again.");
+  };
+
   const closeHistoryPanel = () => {
     setSelectedLead(null);
     setLeadSessions([]);
+    setLeadActivities([]);
   };
 
   const handleSave = async () => {
     setIsSaving(true);
     try {
-      await onSave(config);
+      await onSave(config, localStorage.getItem(OPERATOR_NAME_KEY) || 'Admin');
+      await closePromotedQuestions(config).catch(e => console.error("Failed to mark promoted questions", e));
       setTimeout(() => {
           setIsSaving(false);
           onClose(); 
@@ -240,17 +528,26 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ config, setConfig, lead
     });
   };
 
+  const pipelineStages = getPipelineStages(config.process);
+
   const stats = useMemo(() => {
     const total = leads.length;
-    const closed = leads.filter(l => l.status === 'Closed').length;
+    const wonStages = new Set(pipelineStages.filter(s => s.outcome === 'won').map(s => s.id));
+    const won = leads.filter(l => wonStages.has(l.status)).length;
     const positive = leads.filter(l => l.sentiment === 'Positive').length;
-    const conversionRate = total > 0 ? ((closed / total) * 100).toFixed(1) : '0.0';
+    const conversionRate = total > 0 ? ((won / total) * 100).toFixed(1) : '0.0';
     const sentimentScore = total > 0 ? ((positive / total) * 100).toFixed(0) : '0';
-    return { total, conversionRate, sentimentScore };
-  }, [leads]);
+    const byStage = pipelineStages.map(stage => ({ stage, count: leads.filter(l => l.status === stage.id).length }));
+    return { total, conversionRate, sentimentScore, byStage };
+  }, [leads, pipelineStages]);
+
+  const staleLeadDays = config.process.staleLeadDays || DEFAULT_STALE_LEAD_DAYS;
+  const staleLeads = useMemo(() => findStaleLeads(leads, pipelineStages, staleLeadDays), [leads, pipelineStages, staleLeadDays]);
 
   const menuItems: { id: TabID; label: string; icon: string }[] = [
     { id: 'overview', label: 'Overview', icon: '📊' },
+    { id: 'queue', label: 'Live Queue', icon: '🎧' },
+    { id: 'tasks', label: 'My Tasks', icon: '✅' },
     { id: 'landing', label: 'Landing Page', icon: '🌐' },
     { id: 'crm', label: 'CRM & Leads', icon: '👥' },
     { id: 'company', label: 'Company Info', icon: '🏢' },
@@ -264,6 +561,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ config, setConfig, lead
     { id: 'docs', label: 'Documents', icon: '📁' },
     { id: 'tone', label: 'Tone & Behavior', icon: '🎨' },
     { id: 'deploy', label: 'Deploy / WL', icon: '🚀' },
+    { id: 'history', label: 'Version History', icon: '🕘' },
   ];
 
   return (
@@ -277,13 +575,73 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ config, setConfig, lead
                  <div>
                    <h3 className="text-xl font-bold text-white">{selectedLead.name}</h3>
                    <p className="text-sm text-gray-400">Session Recordings & Logs</p>
+                   {storageUsage && storageUsage.recordings > 0 && (
+                     <p className={`text-[10px] mt-1 ${storageUsage.quota && storageUsage.usage && storageUsage.usage / storageUsage.quota > STORAGE_WARNING_RATIO ? 'text-yellow-400' : 'text-gray-500'}`}>
+                       {storageUsage.recordings} recording(s) on this device · {formatBytes(storageUsage.recordingBytes)}
+                       {storageUsage.quota && storageUsage.usage !== undefined && ` · ${Math.round(storageUsage.usage / storageUsage.quota * 100)}% of browser storage used`}
+                     </p>
+                   )}
                  </div>
                  <button onClick={closeHistoryPanel} className="p-2 hover:bg-white/10 rounded-full transition-colors">
                    <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
                  </button>
               </div>
+
+              <div className="flex border-b border-white/10">
+                {(['sessions', 'activity'] as const).map(view => (
+                  <button
+                    key={view}
+                    onClick={() => setHistoryView(view)}
+                    className={`flex-1 py-3 text-xs font-semibold uppercase tracking-wider transition-colors border-b-2 ${historyView === view ? 'text-neon-blue border-neon-blue' : 'text-gray-400 border-transparent hover:text-white'}`}
+                  >
+                    {view === 'sessions' ? 'Sessions' : `Activity (${leadActivities.length})`}
+                  </button>
+                ))}
+              </div>
               
+              {historyView === 'activity' ? (
+                <div className="flex-1 overflow-y-auto p-6 custom-scrollbar">
+                  {isLoadingSessions ? (
+                    <div className="flex justify-center items-center h-40">
+                      <div className="w-8 h-8 rounded-full border-2 border-neon-blue border-t-transparent animate-spin"></div>
+                    </div>
+                  ) : (
+                    <LeadTimeline activities={leadActivities} />
+                  )}
+                </div>
+              ) : (
               <div className="flex-1 overflow-y-auto p-6 space-y-6 custom-scrollbar">
+                {appointments.some(a => a.leadId === selectedLead.id) && (
+                  <div className="border border-white/10 rounded-xl overflow-hidden bg-white/5">
+                    <div className="bg-white/5 px-4 py-3 border-b border-white/5">
+                      <span className="text-xs font-mono text-neon-purple">APPOINTMENTS</span>
+                    </div>
+                    <div className="divide-y divide-white/5">
+                      {appointments.filter(a => a.leadId === selectedLead.id).map(appt => (
+                        <div key={appt.id} className="px-4 py-3 flex justify-between items-center gap-4">
+                          <div>
+                            <p className={`text-sm ${appt.status === 'Cancelled' ? 'text-gray-500 line-through' : 'text-white'}`}>
+                              {new Date(appt.startsAt).toLocaleString([], { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                            </p>
+                            {appt.notes && <p className="text-xs text-gray-400 mt-1">{appt.notes}</p>}
+                          </div>
+                          <div className="flex items-center gap-3 shrink-0">
+                            <span className="text-[10px] uppercase font-bold text-gray-400">{appt.status}</span>
+                            {appt.status === 'Scheduled' && (
+                              <button
+                                onClick={() => handleCancelAppointment(appt)}
+                                className="text-xs border border-red-500/50 text-red-400 px-2 py-1 rounded hover:bg-red-500/10"
+                              >
+                                Cancel
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {isLoadingSessions ? (
                    <div className="flex justify-center items-center h-40">
                       <div className="w-8 h-8 rounded-full border-2 border-neon-blue border-t-transparent animate-spin"></div>
@@ -299,30 +657,12 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ config, setConfig, lead
                           <span className="text-xs font-mono text-neon-blue">SESSION #{index + 1}</span>
                           <span className="text-xs text-gray-400">{new Date(session.createdAt).toLocaleString()}</span>
                        </div>
+
+                       <SessionInsightsCard session={session} onGenerate={handleSummarizeSession} />
                        
                        {/* Audio Player */}
                        <div className="p-4 border-b border-white/5 bg-black/20">
-                          {session.audioUrl ? (
-                             <div className="flex flex-col gap-2">
-                                <audio controls src={session.audioUrl} className="w-full h-8 opacity-80 hover:opacity-100 transition-opacity" />
-                                <a href={session.audioUrl} download={`session_${session.id}.webm`} className="text-[10px] text-neon-blue hover:underline self-end">Download Recording</a>
-                             </div>
-                          ) : (
-                             <div className="flex items-center gap-3">
-                               <div className="w-10 h-10 rounded-full bg-red-500/20 flex items-center justify-center text-red-500">
-                                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" /></svg>
-                               </div>
-                               <div className="flex-1">
-                                  <div className="h-1 bg-gray-700 rounded-full w-full"></div>
-                               </div>
-                               <span className="text-[10px] uppercase font-bold text-gray-500">No Audio</span>
-                             </div>
-                          )}
-                          {!session.audioUrl && (
-                             <p className="text-[10px] text-gray-500 mt-2 italic text-center">
-                               Recording unavailable or expired (local demo storage).
-                             </p>
-                          )}
+                          <RecordingPlayer session={session} />
                        </div>
 
                        <div className="p-4 space-y-4 max-h-[400px] overflow-y-auto custom-scrollbar">
@@ -343,6 +683,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ config, setConfig, lead
                   ))
                 )}
               </div>
+              )}
            </div>
         </div>
       )}
@@ -370,6 +711,14 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ config, setConfig, lead
             <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
           </button>
         </div>
+
+        <AgentSwitcher
+          agents={agents}
+          activeAgent={activeAgent}
+          onSwitch={onSwitchAgent}
+          onCreate={onCreateAgent}
+          onDelete={onDeleteAgent}
+        />
         
         <nav className="flex md:flex-col overflow-x-auto md:overflow-y-auto md:flex-1 px-4 pb-4 space-x-2 md:space-x-0 md:space-y-1 custom-scrollbar hide-scrollbar-mobile">
           {menuItems.map((item) => (
@@ -381,6 +730,11 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ config, setConfig, lead
             >
               <span className="text-base">{item.icon}</span>
               {item.label}
+              {item.id === 'queue' && escalatedSessions.length > 0 && (
+                <span className={`ml-auto min-w-[20px] h-5 px-1.5 rounded-full text-[10px] flex items-center justify-center bg-neon-purple text-white ${escalatedSessions.some(s => s.escalation?.status === 'Waiting') ? 'animate-pulse' : ''}`}>
+                  {escalatedSessions.length}
+                </span>
+              )}
             </button>
           ))}
         </nav>
@@ -395,6 +749,14 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ config, setConfig, lead
               <p className="text-gray-500 text-xs md:text-sm">Manage your AI agent's knowledge base and behavior.</p>
             </div>
             <div className="flex gap-4">
+              <button
+                onClick={() => db.syncPending()}
+                disabled={syncStatus.state === 'disabled' || syncStatus.state === 'syncing'}
+                className={`hidden md:block px-3 py-2 text-xs font-semibold border rounded bg-white/5 hover:bg-white/10 transition-all disabled:cursor-default ${syncBadge.className}`}
+                title={syncStatus.lastError || (syncStatus.lastSyncedAt ? `Last synced ${new Date(syncStatus.lastSyncedAt).toLocaleTimeString()}` : 'Sync now')}
+              >
+                {syncBadge.label}
+              </button>
               <button 
                 onClick={handleSave}
                 disabled={isSaving}
@@ -419,6 +781,25 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ config, setConfig, lead
             </div>
           </header>
 
+          {schemaReport && (schemaReport.missing.length > 0 || schemaReport.error) && (
+            <div className="bg-red-500/10 border border-red-500/40 rounded-xl p-4 text-sm text-red-300">
+              <h3 className="font-bold mb-2">
+                {schemaReport.error ? 'Database check failed — running on local fallback storage' : 'Database schema is incomplete — some data is only saved locally'}
+              </h3>
+              {schemaReport.error && <p className="text-xs font-mono mb-2">{schemaReport.error}</p>}
+              {schemaReport.missing.length > 0 && (
+                <>
+                  <ul className="text-xs font-mono space-y-1 mb-2">
+                    {schemaReport.missing.map(issue => (
+                      <li key={issue.object}>• {issue.object} <span className="text-red-400/60">← {issue.migration}.sql</span></li>
+                    ))}
+                  </ul>
+                  <p className="text-xs text-red-300/70">Apply the listed files from <code>supabase/migrations</code> (or run <code>supabase db push</code>).</p>
+                </>
+              )}
+            </div>
+          )}
+
           {activeTab === 'overview' && (
              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                 <div className="col-span-1 md:col-span-3 bg-gradient-to-r from-neon-blue/20 to-neon-purple/20 p-8 rounded-2xl border border-white/10 flex flex-col md:flex-row items-center justify-between gap-4 text-center md:text-left">
@@ -442,9 +823,85 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ config, setConfig, lead
                   <h3 className="text-gray-400 text-xs uppercase tracking-widest mb-2">Positive Sentiment</h3>
                   <p className="text-4xl font-bold text-green-400">{stats.sentimentScore}%</p>
                 </div>
+                <div className="col-span-1 md:col-span-3 p-6 rounded-xl glass-panel border border-white/5">
+                  <h3 className="text-gray-400 text-xs uppercase tracking-widest mb-4">Leads by Stage</h3>
+                  <div className="flex flex-wrap gap-3">
+                    {stats.byStage.map(({ stage, count }) => (
+                      <div key={stage.id} className="px-4 py-2 rounded-lg border flex items-center gap-3" style={stageStyle(stage)}>
+                        <span className="text-xs font-semibold uppercase">{stage.name}</span>
+                        <span className="text-lg font-bold">{count}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                <div className="col-span-1 md:col-span-3 p-6 rounded-xl glass-panel border border-white/5">
+                  <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-gray-400 text-xs uppercase tracking-widest">Stale Leads</h3>
+                    <span className="text-xs text-gray-500">Open leads with no contact for {staleLeadDays}+ days</span>
+                  </div>
+                  {staleLeads.length === 0 ? (
+                    <p className="text-sm text-gray-500">Every open lead has been contacted recently.</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {staleLeads.slice(0, 10).map(lead => (
+                        <div key={lead.id} className="flex items-center justify-between gap-4 p-3 rounded-lg bg-black/20 border border-white/5">
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium text-white truncate">{lead.name}</p>
+                            <p className="text-[10px] text-gray-500 truncate">{stageLabel(pipelineStages, lead.status)}{lead.phone ? ` · ${lead.phone}` : ''}</p>
+                          </div>
+                          <div className="flex items-center gap-3 shrink-0">
+                            <span className="text-xs text-amber-400" title={lastContactAt(lead)?.toLocaleString()}>{formatRelativeTime(lastContactAt(lead))}</span>
+                            <button onClick={() => handleViewHistory(lead)} className="text-xs text-neon-blue hover:underline">View</button>
+                          </div>
+                        </div>
+                      ))}
+                      {staleLeads.length > 10 && (
+                        <p className="text-xs text-gray-500 pt-1">and {staleLeads.length - 10} more. Sort the CRM by Last Contact to see them all.</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+                <ConversationAnalytics
+                  leads={leads}
+                  pipelineStages={pipelineStages}
+                  personas={config.personas}
+                  agentId={activeAgent?.id}
+                />
              </div>
           )}
           
+          {/* Live Queue */}
+          {activeTab === 'queue' && (
+            <LiveQueue
+              sessions={escalatedSessions}
+              leads={leads}
+              onTakeOver={handleTakeOver}
+              onSendMessage={handleOperatorMessage}
+              onResolve={handleResolveEscalation}
+            />
+          )}
+          
+          {/* Follow-up Tasks */}
+          {activeTab === 'tasks' && (
+            <FollowUpTasks
+              tasks={followUpTasks}
+              leads={leads}
+              pipelineStages={pipelineStages}
+              onComplete={handleCompleteTask}
+              onUpdate={handleUpdateTask}
+              onViewLead={handleViewHistory}
+            />
+          )}
+
+          {/* Config Version History */}
+          {activeTab === 'history' && (
+            <ConfigHistory
+              versions={configVersions}
+              currentConfig={config}
+              onRestore={handleRestoreVersion}
+            />
+          )}
+
           {/* Landing Page Manager */}
           {activeTab === 'landing' && (
              <div className="space-y-10">
@@ -558,12 +1015,46 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ config, setConfig, lead
 
           {/* CRM */}
           {activeTab === 'crm' && (
-            <CRMTable 
-              leads={leads} 
-              onUpdateLead={onUpdateLead}
-              onDeleteLead={onDeleteLead}
-              onViewHistory={handleViewHistory}
-            />
+            <div className="space-y-4">
+              <DuplicateReview leads={leads} stages={pipelineStages} onMerge={onMergeLeads} />
+              <div className="flex justify-end">
+                <div className="inline-flex rounded-lg border border-white/10 bg-white/5 p-1">
+                  {(['table', 'board'] as CrmView[]).map(view => (
+                    <button
+                      key={view}
+                      onClick={() => setCrmView(view)}
+                      className={`px-3 py-1 text-xs font-semibold rounded-md transition-colors ${crmView === view ? 'bg-neon-blue text-black' : 'text-gray-400 hover:text-white'}`}
+                    >
+                      {view === 'table' ? 'Table' : 'Board'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {crmView === 'board' ? (
+                <PipelineBoard
+                  leads={leads}
+                  pipelineStages={pipelineStages}
+                  qualificationCriteria={config.process.qualificationCriteria}
+                  onUpdateLead={onUpdateLead}
+                  onViewHistory={handleViewHistory}
+                />
+              ) : (
+                <CRMTable 
+                  leads={leads} 
+                  appointments={appointments}
+                  pipelineStages={pipelineStages}
+                  qualificationCriteria={config.process.qualificationCriteria}
+                  onUpdateLead={onUpdateLead}
+                  onDeleteLead={onDeleteLead}
+                  onBulkUpdateLeads={onBulkUpdateLeads}
+                  onBulkDeleteLeads={onBulkDeleteLeads}
+                  onExportLeads={exportLeads}
+                  onViewHistory={handleViewHistory}
+                  agentId={activeAgent?.id}
+                  staleLeadDays={staleLeadDays}
+                />
+              )}
+            </div>
           )}
 
           {/* Company Info */}
@@ -666,39 +1157,57 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ config, setConfig, lead
 
           {/* Objections */}
           {activeTab === 'objections' && (
-            <ListManager<ObjectionHandler>
-              items={config.objections}
-              name="objections"
-              onUpdate={(items) => updateConfig('objections', items)}
-              newItemTemplate={{ id: '', objection: 'Price is too high', answer: '' }}
-              renderItem={(item, idx, update) => (
-                <div className="space-y-2">
-                  <RenderField label="Objection" value={item.objection} onChange={(v: string) => update({...item, objection: v})} />
-                  <RenderField label="The Perfect Answer" value={item.answer} onChange={(v: string) => update({...item, answer: v})} multiline />
-                </div>
-              )}
-            />
+            <>
+              <ObjectionEffectivenessTable
+                handlers={config.objections}
+                leads={leads}
+                pipelineStages={pipelineStages}
+                agentId={activeAgent?.id}
+                onAddHandler={(objection) => updateConfig('objections', [...config.objections, { id: Date.now().toString(), objection, answer: '' }])}
+              />
+              <ListManager<ObjectionHandler>
+                items={config.objections}
+                name="objections"
+                onUpdate={(items) => updateConfig('objections', items)}
+                newItemTemplate={{ id: '', objection: 'Price is too high', answer: '' }}
+                renderItem={(item, idx, update) => (
+                  <div className="space-y-2">
+                    <RenderField label="Objection" value={item.objection} onChange={(v: string) => update({...item, objection: v})} />
+                    <RenderField label="The Perfect Answer" value={item.answer} onChange={(v: string) => update({...item, answer: v})} multiline />
+                  </div>
+                )}
+              />
+            </>
           )}
 
           {/* FAQs */}
           {activeTab === 'faqs' && (
-            <ListManager<FAQ>
-              items={config.faqs}
-              name="faqs"
-              onUpdate={(items) => updateConfig('faqs', items)}
-              newItemTemplate={{ id: '', question: '', answer: '', category: 'General' }}
-              renderItem={(item, idx, update) => (
-                <div className="space-y-2">
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                     <div className="col-span-1 md:col-span-2">
-                        <RenderField label="Question" value={item.question} onChange={(v: string) => update({...item, question: v})} />
-                     </div>
-                     <RenderField label="Category" value={item.category} onChange={(v: string) => update({...item, category: v})} />
+            <>
+              <FaqInbox
+                questions={openQuestions}
+                leads={leads}
+                onPromote={handlePromoteQuestion}
+                onDismiss={(group) => closeQuestions(group, { status: 'Dismissed' })}
+                onViewLead={handleViewHistory}
+              />
+              <ListManager<FAQ>
+                items={config.faqs}
+                name="faqs"
+                onUpdate={(items) => updateConfig('faqs', items)}
+                newItemTemplate={{ id: '', question: '', answer: '', category: 'General' }}
+                renderItem={(item, idx, update) => (
+                  <div className="space-y-2">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                       <div className="col-span-1 md:col-span-2">
+                          <RenderField label="Question" value={item.question} onChange={(v: string) => update({...item, question: v})} />
+                       </div>
+                       <RenderField label="Category" value={item.category} onChange={(v: string) => update({...item, category: v})} />
+                    </div>
+                    <RenderField label="Answer" value={item.answer} onChange={(v: string) => update({...item, answer: v})} multiline />
                   </div>
-                  <RenderField label="Answer" value={item.answer} onChange={(v: string) => update({...item, answer: v})} multiline />
-                </div>
-              )}
-            />
+                )}
+              />
+            </>
           )}
 
           {/* Process */}
@@ -707,7 +1216,125 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ config, setConfig, lead
               <RenderField label="Lead Qualification Rules" value={config.process.leadQualificationRules} onChange={(v: string) => updateNestedConfig('process', 'leadQualificationRules', v)} multiline rows={4} />
               <RenderField label="Discovery Questions" value={config.process.discoveryQuestions} onChange={(v: string) => updateNestedConfig('process', 'discoveryQuestions', v)} multiline rows={4} />
               <RenderField label="Follow Up Strategy" value={config.process.followUpStrategy} onChange={(v: string) => updateNestedConfig('process', 'followUpStrategy', v)} multiline rows={4} />
+              <div className="bg-white/5 p-6 rounded-xl border border-white/10">
+                 <h3 className="text-lg font-bold text-neon-blue mb-1">Follow-up Rules</h3>
+                 <p className="text-xs text-gray-400 mb-4">
+                   When a lead enters a stage, a task is added to My Tasks, due after the given number of days. Open tasks from a stage's rules are cancelled once the lead moves to another stage.
+                 </p>
+                 <ListManager<FollowUpRule>
+                    items={config.process.followUpRules || []}
+                    name="follow_up_rules"
+                    onUpdate={(items) => updateNestedConfig('process', 'followUpRules', items.map(i => ({ ...i, afterDays: Math.max(0, Number(i.afterDays) || 0) })))}
+                    newItemTemplate={{ id: '', stageId: pipelineStages[0]?.id || '', afterDays: 2, action: '' }}
+                    renderItem={(item, idx, update) => (
+                      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                         <div className="space-y-2 mb-4">
+                            <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider">When a lead enters</label>
+                            <select
+                              value={item.stageId}
+                              onChange={(e) => update({...item, stageId: e.target.value})}
+                              className="w-full bg-black/20 border border-white/10 rounded-lg px-4 py-3 text-white focus:border-neon-blue focus:outline-none text-sm"
+                            >
+                              {pipelineStages.map(stage => (
+                                <option key={stage.id} value={stage.id}>{stage.name}</option>
+                              ))}
+                            </select>
+                         </div>
+                         <RenderField label="After (Days)" type="number" value={item.afterDays} onChange={(v: string) => update({...item, afterDays: Number(v) || 0})} />
+                         <div className="col-span-1 md:col-span-2">
+                            <RenderField label="Task" value={item.action} onChange={(v: string) => update({...item, action: v})} />
+                         </div>
+                      </div>
+                    )}
+                 />
+              </div>
+              <RenderField label="Flag Leads as Stale After (Days)" type="number" value={staleLeadDays} onChange={(v: string) => updateNestedConfig('process', 'staleLeadDays', Math.max(1, Number(v) || DEFAULT_STALE_LEAD_DAYS))} />
               <RenderField label="When to escalate to human?" value={config.process.humanEscalationTrigger} onChange={(v: string) => updateNestedConfig('process', 'humanEscalationTrigger', v)} multiline />
+
+              <div className="bg-white/5 p-6 rounded-xl border border-white/10">
+                 <h3 className="text-lg font-bold text-neon-blue mb-1">Pipeline Stages</h3>
+                 <p className="text-xs text-gray-400 mb-4">
+                   The stages a lead moves through, in order. New leads start in the first open stage; won stages count towards the conversion rate. Leads in a removed stage keep it until they are moved.
+                 </p>
+                 <ListManager<PipelineStage>
+                    items={pipelineStages}
+                    name="pipeline_stages"
+                    sortable
+                    onUpdate={(items) => updateNestedConfig('process', 'pipelineStages', items)}
+                    newItemTemplate={{ id: '', name: '', color: '#6b7280', outcome: 'open' }}
+                    renderItem={(item, idx, update) => (
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                         <RenderField label="Stage" value={item.name} onChange={(v: string) => update({...item, name: v})} />
+                         <RenderField label="Colour" type="color" value={item.color} onChange={(v: string) => update({...item, color: v})} />
+                         <div className="space-y-2 mb-4">
+                            <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider">Outcome</label>
+                            <select
+                              value={item.outcome}
+                              onChange={(e) => update({...item, outcome: e.target.value as PipelineStage['outcome']})}
+                              className="w-full bg-black/20 border border-white/10 rounded-lg px-4 py-3 text-white focus:border-neon-blue focus:outline-none text-sm"
+                            >
+                              <option value="open">Open</option>
+                              <option value="won">Won</option>
+                              <option value="lost">Lost</option>
+                            </select>
+                         </div>
+                      </div>
+                    )}
+                 />
+              </div>
+
+              <div className="bg-white/5 p-6 rounded-xl border border-white/10">
+                 <h3 className="text-lg font-bold text-neon-blue mb-1">Qualification Criteria</h3>
+                 <p className="text-xs text-gray-400 mb-4">
+                   The agent assesses each criterion as met, partially met or not met during the conversation. A lead's score (0-100) is the weighted share of criteria met, shown and sortable in the CRM.
+                 </p>
+                 <ListManager<QualificationCriterion>
+                    items={config.process.qualificationCriteria || []}
+                    name="qualification_criteria"
+                    onUpdate={(items) => updateNestedConfig('process', 'qualificationCriteria', items.map(i => ({ ...i, weight: Number(i.weight) || 0 })))}
+                    newItemTemplate={{ id: '', name: '', description: '', weight: 10 }}
+                    renderItem={(item, idx, update) => (
+                      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                         <RenderField label="Criterion" value={item.name} onChange={(v: string) => update({...item, name: v})} />
+                         <RenderField label="Weight" type="number" value={item.weight} onChange={(v: string) => update({...item, weight: Number(v) || 0})} />
+                         <div className="col-span-1 md:col-span-2">
+                           <RenderField label="What counts as met?" value={item.description} onChange={(v: string) => update({...item, description: v})} />
+                         </div>
+                      </div>
+                    )}
+                 />
+              </div>
+
+              <div className="bg-white/5 p-6 rounded-xl border border-white/10">
+                 <h3 className="text-lg font-bold text-neon-blue mb-4">Appointment Booking</h3>
+                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                   <RenderField label="External Booking Link (Optional)" value={config.process.bookingLink || ''} onChange={(v: string) => updateNestedConfig('process', 'bookingLink', v)} />
+                   <RenderField label="Visit Duration (Minutes)" type="number" value={config.process.appointmentDurationMinutes ?? DEFAULT_APPOINTMENT_MINUTES} onChange={(v: string) => updateNestedConfig('process', 'appointmentDurationMinutes', Number(v) || DEFAULT_APPOINTMENT_MINUTES)} />
+                 </div>
+                 <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">Availability Slots</label>
+                 <ListManager<AvailabilitySlot>
+                    items={config.process.availability || []}
+                    name="availability"
+                    onUpdate={(items) => updateNestedConfig('process', 'availability', items.map(i => ({ ...i, dayOfWeek: Number(i.dayOfWeek) })))}
+                    newItemTemplate={{ id: '', dayOfWeek: 0, startTime: '10:00', endTime: '18:00' }}
+                    renderItem={(item, idx, update) => (
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                         <div className="space-y-2 mb-4">
+                            <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider">Day</label>
+                            <select
+                              value={item.dayOfWeek}
+                              onChange={(e) => update({...item, dayOfWeek: Number(e.target.value)})}
+                              className="w-full bg-black/20 border border-white/10 rounded-lg px-4 py-3 text-white focus:border-neon-blue focus:outline-none text-sm"
+                            >
+                              {DAY_NAMES.map((day, i) => <option key={day} value={i}>{day}</option>)}
+                            </select>
+                         </div>
+                         <RenderField label="From" type="time" value={item.startTime} onChange={(v: string) => update({...item, startTime: v})} />
+                         <RenderField label="To" type="time" value={item.endTime} onChange={(v: string) => update({...item, endTime: v})} />
+                      </div>
+                    )}
+                 />
+              </div>
             </div>
           )}
 
@@ -811,10 +1438,20 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ config, setConfig, lead
                    </div>
                 </div>
 
+                {activeAgent && (
+                  <div className="bg-white/5 p-6 rounded-xl border border-white/10">
+                     <h3 className="text-lg font-bold mb-2">Public Link</h3>
+                     <p className="text-xs text-gray-400 mb-3">Opens the landing page and agent view for this agent only.</p>
+                     <div className="bg-black/50 p-4 rounded-lg font-mono text-xs text-green-400 overflow-x-auto whitespace-pre">
+                       {agentLink(activeAgent)}
+                     </div>
+                  </div>
+                )}
+
                 <div className="bg-white/5 p-6 rounded-xl border border-white/10">
                    <h3 className="text-lg font-bold mb-2">Embed Code</h3>
                    <div className="bg-black/50 p-4 rounded-lg font-mono text-xs text-green-400 overflow-x-auto whitespace-pre">
-                     {`<script src="https://nova-agent.app/sdk.js"></script>\n<nova-agent\n  id="${config.companyName.toLowerCase().replace(/\s/g, '-')}"\n  theme="dark"\n></nova-agent>`}
+                     {`<script src="https://nova-agent.app/sdk.js"></script>\n<nova-agent\n  id="${activeAgent?.slug || config.companyName.toLowerCase().replace(/\s/g, '-')}"\n  theme="dark"\n></nova-agent>`}
                    </div>
                 </div>
              </div>
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { AgentProfile } from '../types';
+
+interface AgentSwitcherProps {
+  agents: AgentProfile[];
+  activeAgent: AgentProfile | null;
+  onSwitch: (agent: AgentProfile) => Promise<void>;
+  onCreate: (name: string) => Promise<void>;
+  onDelete: (agent: AgentProfile) => Promise<void>;
+}
+
+export const agentLink = (agent: AgentProfile) =>
+  `${window.location.origin}${window.location.pathname}?agent=${encodeURIComponent(agent.slug)}`;
+
+const AgentSwitcher: React.FC<AgentSwitcherProps> = ({ agents, activeAgent, onSwitch, onCreate, onDelete }) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (e: any) {
+      setError(e.message || 'Something went wrong');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    run(async () => {
+      await onCreate(newName.trim());
+      setNewName('');
+      setIsCreating(false);
+    });
+  };
+
+  const handleDelete = () => {
+    if (!activeAgent) return;
+    if (!window.confirm(`Delete "${activeAgent.name}" with all of its leads, sessions and appointments?`)) return;
+    run(() => onDelete(activeAgent));
+  };
+
+  return (
+    <div className="px-4 pb-4 space-y-2">
+      <label className="block text-[10px] font-semibold text-gray-500 uppercase tracking-wider">Agent</label>
+      <div className="flex gap-2">
+        <select
+          value={activeAgent?.id || ''}
+          disabled={isBusy}
+          onChange={(e) => {
+            const agent = agents.find(a => a.id === e.target.value);
+            if (agent) run(() => onSwitch(agent));
+          }}
+          className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded-lg px-2 py-2 text-xs text-white focus:border-neon-blue focus:outline-none"
+        >
+          {agents.map(agent => (
+            <option key={agent.id} value={agent.id}>{agent.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => setIsCreating(v => !v)}
+          className="px-3 py-2 text-xs border border-white/10 rounded-lg text-gray-300 hover:bg-white/10"
+          title="New agent"
+        >
+          +
+        </button>
+      </div>
+
+      {isCreating && (
+        <form onSubmit={handleCreate} className="flex gap-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Agent name (brand / branch)"
+            autoFocus
+            className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded-lg px-2 py-2 text-xs text-white focus:border-neon-blue focus:outline-none"
+          />
+          <button
+            type="submit"
+            disabled={!newName.trim() || isBusy}
+            className="px-3 py-2 text-xs font-bold bg-neon-blue text-black rounded-lg disabled:opacity-50"
+          >
+            Create
+          </button>
+        </form>
+      )}
+
+      {activeAgent && (
+        <div className="flex justify-between items-center text-[10px]">
+          <button
+            onClick={() => navigator.clipboard?.writeText(agentLink(activeAgent))}
+            className="text-neon-blue hover:underline truncate"
+            title={agentLink(activeAgent)}
+          >
+            Copy link (?agent={activeAgent.slug})
+          </button>
+          {agents.length > 1 && (
+            <button onClick={handleDelete} disabled={isBusy} className="text-red-400 hover:underline shrink-0 ml-2">
+              Delete
+            </button>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-[10px] text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default AgentSwitcher;
@@ -1,13 +1,52 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { Lead } from '../types';
+import { Lead, Appointment, QualificationCriterion, PipelineStage } from '../types';
+import { leadScore, scoreColor, describeQualification } from '../services/qualification';
+import { DEFAULT_PIPELINE_STAGES, findStage, stageStyle } from '../services/pipeline';
+import { lastContactAt, daysSince, formatRelativeTime, DEFAULT_STALE_LEAD_DAYS } from '../services/leadTiming';
+import { LeadFilters, LeadSort, SavedLeadView, EMPTY_FILTERS, SENTIMENTS, applyLeadFilters, activeFilterCount, interestOptions, loadSavedViews, storeSavedViews } from '../services/leadFilters';
 
 interface CRMTableProps {
   leads: Lead[];
+  appointments?: Appointment[];
+  pipelineStages?: PipelineStage[];
+  qualificationCriteria?: QualificationCriterion[];
   onUpdateLead: (id: string, updates: Partial<Lead>) => void;
   onDeleteLead: (id: string) => void;
+  onBulkUpdateLeads: (ids: string[], updates: Partial<Lead>) => void;
+  onBulkDeleteLeads: (ids: string[]) => void;
+  onExportLeads: (leads: Lead[]) => void;
   onViewHistory: (lead: Lead) => void;
+  agentId?: string; // scopes saved views to the agent
+  staleLeadDays?: number;
 }
 
+const PAGE_SIZES = [8, 25, 50, 100];
+const PAGE_SIZE_KEY = 'nova_crm_page_size';
+
+// Page numbers around the current page, with gaps (null) so thousands of leads don't render hundreds of buttons
+const pageWindow = (current: number, total: number): (number | null)[] => {
+  const pages: (number | null)[] = [];
+  for (let page = 1; page <= total; page++) {
+    if (page === 1 || page === total || Math.abs(page - current) <= 2) pages.push(page);
+    else if (pages[pages.length - 1] !== null) pages.push(null);
+  }
+  return pages;
+};
+
+// Toggles a value in a multi-select facet
+const toggle = <T,>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+const FacetChip = ({ label, active, color, onClick }: { label: string, active: boolean, color?: string, onClick: () => void }) => (
+  <button
+    onClick={onClick}
+    className={`px-2.5 py-1 rounded-full text-[11px] font-semibold border transition-colors ${active ? 'bg-neon-blue/20 border-neon-blue text-white' : 'bg-black/20 border-white/10 text-gray-400 hover:text-white'}`}
+  >
+    {color && <span className="inline-block w-1.5 h-1.5 rounded-full mr-1.5 align-middle" style={{ backgroundColor: color }}></span>}
+    {label}
+  </button>
+);
+
 // Editable Cell Component for seamless inline editing
 const EditableCell = ({ 
   value, 
@@ -67,42 +106,76 @@ const EditableCell = ({
   );
 };
 
-const CRMTable: React.FC<CRMTableProps> = ({ leads, onUpdateLead, onDeleteLead, onViewHistory }) => {
-  const [searchTerm, setSearchTerm] = useState('');
-  const [sortConfig, setSortConfig] = useState<{ key: keyof Lead; direction: 'asc' | 'desc' } | null>(null);
+const CRMTable: React.FC<CRMTableProps> = ({ leads, appointments = [], pipelineStages = DEFAULT_PIPELINE_STAGES, qualificationCriteria = [], onUpdateLead, onDeleteLead, onBulkUpdateLeads, onBulkDeleteLeads, onExportLeads, onViewHistory, agentId = 'default', staleLeadDays = DEFAULT_STALE_LEAD_DAYS }) => {
+  const [filters, setFilters] = useState<LeadFilters>(EMPTY_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
+  const [sortConfig, setSortConfig] = useState<LeadSort | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
-  const itemsPerPage = 8;
-
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'New': return 'bg-blue-500/10 text-blue-400 border-blue-500/20';
-      case 'Contacted': return 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20';
-      case 'Qualified': return 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20';
-      case 'Closed': return 'bg-purple-500/10 text-purple-400 border-purple-500/20';
-      default: return 'bg-gray-700/50 text-gray-300 border-gray-600';
-    }
+  const [itemsPerPage, setItemsPerPage] = useState(() => Number(localStorage.getItem(PAGE_SIZE_KEY)) || PAGE_SIZES[0]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkStatus, setBulkStatus] = useState('');
+  const [savedViews, setSavedViews] = useState<SavedLeadView[]>(() => loadSavedViews(agentId));
+  const [activeViewId, setActiveViewId] = useState('');
+
+  useEffect(() => {
+    setSavedViews(loadSavedViews(agentId));
+    setActiveViewId('');
+    setFilters(EMPTY_FILTERS);
+  }, [agentId]);
+
+  useEffect(() => {
+    localStorage.setItem(PAGE_SIZE_KEY, String(itemsPerPage));
+  }, [itemsPerPage]);
+
+  // Drop selections of leads that were deleted or merged away
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const ids = new Set(leads.map(l => l.id));
+      const kept = new Set(Array.from(prev).filter(id => ids.has(id)));
+      return kept.size === prev.size ? prev : kept;
+    });
+  }, [leads]);
+
+  const updateFilters = (updates: Partial<LeadFilters>) => {
+    setFilters(prev => ({ ...prev, ...updates }));
+    setActiveViewId('');
+    setCurrentPage(1);
   };
 
+  const interests = useMemo(() => interestOptions(leads), [leads]);
+
+  // Next upcoming scheduled appointment per lead
+  const nextAppointments = useMemo(() => {
+    const now = Date.now();
+    const map = new Map<string, Appointment>();
+    appointments
+      .filter(a => a.status === 'Scheduled' && new Date(a.startsAt).getTime() > now)
+      .forEach(a => {
+        const current = map.get(a.leadId);
+        if (!current || new Date(a.startsAt) < new Date(current.startsAt)) map.set(a.leadId, a);
+      });
+    return map;
+  }, [appointments]);
+
   // Filter and Sort
   const processedLeads = useMemo(() => {
-    let data = [...leads];
-
-    if (searchTerm) {
-      const lower = searchTerm.toLowerCase();
-      data = data.filter(l => 
-        l.name.toLowerCase().includes(lower) || 
-        l.company.toLowerCase().includes(lower) ||
-        (l.phone && l.phone.includes(lower)) ||
-        l.id.toLowerCase().includes(lower)
-      );
-    }
+    const data = applyLeadFilters(leads, filters);
 
     if (sortConfig) {
+      // Scores are recomputed with the current criteria weights; unscored leads sort below every score.
+      // Statuses sort in pipeline order, with statuses of removed stages first.
+      // Last contact falls back to the creation time for leads that never wrote.
+      const sortValue = (lead: Lead) => sortConfig.key === 'qualificationScore'
+        ? leadScore(lead, qualificationCriteria) ?? -1
+        : sortConfig.key === 'status'
+          ? pipelineStages.findIndex(s => s.id === lead.status)
+          : sortConfig.key === 'lastInteractionAt'
+            ? lastContactAt(lead)?.getTime() ?? -1
+            // @ts-ignore
+            : lead[sortConfig.key] || '';
       data.sort((a, b) => {
-        // @ts-ignore
-        const valA = a[sortConfig.key] || '';
-        // @ts-ignore
-        const valB = b[sortConfig.key] || '';
+        const valA = sortValue(a);
+        const valB = sortValue(b);
         
         if (valA < valB) return sortConfig.direction === 'asc' ? -1 : 1;
         if (valA > valB) return sortConfig.direction === 'asc' ? 1 : -1;
@@ -111,10 +184,13 @@ const CRMTable: React.FC<CRMTableProps> = ({ leads, onUpdateLead, onDeleteLead,
     }
 
     return data;
-  }, [leads, searchTerm, sortConfig]);
+  }, [leads, filters, sortConfig, qualificationCriteria, pipelineStages]);
 
   // Pagination
   const totalPages = Math.ceil(processedLeads.length / itemsPerPage);
+  useEffect(() => {
+    if (currentPage > Math.max(totalPages, 1)) setCurrentPage(Math.max(totalPages, 1));
+  }, [currentPage, totalPages]);
   const currentData = processedLeads.slice((currentPage - 1) * itemsPerPage, currentPage * itemsPerPage);
 
   const handleSort = (key: keyof Lead) => {
@@ -123,36 +199,248 @@ const CRMTable: React.FC<CRMTableProps> = ({ leads, onUpdateLead, onDeleteLead,
       direction = 'desc';
     }
     setSortConfig({ key, direction });
+    setActiveViewId('');
+  };
+
+  // Selection
+  const selectedLeads = useMemo(() => leads.filter(l => selectedIds.has(l.id)), [leads, selectedIds]);
+  const allFilteredSelected = processedLeads.length > 0 && processedLeads.every(l => selectedIds.has(l.id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  // The header checkbox selects every lead matching the filters, not only the visible page
+  const toggleAllFiltered = () => {
+    setSelectedIds(allFilteredSelected ? new Set() : new Set(processedLeads.map(l => l.id)));
+  };
+
+  const handleBulkStatus = (status: string) => {
+    setBulkStatus('');
+    if (!status || selectedLeads.length === 0) return;
+    onBulkUpdateLeads(selectedLeads.map(l => l.id), { status });
+  };
+
+  const handleBulkDelete = () => {
+    if (!window.confirm(`Delete ${selectedLeads.length} leads with their conversations and appointments? This cannot be undone.`)) return;
+    onBulkDeleteLeads(selectedLeads.map(l => l.id));
+    setSelectedIds(new Set());
+  };
+
+  // Saved views
+  const applyView = (id: string) => {
+    const view = savedViews.find(v => v.id === id);
+    setActiveViewId(view ? view.id : '');
+    setFilters(view ? { ...EMPTY_FILTERS, ...view.filters } : EMPTY_FILTERS);
+    setSortConfig(view ? view.sort : null);
+    setCurrentPage(1);
+  };
+
+  const saveView = () => {
+    const name = window.prompt('Name this view:')?.trim();
+    if (!name) return;
+    const existing = savedViews.find(v => v.name.toLowerCase() === name.toLowerCase());
+    const view: SavedLeadView = { id: existing?.id || Date.now().toString(), name, filters, sort: sortConfig };
+    const next = existing ? savedViews.map(v => v.id === existing.id ? view : v) : [...savedViews, view];
+    setSavedViews(next);
+    storeSavedViews(agentId, next);
+    setActiveViewId(view.id);
   };
 
+  const deleteView = () => {
+    const view = savedViews.find(v => v.id === activeViewId);
+    if (!view || !window.confirm(`Delete the saved view "${view.name}"?`)) return;
+    const next = savedViews.filter(v => v.id !== view.id);
+    setSavedViews(next);
+    storeSavedViews(agentId, next);
+    setActiveViewId('');
+  };
+
+  const filterCount = activeFilterCount(filters);
+
   return (
     <div className="space-y-4">
       {/* Toolbar */}
       <div className="flex flex-col md:flex-row justify-between items-center gap-4 bg-white/5 p-4 rounded-xl border border-white/10">
-        <div className="relative w-full md:w-96">
-          <input
-            type="text"
-            placeholder="Search leads by name, phone..."
-            value={searchTerm}
+        <div className="flex flex-col md:flex-row items-center gap-3 w-full md:w-auto">
+          <div className="relative w-full md:w-96">
+            <input
+              type="text"
+              placeholder="Search name, phone, interest, notes..."
+              value={filters.search}
+              onChange={(e) => updateFilters({ search: e.target.value })}
+              className="w-full bg-black/20 border border-white/10 rounded-lg pl-10 pr-4 py-2 text-sm text-white focus:border-neon-blue focus:outline-none focus:bg-white/5 transition-all"
+            />
+            <svg className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
+          </div>
+          <button
+            onClick={() => setShowFilters(prev => !prev)}
+            className={`px-3 py-2 text-xs font-semibold rounded-lg border transition-colors whitespace-nowrap ${showFilters || filterCount > 0 ? 'bg-neon-blue/10 border-neon-blue/50 text-neon-blue' : 'bg-black/20 border-white/10 text-gray-400 hover:text-white'}`}
+          >
+            Filters{filterCount > 0 ? ` (${filterCount})` : ''}
+          </button>
+          <div className="flex items-center gap-2">
+            <select
+              value={activeViewId}
+              onChange={(e) => applyView(e.target.value)}
+              className="bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-xs text-white focus:outline-none focus:border-neon-blue cursor-pointer"
+            >
+              <option value="" className="bg-gray-900">{savedViews.length > 0 ? 'Saved views...' : 'No saved views'}</option>
+              {savedViews.map(view => (
+                <option key={view.id} value={view.id} className="bg-gray-900">{view.name}</option>
+              ))}
+            </select>
+            <button onClick={saveView} className="px-3 py-2 text-xs font-semibold rounded-lg bg-black/20 hover:bg-white/10 border border-white/10 text-gray-300 whitespace-nowrap transition-colors" title="Save the current filters and sort as a view">
+              Save View
+            </button>
+            {activeViewId && (
+              <button onClick={deleteView} className="p-2 rounded-lg hover:bg-red-500/10 text-gray-500 hover:text-red-400 transition-colors" title="Delete Saved View">
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+              </button>
+            )}
+          </div>
+        </div>
+        <div className="flex items-center gap-3 text-xs text-gray-400 font-mono">
+          <span>Showing {currentData.length} of {processedLeads.length} leads</span>
+          <select
+            value={itemsPerPage}
             onChange={(e) => {
-              setSearchTerm(e.target.value);
-              setCurrentPage(1); // Reset to page 1 on search
+              setItemsPerPage(Number(e.target.value));
+              setCurrentPage(1);
             }}
-            className="w-full bg-black/20 border border-white/10 rounded-lg pl-10 pr-4 py-2 text-sm text-white focus:border-neon-blue focus:outline-none focus:bg-white/5 transition-all"
-          />
-          <svg className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
-        </div>
-        <div className="text-xs text-gray-400 font-mono">
-          Showing {currentData.length} of {processedLeads.length} leads
+            className="bg-black/20 border border-white/10 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:border-neon-blue cursor-pointer"
+            title="Leads per page"
+          >
+            {PAGE_SIZES.map(size => (
+              <option key={size} value={size} className="bg-gray-900">{size} / page</option>
+            ))}
+          </select>
         </div>
       </div>
 
+      {/* Filters */}
+      {showFilters && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 bg-white/5 p-4 rounded-xl border border-white/10">
+          <div>
+            <p className="text-[10px] uppercase font-bold text-gray-500 mb-2">Stage</p>
+            <div className="flex flex-wrap gap-2">
+              {pipelineStages.map(stage => (
+                <FacetChip
+                  key={stage.id}
+                  label={stage.name}
+                  color={stage.color}
+                  active={filters.statuses.includes(stage.id)}
+                  onClick={() => updateFilters({ statuses: toggle(filters.statuses, stage.id) })}
+                />
+              ))}
+            </div>
+          </div>
+          <div>
+            <p className="text-[10px] uppercase font-bold text-gray-500 mb-2">Sentiment</p>
+            <div className="flex flex-wrap gap-2">
+              {SENTIMENTS.map(sentiment => (
+                <FacetChip
+                  key={sentiment}
+                  label={sentiment}
+                  active={filters.sentiments.includes(sentiment)}
+                  onClick={() => updateFilters({ sentiments: toggle(filters.sentiments, sentiment) })}
+                />
+              ))}
+            </div>
+          </div>
+          <div>
+            <p className="text-[10px] uppercase font-bold text-gray-500 mb-2">Interested In</p>
+            <div className="flex flex-wrap gap-2 max-h-24 overflow-y-auto">
+              {interests.map(({ value, count }) => (
+                <FacetChip
+                  key={value}
+                  label={`${value} (${count})`}
+                  active={filters.interests.includes(value)}
+                  onClick={() => updateFilters({ interests: toggle(filters.interests, value) })}
+                />
+              ))}
+              {interests.length === 0 && <span className="text-xs text-gray-600">No interests recorded yet</span>}
+            </div>
+          </div>
+          <div>
+            <p className="text-[10px] uppercase font-bold text-gray-500 mb-2">Last Contact</p>
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={filters.interactionFrom || ''}
+                onChange={(e) => updateFilters({ interactionFrom: e.target.value || undefined })}
+                className="bg-black/20 border border-white/10 rounded-lg px-3 py-1.5 text-xs text-white focus:outline-none focus:border-neon-blue"
+              />
+              <span className="text-xs text-gray-500">to</span>
+              <input
+                type="date"
+                value={filters.interactionTo || ''}
+                onChange={(e) => updateFilters({ interactionTo: e.target.value || undefined })}
+                className="bg-black/20 border border-white/10 rounded-lg px-3 py-1.5 text-xs text-white focus:outline-none focus:border-neon-blue"
+              />
+            </div>
+          </div>
+          {filterCount > 0 && (
+            <div className="md:col-span-2 flex justify-end">
+              <button onClick={() => updateFilters(EMPTY_FILTERS)} className="text-xs text-gray-400 hover:text-white underline">
+                Clear all filters
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Bulk Actions */}
+      {selectedLeads.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3 bg-neon-blue/10 p-3 rounded-xl border border-neon-blue/30">
+          <span className="text-xs font-semibold text-white">{selectedLeads.length} selected</span>
+          <select
+            value={bulkStatus}
+            onChange={(e) => handleBulkStatus(e.target.value)}
+            className="bg-black/30 border border-white/10 rounded-lg px-3 py-1.5 text-xs text-white focus:outline-none focus:border-neon-blue cursor-pointer"
+          >
+            <option value="" className="bg-gray-900">Move to stage...</option>
+            {pipelineStages.map(stage => (
+              <option key={stage.id} value={stage.id} className="bg-gray-900">{stage.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => onExportLeads(selectedLeads)}
+            className="px-3 py-1.5 text-xs font-semibold rounded-lg bg-black/30 hover:bg-white/10 border border-white/10 text-gray-200 transition-colors"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={handleBulkDelete}
+            className="px-3 py-1.5 text-xs font-semibold rounded-lg bg-red-500/10 hover:bg-red-500/20 border border-red-500/30 text-red-400 transition-colors"
+          >
+            Delete
+          </button>
+          <button onClick={() => setSelectedIds(new Set())} className="ml-auto text-xs text-gray-400 hover:text-white">
+            Clear selection
+          </button>
+        </div>
+      )}
+
       {/* Table */}
       <div className="w-full overflow-hidden rounded-xl border border-white/10 glass-panel">
         <div className="overflow-x-auto">
           <table className="w-full text-left text-sm text-gray-400">
             <thead className="bg-white/5 text-gray-200 font-arabic uppercase text-xs tracking-wider">
               <tr>
+                <th className="pl-6 py-4 w-4">
+                  <input
+                    type="checkbox"
+                    checked={allFilteredSelected}
+                    onChange={toggleAllFiltered}
+                    className="accent-neon-blue cursor-pointer"
+                    title={`Select all ${processedLeads.length} matching leads`}
+                  />
+                </th>
                 <th onClick={() => handleSort('name')} className="px-6 py-4 font-semibold cursor-pointer hover:text-white transition-colors group select-none min-w-[200px]">
                   <div className="flex items-center gap-2">
                     Name / ID
@@ -177,6 +465,14 @@ const CRMTable: React.FC<CRMTableProps> = ({ leads, onUpdateLead, onDeleteLead,
                     )}
                   </div>
                 </th>
+                <th onClick={() => handleSort('dealValue')} className="px-6 py-4 font-semibold cursor-pointer hover:text-white transition-colors select-none min-w-[110px]">
+                  <div className="flex items-center gap-2">
+                    Value
+                    {sortConfig?.key === 'dealValue' && (
+                       <span className="text-neon-blue">{sortConfig.direction === 'asc' ? '↑' : '↓'}</span>
+                    )}
+                  </div>
+                </th>
                 <th onClick={() => handleSort('status')} className="px-6 py-4 font-semibold cursor-pointer hover:text-white transition-colors select-none min-w-[140px]">
                    <div className="flex items-center gap-2">
                     Status
@@ -185,9 +481,28 @@ const CRMTable: React.FC<CRMTableProps> = ({ leads, onUpdateLead, onDeleteLead,
                     )}
                   </div>
                 </th>
+                <th onClick={() => handleSort('lastInteractionAt')} className="px-6 py-4 font-semibold cursor-pointer hover:text-white transition-colors select-none min-w-[130px]">
+                   <div className="flex items-center gap-2">
+                    Last Contact
+                    {sortConfig?.key === 'lastInteractionAt' && (
+                       <span className="text-neon-blue">{sortConfig.direction === 'asc' ? '↑' : '↓'}</span>
+                    )}
+                  </div>
+                </th>
+                <th onClick={() => handleSort('qualificationScore')} className="px-6 py-4 font-semibold cursor-pointer hover:text-white transition-colors select-none min-w-[100px]">
+                   <div className="flex items-center gap-2">
+                    Score
+                    {sortConfig?.key === 'qualificationScore' && (
+                       <span className="text-neon-blue">{sortConfig.direction === 'asc' ? '↑' : '↓'}</span>
+                    )}
+                  </div>
+                </th>
                 <th className="px-6 py-4 font-semibold select-none min-w-[200px]">
                    Notes
                 </th>
+                <th className="px-6 py-4 font-semibold select-none min-w-[140px]">
+                   Appointment
+                </th>
                 <th className="px-6 py-4 font-semibold select-none text-center">
                    Call Record
                 </th>
@@ -205,7 +520,7 @@ const CRMTable: React.FC<CRMTableProps> = ({ leads, onUpdateLead, onDeleteLead,
             <tbody className="divide-y divide-white/5">
               {currentData.length === 0 ? (
                 <tr>
-                  <td colSpan={8} className="px-6 py-12 text-center text-gray-500">
+                  <td colSpan={13} className="px-6 py-12 text-center text-gray-500">
                     <div className="flex flex-col items-center gap-2">
                        <svg className="w-8 h-8 opacity-20" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z" /></svg>
                        <p>No leads found matching your criteria.</p>
@@ -214,11 +529,24 @@ const CRMTable: React.FC<CRMTableProps> = ({ leads, onUpdateLead, onDeleteLead,
                 </tr>
               ) : (
                 currentData.map((lead) => (
-                  <tr key={lead.id} className="hover:bg-white/5 transition-colors group">
+                  <tr key={lead.id} className={`hover:bg-white/5 transition-colors group ${selectedIds.has(lead.id) ? 'bg-neon-blue/5' : ''}`}>
+                    <td className="pl-6 py-4 align-top">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(lead.id)}
+                        onChange={() => toggleSelected(lead.id)}
+                        className="accent-neon-blue cursor-pointer mt-1.5"
+                      />
+                    </td>
                     {/* Name & ID */}
                     <td className="px-6 py-4 align-top">
                       <div className="flex flex-col">
-                        <span className="font-medium text-white">{lead.name}</span>
+                        <span className="font-medium text-white flex items-center gap-2">
+                          {lead.name}
+                          {lead.escalated && (
+                            <span className="text-[9px] uppercase font-bold px-1.5 py-0.5 rounded bg-neon-purple/20 text-neon-purple border border-neon-purple/30">Escalated</span>
+                          )}
+                        </span>
                         <span className="text-[10px] text-gray-500 font-mono tracking-wider">ID: {lead.id.slice(-4)}</span>
                         <span className="text-[10px] text-gray-500">{lead.company}</span>
                       </div>
@@ -242,26 +570,70 @@ const CRMTable: React.FC<CRMTableProps> = ({ leads, onUpdateLead, onDeleteLead,
                       />
                     </td>
 
+                    {/* Deal Value */}
+                    <td className="px-6 py-4 align-top">
+                       <EditableCell 
+                        value={lead.dealValue ? String(lead.dealValue) : ''} 
+                        onSave={(val) => onUpdateLead(lead.id, { dealValue: Math.max(0, Number(val) || 0) })} 
+                        placeholder="0"
+                        type="number"
+                      />
+                    </td>
+
                     {/* Status */}
                     <td className="px-6 py-4 align-top">
                       <div className="relative inline-block w-full">
                         <select
                           value={lead.status}
-                          onChange={(e) => onUpdateLead(lead.id, { status: e.target.value as any })}
-                          className={`appearance-none pl-3 pr-8 py-1.5 w-full rounded-full text-xs font-bold border cursor-pointer focus:outline-none focus:ring-1 focus:ring-white/20 transition-all ${getStatusColor(lead.status)}`}
+                          onChange={(e) => onUpdateLead(lead.id, { status: e.target.value })}
+                          className="appearance-none pl-3 pr-8 py-1.5 w-full rounded-full text-xs font-bold border cursor-pointer focus:outline-none focus:ring-1 focus:ring-white/20 transition-all"
+                          style={stageStyle(findStage(pipelineStages, lead.status))}
                         >
-                          <option value="New" className="bg-gray-900 text-blue-400">New</option>
-                          <option value="Contacted" className="bg-gray-900 text-yellow-400">Contacted</option>
-                          <option value="Qualified" className="bg-gray-900 text-emerald-400">Qualified</option>
-                          <option value="Closed" className="bg-gray-900 text-purple-400">Closed</option>
+                          {pipelineStages.map(stage => (
+                            <option key={stage.id} value={stage.id} className="bg-gray-900" style={{ color: stage.color }}>{stage.name}</option>
+                          ))}
+                          {/* Keeps a status whose stage was removed visible until the lead is moved */}
+                          {!findStage(pipelineStages, lead.status) && (
+                            <option value={lead.status} className="bg-gray-900 text-gray-400">{lead.status}</option>
+                          )}
                         </select>
                          <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-current opacity-50">
                             <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" /></svg>
                          </div>
                       </div>
-                      <div className="text-[10px] text-gray-600 mt-1 pl-1">
-                        {lead.lastInteraction}
-                      </div>
+                    </td>
+
+                    {/* Last Contact */}
+                    <td className="px-6 py-4 align-top">
+                      {(() => {
+                        const contact = lastContactAt(lead);
+                        const stale = !!contact && daysSince(contact) >= staleLeadDays && findStage(pipelineStages, lead.status)?.outcome === 'open';
+                        return (
+                          <span
+                            className={`text-xs whitespace-nowrap ${stale ? 'text-amber-400' : 'text-gray-400'}`}
+                            title={contact ? `${lead.lastInteractionAt ? 'Last message' : 'Created'} ${contact.toLocaleString()}` : undefined}
+                          >
+                            {formatRelativeTime(contact)}
+                          </span>
+                        );
+                      })()}
+                    </td>
+
+                    {/* Qualification Score */}
+                    <td className="px-6 py-4 align-top">
+                      {(() => {
+                        const score = leadScore(lead, qualificationCriteria);
+                        return score === undefined ? (
+                          <span className="text-xs text-gray-600">-</span>
+                        ) : (
+                          <span
+                            className={`inline-block px-2 py-1 rounded-lg text-xs font-bold font-mono border cursor-help ${scoreColor(score)}`}
+                            title={describeQualification(lead, qualificationCriteria)}
+                          >
+                            {score}
+                          </span>
+                        );
+                      })()}
                     </td>
 
                      {/* Notes */}
@@ -274,6 +646,21 @@ const CRMTable: React.FC<CRMTableProps> = ({ leads, onUpdateLead, onDeleteLead,
                       />
                     </td>
 
+                    {/* Appointment */}
+                    <td className="px-6 py-4 align-top">
+                      {nextAppointments.get(lead.id) ? (
+                        <button
+                          onClick={() => onViewHistory(lead)}
+                          className="text-left text-xs text-neon-purple hover:underline"
+                          title="View Appointments"
+                        >
+                          {new Date(nextAppointments.get(lead.id)!.startsAt).toLocaleString([], { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                        </button>
+                      ) : (
+                        <span className="text-xs text-gray-600">-</span>
+                      )}
+                    </td>
+
                     {/* Call Record */}
                     <td className="px-6 py-4 align-top text-center">
                        <button 
@@ -339,7 +726,9 @@ const CRMTable: React.FC<CRMTableProps> = ({ leads, onUpdateLead, onDeleteLead,
              Previous
            </button>
            <div className="flex gap-2">
-             {Array.from({ length: totalPages }, (_, i) => i + 1).map(page => (
+             {pageWindow(currentPage, totalPages).map((page, i) => page === null ? (
+               <span key={`gap-${i}`} className="w-8 h-8 flex items-center justify-center text-xs text-gray-600">…</span>
+             ) : (
                <button
                  key={page}
                  onClick={() => setCurrentPage(page)}
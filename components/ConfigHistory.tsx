@@ -0,0 +1,170 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { AgentConfig, ConfigVersion } from '../types';
+import { diffConfigs, ConfigChange } from '../services/configDiff';
+import { OPERATOR_NAME_KEY } from './LiveQueue';
+
+interface ConfigHistoryProps {
+  versions: ConfigVersion[]; // newest first
+  currentConfig: AgentConfig;
+  onRestore: (version: ConfigVersion, author: string) => Promise<void>;
+}
+
+const MAX_VALUE_LENGTH = 240;
+
+const formatValue = (value: any): string => {
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  if (text === undefined || text === '') return '(empty)';
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+};
+
+const KIND_STYLES: Record<ConfigChange['kind'], string> = {
+  added: 'text-emerald-400 border-emerald-500/30',
+  removed: 'text-red-400 border-red-500/30',
+  changed: 'text-yellow-400 border-yellow-500/30'
+};
+
+const ChangeList: React.FC<{ changes: ConfigChange[] }> = ({ changes }) => {
+  if (changes.length === 0) {
+    return <p className="text-sm text-gray-500 italic">No differences.</p>;
+  }
+  return (
+    <div className="space-y-2">
+      {changes.map((change, i) => (
+        <div key={i} className="border border-white/10 rounded-lg p-3 bg-black/20">
+          <div className="flex items-center gap-2 mb-1">
+            <span className={`text-[10px] uppercase font-bold border rounded px-1.5 ${KIND_STYLES[change.kind]}`}>{change.kind}</span>
+            <span className="text-xs font-mono text-gray-300 break-all">{change.path}</span>
+          </div>
+          {change.kind !== 'added' && (
+            <p className="text-xs text-red-300/80 whitespace-pre-wrap break-words"><span className="opacity-50">− </span>{formatValue(change.before)}</p>
+          )}
+          {change.kind !== 'removed' && (
+            <p className="text-xs text-emerald-300/80 whitespace-pre-wrap break-words"><span className="opacity-50">+ </span>{formatValue(change.after)}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const ConfigHistory: React.FC<ConfigHistoryProps> = ({ versions, currentConfig, onRestore }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(versions[0]?.id || null);
+  const [compareTo, setCompareTo] = useState<'previous' | 'current'>('previous');
+  const [author, setAuthor] = useState(() => localStorage.getItem(OPERATOR_NAME_KEY) || '');
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    localStorage.setItem(OPERATOR_NAME_KEY, author);
+  }, [author]);
+
+  useEffect(() => {
+    if (!versions.some(v => v.id === selectedId)) setSelectedId(versions[0]?.id || null);
+  }, [versions]);
+
+  const selectedIndex = versions.findIndex(v => v.id === selectedId);
+  const selected = selectedIndex >= 0 ? versions[selectedIndex] : null;
+  const previous = selectedIndex >= 0 ? versions[selectedIndex + 1] || null : null;
+
+  const unsavedChanges = useMemo(
+    () => versions[0] ? diffConfigs(versions[0].config, currentConfig) : [],
+    [versions, currentConfig]
+  );
+
+  const selectedChanges = useMemo(() => {
+    if (!selected) return [];
+    return compareTo === 'previous'
+      ? diffConfigs(previous?.config || null, selected.config)
+      : diffConfigs(selected.config, currentConfig);
+  }, [selected, previous, compareTo, currentConfig]);
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    if (!window.confirm(`Restore v${selected.version}? This saves it as a new version and applies it immediately.`)) return;
+    setIsRestoring(true);
+    try {
+      await onRestore(selected, author.trim() || 'Admin');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white/5 p-4 rounded-xl border border-white/10 flex flex-col md:flex-row md:items-center gap-3">
+        <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider shrink-0">Saving as</label>
+        <input
+          type="text"
+          value={author}
+          onChange={(e) => setAuthor(e.target.value)}
+          placeholder="Your name (recorded on every save)"
+          className="flex-1 bg-black/40 border border-white/10 rounded-lg px-4 py-2 text-sm text-white focus:border-neon-blue focus:outline-none"
+        />
+      </div>
+
+      {unsavedChanges.length > 0 && (
+        <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-xl p-4">
+          <h3 className="text-sm font-bold text-yellow-300 mb-3">Unsaved changes ({unsavedChanges.length})</h3>
+          <ChangeList changes={unsavedChanges} />
+        </div>
+      )}
+
+      {versions.length === 0 ? (
+        <div className="text-center text-gray-500 py-16 bg-white/5 rounded-xl border border-white/10">
+          No saved versions yet. The next save creates version 1.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="space-y-2 max-h-[600px] overflow-y-auto custom-scrollbar">
+            {versions.map((version, i) => (
+              <button
+                key={version.id}
+                onClick={() => setSelectedId(version.id)}
+                className={`w-full text-left p-3 rounded-xl border transition-all ${selectedId === version.id ? 'border-neon-blue bg-neon-blue/10' : 'border-white/10 bg-white/5 hover:bg-white/10'}`}
+              >
+                <div className="flex justify-between items-center">
+                  <span className="font-bold text-white text-sm">v{version.version}</span>
+                  {i === 0 && <span className="text-[10px] uppercase font-bold text-emerald-400">Live</span>}
+                </div>
+                <p className="text-xs text-gray-400 mt-1">{version.author}</p>
+                <p className="text-[10px] text-gray-600">{new Date(version.createdAt).toLocaleString()}</p>
+                {version.note && <p className="text-[10px] text-neon-purple mt-1">{version.note}</p>}
+              </button>
+            ))}
+          </div>
+
+          <div className="md:col-span-2 bg-white/5 border border-white/10 rounded-xl p-4 space-y-4">
+            {selected && (
+              <>
+                <div className="flex flex-wrap justify-between items-center gap-3">
+                  <div className="flex gap-2">
+                    {(['previous', 'current'] as const).map(option => (
+                      <button
+                        key={option}
+                        onClick={() => setCompareTo(option)}
+                        className={`px-3 py-1.5 text-xs rounded-lg border ${compareTo === option ? 'border-neon-blue text-white bg-neon-blue/10' : 'border-white/10 text-gray-400 hover:bg-white/5'}`}
+                      >
+                        {option === 'previous' ? `Changes in v${selected.version}` : `v${selected.version} → current`}
+                      </button>
+                    ))}
+                  </div>
+                  {selectedIndex > 0 && (
+                    <button
+                      onClick={handleRestore}
+                      disabled={isRestoring}
+                      className="px-4 py-1.5 text-xs font-bold bg-neon-purple text-white rounded hover:bg-white hover:text-black transition-all disabled:opacity-50"
+                    >
+                      {isRestoring ? 'Restoring...' : `Roll back to v${selected.version}`}
+                    </button>
+                  )}
+                </div>
+                <ChangeList changes={selectedChanges} />
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConfigHistory;
@@ -0,0 +1,221 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Lead, Persona, PipelineStage, Session } from '../types';
+import { db } from '../services/db';
+import { AnalyticsRange, RankedItem, computeAnalytics, dayKey, formatDuration, lastDaysRange, rangeFromDays } from '../services/analytics';
+
+interface ConversationAnalyticsProps {
+  leads: Lead[];
+  pipelineStages: PipelineStage[];
+  personas: Persona[];
+  agentId?: string; // reloads the sessions when the admin switches agents
+}
+
+type RangePreset = '7' | '30' | '90' | 'custom';
+
+const PRESETS: [RangePreset, string][] = [['7', '7 Days'], ['30', '30 Days'], ['90', '90 Days'], ['custom', 'Custom']];
+
+const SPEAKERS = [
+  { role: 'user' as const, label: 'Visitor', className: 'bg-neon-blue' },
+  { role: 'model' as const, label: 'AI Agent', className: 'bg-neon-purple' },
+  { role: 'operator' as const, label: 'Human', className: 'bg-emerald-500' }
+];
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+const shortDay = (day: string) =>
+  new Date(`${day}T00:00:00`).toLocaleDateString([], { day: 'numeric', month: 'short' });
+
+const Card: React.FC<{ title: string; hint?: string; className?: string; children: React.ReactNode }> = ({ title, hint, className = '', children }) => (
+  <div className={`p-6 rounded-xl glass-panel border border-white/5 ${className}`}>
+    <div className="flex justify-between items-center gap-4 mb-4">
+      <h3 className="text-gray-400 text-xs uppercase tracking-widest">{title}</h3>
+      {hint && <span className="text-[10px] text-gray-500 text-right">{hint}</span>}
+    </div>
+    {children}
+  </div>
+);
+
+const BarList: React.FC<{ items: RankedItem[]; barClassName: string; empty: string }> = ({ items, barClassName, empty }) => {
+  if (items.length === 0) return <p className="text-sm text-gray-500">{empty}</p>;
+  const max = items[0].count;
+  return (
+    <div className="space-y-2">
+      {items.map(item => (
+        <div key={item.label}>
+          <div className="flex justify-between text-xs mb-1 gap-2">
+            <span className="text-gray-300 truncate">{item.label}</span>
+            <span className="text-gray-500 font-mono">{item.count}</span>
+          </div>
+          <div className="h-1.5 rounded-full bg-white/5 overflow-hidden">
+            <div className={`h-full rounded-full ${barClassName}`} style={{ width: `${(item.count / max) * 100}%` }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const ConversationAnalytics: React.FC<ConversationAnalyticsProps> = ({ leads, pipelineStages, personas, agentId }) => {
+  const [preset, setPreset] = useState<RangePreset>('30');
+  const [customFrom, setCustomFrom] = useState(() => dayKey(lastDaysRange(30).from));
+  const [customTo, setCustomTo] = useState(() => dayKey(new Date()));
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const range: AnalyticsRange = useMemo(() => {
+    if (preset !== 'custom') return lastDaysRange(Number(preset));
+    return customFrom <= customTo ? rangeFromDays(customFrom, customTo) : rangeFromDays(customTo, customFrom);
+  }, [preset, customFrom, customTo]);
+
+  const since = range.from.toISOString();
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    db.getAgentSessions(since)
+      .then(loaded => { if (!cancelled) setSessions(loaded); })
+      .catch(e => console.warn('Failed to load sessions for analytics:', e))
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [since, agentId]);
+
+  const analytics = useMemo(
+    () => computeAnalytics(sessions, leads, pipelineStages, personas, range),
+    [sessions, leads, pipelineStages, personas, range]
+  );
+
+  const maxPerDay = Math.max(1, ...analytics.sessionsPerDay.map(d => d.count));
+  const funnelTop = Math.max(1, analytics.funnel[0]?.reached || 0);
+  const labelEvery = Math.ceil(analytics.sessionsPerDay.length / 7);
+
+  return (
+    <div className="col-span-1 md:col-span-3 space-y-6">
+      <div className="flex flex-col md:flex-row justify-between items-center gap-4">
+        <h3 className="text-lg font-bold text-white">Conversation Analytics {isLoading && <span className="text-xs font-normal text-gray-500 ml-2">Loading...</span>}</h3>
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="inline-flex rounded-lg border border-white/10 bg-black/20 p-1">
+            {PRESETS.map(([id, label]) => (
+              <button
+                key={id}
+                onClick={() => setPreset(id)}
+                className={`px-3 py-1 text-xs font-semibold rounded-md transition-colors ${preset === id ? 'bg-neon-blue text-black' : 'text-gray-400 hover:text-white'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {preset === 'custom' && (
+            <div className="flex items-center gap-2 text-xs text-gray-400">
+              <input type="date" value={customFrom} onChange={(e) => e.target.value && setCustomFrom(e.target.value)} className="bg-black/20 border border-white/10 rounded-lg px-2 py-1 text-white focus:border-neon-blue focus:outline-none" />
+              <span>to</span>
+              <input type="date" value={customTo} onChange={(e) => e.target.value && setCustomTo(e.target.value)} className="bg-black/20 border border-white/10 rounded-lg px-2 py-1 text-white focus:border-neon-blue focus:outline-none" />
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card title="Conversations">
+          <div className="text-4xl font-bold text-white">{analytics.conversations}</div>
+          <p className="text-xs text-gray-500 mt-2">{analytics.summarized} with an AI summary</p>
+        </Card>
+        <Card title="Avg. Conversation Length">
+          <div className="text-4xl font-bold text-neon-blue">{analytics.avgDurationMs !== null ? formatDuration(analytics.avgDurationMs) : '—'}</div>
+          <p className="text-xs text-gray-500 mt-2">First to last message, calls and chats</p>
+        </Card>
+        <Card title="Talk-Time Ratio" hint="Share of words spoken">
+          {analytics.talkShare ? (
+            <>
+              <div className="flex h-3 rounded-full overflow-hidden bg-white/5">
+                {SPEAKERS.map(s => (
+                  <div key={s.role} className={s.className} style={{ width: percent(analytics.talkShare![s.role]) }} title={`${s.label}: ${percent(analytics.talkShare![s.role])}`} />
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 mt-3">
+                {SPEAKERS.filter(s => s.role !== 'operator' || analytics.talkShare![s.role] > 0).map(s => (
+                  <span key={s.role} className="flex items-center gap-1.5 text-xs text-gray-300">
+                    <span className={`w-2 h-2 rounded-full ${s.className}`} />
+                    {s.label} <span className="font-mono text-gray-500">{percent(analytics.talkShare![s.role])}</span>
+                  </span>
+                ))}
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-gray-500">No conversations in this period.</p>
+          )}
+        </Card>
+
+        <Card title="Conversations per Day" className="md:col-span-3">
+          <div className="flex items-end gap-1 h-32">
+            {analytics.sessionsPerDay.map(d => (
+              <div
+                key={d.day}
+                className="flex-1 bg-neon-blue/60 hover:bg-neon-blue rounded-t transition-colors min-h-[2px]"
+                style={{ height: `${(d.count / maxPerDay) * 100}%` }}
+                title={`${shortDay(d.day)}: ${d.count}`}
+              />
+            ))}
+          </div>
+          <div className="flex gap-1 mt-2">
+            {analytics.sessionsPerDay.map((d, i) => (
+              <span key={d.day} className="flex-1 text-[9px] text-gray-500 text-center whitespace-nowrap overflow-visible">
+                {i % labelEvery === 0 ? shortDay(d.day) : ''}
+              </span>
+            ))}
+          </div>
+        </Card>
+
+        <Card title="Funnel Drop-off" hint="Leads created in this period, by furthest stage" className="md:col-span-2">
+          {analytics.funnel.length === 0 || analytics.funnel[0].reached === 0 ? (
+            <p className="text-sm text-gray-500">No new leads in this period.</p>
+          ) : (
+            <div className="space-y-3">
+              {analytics.funnel.map((step, i) => (
+                <div key={step.name} className="flex items-center gap-3">
+                  <span className="w-24 text-xs text-gray-300 truncate shrink-0">{step.name}</span>
+                  <div className="flex-1 h-6 rounded bg-white/5 overflow-hidden">
+                    <div className="h-full rounded flex items-center px-2" style={{ width: `${Math.max((step.reached / funnelTop) * 100, 2)}%`, backgroundColor: `${step.color}66` }}>
+                      <span className="text-[11px] font-mono text-white">{step.reached}</span>
+                    </div>
+                  </div>
+                  <span className="w-20 text-right text-[11px] font-mono shrink-0 text-red-400">
+                    {i < analytics.funnel.length - 1 && step.reached > 0 ? `-${percent(step.dropOff)}` : ''}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+
+        <Card title="Conversion by Persona" hint="Won / leads">
+          {analytics.personaConversion.length === 0 ? (
+            <p className="text-sm text-gray-500">No new leads in this period.</p>
+          ) : (
+            <div className="space-y-3">
+              {analytics.personaConversion.map(p => (
+                <div key={p.personaId || 'none'}>
+                  <div className="flex justify-between text-xs mb-1 gap-2">
+                    <span className={`truncate ${p.personaId ? 'text-gray-300' : 'text-gray-500 italic'}`}>{p.name}</span>
+                    <span className="text-gray-500 font-mono shrink-0">{p.won}/{p.leads} · {percent(p.rate)}</span>
+                  </div>
+                  <div className="h-1.5 rounded-full bg-white/5 overflow-hidden">
+                    <div className="h-full rounded-full bg-emerald-500" style={{ width: percent(p.rate) }} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+
+        <Card title="Top Objections" hint="From AI summaries" className="md:col-span-1">
+          <BarList items={analytics.topObjections} barClassName="bg-red-500/70" empty="No objections recorded in summarized conversations." />
+        </Card>
+
+        <Card title="Top Requested Products" hint="Leads asking per product" className="md:col-span-2">
+          <BarList items={analytics.topProducts} barClassName="bg-neon-purple/70" empty="No product interest recorded in this period." />
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ConversationAnalytics;
@@ -0,0 +1,125 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Lead, PipelineStage } from '../types';
+import { DuplicateMatch, findDuplicates } from '../services/leadDedup';
+import { stageLabel } from '../services/pipeline';
+
+interface DuplicateReviewProps {
+  leads: Lead[];
+  stages: PipelineStage[];
+  onMerge: (survivor: Lead, duplicate: Lead) => Promise<void>;
+}
+
+// Pairs an admin marked as "not a duplicate" (see duplicatePairKey)
+const DISMISSED_DUPLICATES_KEY = 'nova_dismissed_duplicates';
+
+const readDismissed = (): Set<string> => {
+  try {
+    return new Set(JSON.parse(localStorage.getItem(DISMISSED_DUPLICATES_KEY) || '[]'));
+  } catch {
+    return new Set();
+  }
+};
+
+const LeadCard = ({ lead, stages, isSurvivor, onSelect }: { lead: Lead, stages: PipelineStage[], isSurvivor: boolean, onSelect: () => void }) => (
+  <button
+    onClick={onSelect}
+    className={`flex-1 text-left p-3 rounded-lg border transition-all ${isSurvivor ? 'border-neon-blue bg-neon-blue/10' : 'border-white/10 bg-black/20 hover:bg-white/5'}`}
+  >
+    <div className="flex justify-between items-center mb-1 gap-2">
+      <span className="font-semibold text-white text-sm truncate">{lead.name}</span>
+      <span className={`text-[9px] uppercase font-bold shrink-0 ${isSurvivor ? 'text-neon-blue' : 'text-gray-600'}`}>{isSurvivor ? 'Keep' : 'Merge away'}</span>
+    </div>
+    <p className="text-xs text-gray-400">{lead.phone || 'No phone'} · {lead.company}</p>
+    <p className="text-xs text-gray-500">{stageLabel(stages, lead.status)} · {lead.sentiment} · {lead.interestedIn}</p>
+    {lead.notes && <p className="text-[11px] text-gray-500 mt-1 line-clamp-2">{lead.notes}</p>}
+  </button>
+);
+
+const DuplicateReview: React.FC<DuplicateReviewProps> = ({ leads, stages, onMerge }) => {
+  const [dismissed, setDismissed] = useState<Set<string>>(readDismissed);
+  const [isOpen, setIsOpen] = useState(false);
+  // Survivor picked by the admin per pair; defaults to the suggestion
+  const [survivorIds, setSurvivorIds] = useState<Record<string, string>>({});
+  const [mergingKey, setMergingKey] = useState<string | null>(null);
+
+  const matches = useMemo(() => findDuplicates(leads, stages, dismissed), [leads, stages, dismissed]);
+
+  useEffect(() => {
+    localStorage.setItem(DISMISSED_DUPLICATES_KEY, JSON.stringify(Array.from(dismissed)));
+  }, [dismissed]);
+
+  const handleDismiss = (match: DuplicateMatch) => {
+    setDismissed(prev => new Set(prev).add(match.key));
+  };
+
+  const handleMerge = async (match: DuplicateMatch) => {
+    const survivorId = survivorIds[match.key] || match.survivor.id;
+    const [survivor, duplicate] = survivorId === match.survivor.id ? [match.survivor, match.duplicate] : [match.duplicate, match.survivor];
+    if (!window.confirm(`Merge "${duplicate.name}" into "${survivor.name}"? Its conversations and appointments move to "${survivor.name}" and it is deleted.`)) return;
+    setMergingKey(match.key);
+    try {
+      await onMerge(survivor, duplicate);
+    } catch (e) {
+      console.error("Merge failed", e);
+      alert("Failed to merge leads. Please try again.");
+    } finally {
+      setMergingKey(null);
+    }
+  };
+
+  if (matches.length === 0) return null;
+
+  return (
+    <div className="bg-yellow-500/5 border border-yellow-500/20 rounded-xl">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex justify-between items-center p-4 text-left"
+      >
+        <span className="text-sm font-semibold text-yellow-400">
+          {matches.length} possible duplicate{matches.length === 1 ? '' : 's'} to review
+        </span>
+        <span className="text-xs text-gray-400">{isOpen ? 'Hide' : 'Review'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-3">
+          {matches.map(match => {
+            const survivorId = survivorIds[match.key] || match.survivor.id;
+            const select = (id: string) => setSurvivorIds(prev => ({ ...prev, [match.key]: id }));
+            return (
+              <div key={match.key} className="p-3 rounded-xl bg-white/5 border border-white/10 space-y-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-[10px] font-mono text-gray-500">{Math.round(match.score * 100)}% match</span>
+                  {match.reasons.map(reason => (
+                    <span key={reason} className="text-[10px] px-2 py-0.5 rounded-full bg-yellow-500/10 text-yellow-300 border border-yellow-500/20">{reason}</span>
+                  ))}
+                </div>
+                <div className="flex flex-col md:flex-row gap-3">
+                  <LeadCard lead={match.survivor} stages={stages} isSurvivor={survivorId === match.survivor.id} onSelect={() => select(match.survivor.id)} />
+                  <LeadCard lead={match.duplicate} stages={stages} isSurvivor={survivorId === match.duplicate.id} onSelect={() => select(match.duplicate.id)} />
+                </div>
+                <div className="flex justify-end gap-2">
+                  <button
+                    onClick={() => handleDismiss(match)}
+                    className="px-3 py-1.5 text-xs font-semibold border border-white/10 rounded-lg text-gray-300 hover:bg-white/10"
+                  >
+                    Not a duplicate
+                  </button>
+                  <button
+                    onClick={() => handleMerge(match)}
+                    disabled={mergingKey !== null}
+                    className="px-3 py-1.5 text-xs font-bold rounded-lg bg-neon-blue text-black hover:bg-white transition-colors disabled:opacity-50"
+                  >
+                    {mergingKey === match.key ? 'Merging...' : 'Merge'}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DuplicateReview;
@@ -0,0 +1,95 @@
+import React, { useState, useMemo } from 'react';
+import { Lead, UnansweredQuestion } from '../types';
+import { QuestionGroup, groupOpenQuestions } from '../services/knowledgeGaps';
+import { formatRelativeTime } from '../services/leadTiming';
+
+interface FaqInboxProps {
+  questions: UnansweredQuestion[];
+  leads: Lead[];
+  onPromote: (group: QuestionGroup) => Promise<void>;
+  onDismiss: (group: QuestionGroup) => Promise<void>;
+  onViewLead: (lead: Lead) => void;
+}
+
+// Leads who asked, listed per question before collapsing into "+N more"
+const MAX_SOURCES = 4;
+
+const FaqInbox: React.FC<FaqInboxProps> = ({ questions, leads, onPromote, onDismiss, onViewLead }) => {
+  const [busy, setBusy] = useState<{ key: string; promoting: boolean } | null>(null);
+  const groups = useMemo(() => groupOpenQuestions(questions), [questions]);
+  const leadById = useMemo(() => new Map(leads.map(l => [l.id, l])), [leads]);
+
+  const run = async (group: QuestionGroup, action: (group: QuestionGroup) => Promise<void>) => {
+    setBusy({ key: group.key, promoting: action === onPromote });
+    try {
+      await action(group);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="glass-panel rounded-xl border border-white/10 overflow-hidden mb-8">
+      <div className="p-4 border-b border-white/10 flex justify-between items-center gap-4">
+        <div>
+          <h3 className="text-sm font-bold text-white">Unanswered Questions</h3>
+          <p className="text-xs text-gray-500 mt-0.5">Questions the agent could not answer. Promote them to draft an FAQ, then review the answer and save.</p>
+        </div>
+        <span className="text-xs text-gray-500 font-mono">{groups.length} open</span>
+      </div>
+      {groups.length === 0 ? (
+        <p className="p-6 text-sm text-gray-500 text-center">No knowledge gaps reported. The agent adds questions here when the FAQ does not cover them.</p>
+      ) : (
+        <div className="divide-y divide-white/5">
+          {groups.map(group => {
+            const isBusy = busy?.key === group.key;
+            const sources = group.questions.filter((q, i, all) => all.findIndex(o => o.leadId === q.leadId) === i);
+            const example = group.questions.find(q => q.userWords)?.userWords;
+            return (
+              <div key={group.key} className="p-4 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm text-white font-medium">{group.question}</p>
+                  {example && <p className="text-xs text-gray-500 italic mt-0.5 truncate">"{example}"</p>}
+                  <div className="flex flex-wrap items-center gap-2 mt-1.5 text-[11px] text-gray-500">
+                    <span className="px-1.5 py-0.5 rounded bg-amber-500/10 text-amber-400 border border-amber-500/20 font-mono">
+                      {group.sessionCount}× asked
+                    </span>
+                    <span>· last {formatRelativeTime(new Date(group.lastAskedAt))}</span>
+                    <span>·</span>
+                    {sources.slice(0, MAX_SOURCES).map(q => {
+                      const lead = leadById.get(q.leadId);
+                      return lead ? (
+                        <button key={q.id} onClick={() => onViewLead(lead)} className="text-neon-blue hover:underline">{lead.name}</button>
+                      ) : (
+                        <span key={q.id}>Deleted lead</span>
+                      );
+                    })}
+                    {sources.length > MAX_SOURCES && <span>+{sources.length - MAX_SOURCES} more</span>}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <button
+                    onClick={() => run(group, onDismiss)}
+                    disabled={isBusy}
+                    className="px-3 py-1.5 text-xs rounded-lg hover:bg-red-500/10 text-gray-500 hover:text-red-400 disabled:opacity-40"
+                  >
+                    Dismiss
+                  </button>
+                  <button
+                    onClick={() => run(group, onPromote)}
+                    disabled={isBusy}
+                    className="px-3 py-1.5 text-xs font-semibold rounded-lg bg-neon-blue/10 hover:bg-neon-blue/20 border border-neon-blue/30 text-neon-blue disabled:opacity-40"
+                  >
+                    {isBusy && busy?.promoting ? 'Drafting...' : 'Promote to FAQ'}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FaqInbox;
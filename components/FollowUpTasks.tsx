@@ -0,0 +1,172 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { FollowUpTask, Lead, PipelineStage } from '../types';
+import { stageLabel } from '../services/pipeline';
+import { TaskDueState, dueState, formatDueDate } from '../services/followUps';
+import { OPERATOR_NAME_KEY } from './LiveQueue';
+
+interface FollowUpTasksProps {
+  tasks: FollowUpTask[];
+  leads: Lead[];
+  pipelineStages: PipelineStage[];
+  onComplete: (task: FollowUpTask, operatorName: string) => Promise<void>;
+  onUpdate: (task: FollowUpTask, updates: Partial<FollowUpTask>) => Promise<void>;
+  onViewLead: (lead: Lead) => void;
+}
+
+type TaskFilter = 'mine' | 'all' | 'closed';
+
+const SECTIONS: { state: TaskDueState; label: string; className: string }[] = [
+  { state: 'overdue', label: 'Overdue', className: 'text-red-400' },
+  { state: 'today', label: 'Due Today', className: 'text-amber-400' },
+  { state: 'upcoming', label: 'Upcoming', className: 'text-gray-300' },
+  { state: 'closed', label: 'Done & Cancelled', className: 'text-gray-500' }
+];
+
+const SOURCE_LABELS: Record<FollowUpTask['source'], string> = {
+  rule: 'Stage rule',
+  agent: 'AI Agent',
+  admin: 'Admin'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FollowUpTasks: React.FC<FollowUpTasksProps> = ({ tasks, leads, pipelineStages, onComplete, onUpdate, onViewLead }) => {
+  const [operatorName, setOperatorName] = useState(() => localStorage.getItem(OPERATOR_NAME_KEY) || '');
+  const [filter, setFilter] = useState<TaskFilter>('mine');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    localStorage.setItem(OPERATOR_NAME_KEY, operatorName);
+  }, [operatorName]);
+
+  const me = operatorName.trim();
+  const leadById = useMemo(() => new Map(leads.map(l => [l.id, l])), [leads]);
+
+  // "Mine" is what I took plus everything nobody has taken yet
+  const visible = tasks.filter(t =>
+    filter === 'closed' ? t.status !== 'Open'
+      : t.status === 'Open' && (filter === 'all' || !t.assignee || t.assignee === me));
+
+  const counts = useMemo(() => {
+    const open = tasks.filter(t => t.status === 'Open' && (!t.assignee || t.assignee === me));
+    return { overdue: open.filter(t => dueState(t) === 'overdue').length, today: open.filter(t => dueState(t) === 'today').length };
+  }, [tasks, me]);
+
+  const run = async (task: FollowUpTask, action: () => Promise<void>) => {
+    setBusyId(task.id);
+    try {
+      await action();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const snooze = (task: FollowUpTask, days: number) =>
+    run(task, () => onUpdate(task, { dueAt: new Date(Math.max(Date.now(), new Date(task.dueAt).getTime()) + days * DAY_MS).toISOString() }));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row justify-between items-center gap-4 bg-white/5 p-4 rounded-xl border border-white/10">
+        <div className="inline-flex rounded-lg border border-white/10 bg-black/20 p-1">
+          {([['mine', 'My Tasks'], ['all', 'All Open'], ['closed', 'Closed']] as [TaskFilter, string][]).map(([id, label]) => (
+            <button
+              key={id}
+              onClick={() => setFilter(id)}
+              className={`px-3 py-1 text-xs font-semibold rounded-md transition-colors ${filter === id ? 'bg-neon-blue text-black' : 'text-gray-400 hover:text-white'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-4">
+          <span className="text-xs text-red-400 font-mono">{counts.overdue} overdue</span>
+          <span className="text-xs text-amber-400 font-mono">{counts.today} due today</span>
+          <input
+            type="text"
+            value={operatorName}
+            onChange={(e) => setOperatorName(e.target.value)}
+            placeholder="Your name"
+            className="bg-black/20 border border-white/10 rounded-lg px-3 py-1.5 text-xs text-white focus:border-neon-blue focus:outline-none w-36"
+          />
+        </div>
+      </div>
+
+      {visible.length === 0 && (
+        <div className="text-center text-gray-500 py-12 glass-panel rounded-xl border border-white/10">
+          {filter === 'closed' ? 'No completed tasks yet.' : 'Nothing to follow up on. Tasks appear here from stage rules and when the agent schedules a follow-up.'}
+        </div>
+      )}
+
+      {SECTIONS.map(section => {
+        const sectionTasks = visible.filter(t => dueState(t) === section.state);
+        if (sectionTasks.length === 0) return null;
+        return (
+          <div key={section.state} className="space-y-2">
+            <h3 className={`text-xs uppercase tracking-widest font-bold ${section.className}`}>{section.label} ({sectionTasks.length})</h3>
+            {sectionTasks.map(task => {
+              const lead = leadById.get(task.leadId);
+              const isBusy = busyId === task.id;
+              return (
+                <div key={task.id} className={`p-4 rounded-xl glass-panel border flex flex-col md:flex-row md:items-center justify-between gap-3 ${section.state === 'overdue' ? 'border-red-500/30' : 'border-white/10'}`}>
+                  <div className="min-w-0">
+                    <p className={`text-sm font-medium ${task.status === 'Open' ? 'text-white' : 'text-gray-500 line-through'}`}>{task.title}</p>
+                    <div className="flex flex-wrap items-center gap-2 mt-1 text-[11px] text-gray-500">
+                      {lead ? (
+                        <button onClick={() => onViewLead(lead)} className="text-neon-blue hover:underline">
+                          {lead.name}{lead.phone ? ` · ${lead.phone}` : ''}
+                        </button>
+                      ) : (
+                        <span>Deleted lead</span>
+                      )}
+                      {lead && <span>· {stageLabel(pipelineStages, lead.status)}</span>}
+                      <span className={section.className}>· {task.status === 'Open' ? 'Due' : task.status} {formatDueDate(task.status === 'Done' && task.completedAt ? task.completedAt : task.dueAt)}</span>
+                      <span>· {SOURCE_LABELS[task.source]}</span>
+                      {task.assignee && <span>· Assigned to {task.assignee}</span>}
+                    </div>
+                  </div>
+                  {task.status === 'Open' && (
+                    <div className="flex items-center gap-2 shrink-0">
+                      {!task.assignee && (
+                        <button
+                          onClick={() => run(task, () => onUpdate(task, { assignee: me || 'Sales Team' }))}
+                          disabled={isBusy}
+                          className="px-3 py-1.5 text-xs rounded-lg bg-black/20 hover:bg-white/10 border border-white/10 text-gray-300 disabled:opacity-40"
+                        >
+                          Take
+                        </button>
+                      )}
+                      <button
+                        onClick={() => snooze(task, 1)}
+                        disabled={isBusy}
+                        className="px-3 py-1.5 text-xs rounded-lg bg-black/20 hover:bg-white/10 border border-white/10 text-gray-300 disabled:opacity-40"
+                        title="Push back by one day"
+                      >
+                        +1 Day
+                      </button>
+                      <button
+                        onClick={() => run(task, () => onUpdate(task, { status: 'Cancelled' }))}
+                        disabled={isBusy}
+                        className="px-3 py-1.5 text-xs rounded-lg hover:bg-red-500/10 text-gray-500 hover:text-red-400 disabled:opacity-40"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => run(task, () => onComplete(task, me))}
+                        disabled={isBusy}
+                        className="px-3 py-1.5 text-xs font-semibold rounded-lg bg-emerald-500/20 hover:bg-emerald-500/30 border border-emerald-500/30 text-emerald-400 disabled:opacity-40"
+                      >
+                        Done
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default FollowUpTasks;
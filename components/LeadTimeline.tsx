@@ -0,0 +1,84 @@
+import React from 'react';
+import { ActivityActor, Lead, LeadActivity, LeadActivityType } from '../types';
+import { AUDITED_FIELDS } from '../services/activity';
+
+interface LeadTimelineProps {
+  activities: LeadActivity[]; // newest first
+}
+
+const ACTOR_STYLES: Record<ActivityActor['kind'], string> = {
+  agent: 'text-neon-blue border-neon-blue/30 bg-neon-blue/10',
+  admin: 'text-neon-purple border-neon-purple/30 bg-neon-purple/10',
+  visitor: 'text-emerald-400 border-emerald-500/30 bg-emerald-500/10',
+  system: 'text-gray-400 border-white/10 bg-white/5'
+};
+
+const ACTOR_LABELS: Record<ActivityActor['kind'], string> = {
+  agent: 'AI Agent',
+  admin: 'Admin',
+  visitor: 'Visitor',
+  system: 'System'
+};
+
+const TYPE_DOTS: Record<LeadActivityType, string> = {
+  created: 'bg-emerald-400',
+  status_changed: 'bg-neon-blue',
+  field_updated: 'bg-gray-400',
+  session_started: 'bg-emerald-400',
+  visitor_recognised: 'bg-emerald-400',
+  qualified: 'bg-yellow-400',
+  escalated: 'bg-neon-purple',
+  escalation_taken: 'bg-neon-purple',
+  escalation_resolved: 'bg-neon-purple',
+  appointment_booked: 'bg-neon-blue',
+  appointment_cancelled: 'bg-red-400',
+  follow_up_scheduled: 'bg-amber-400',
+  follow_up_completed: 'bg-emerald-400',
+  objection_raised: 'bg-red-400',
+  question_unanswered: 'bg-amber-400',
+  merged: 'bg-yellow-400'
+};
+
+const LeadTimeline: React.FC<LeadTimelineProps> = ({ activities }) => {
+  if (activities.length === 0) {
+    return (
+      <div className="text-center text-gray-500 py-12">
+        No activity recorded for this lead yet.
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative border-l border-white/10 ml-2 space-y-5">
+      {activities.map(activity => (
+        <li key={activity.id} className="ml-5">
+          <span className={`absolute -left-[5px] mt-1.5 w-2.5 h-2.5 rounded-full ${TYPE_DOTS[activity.type] || 'bg-gray-400'}`}></span>
+          <div className="flex flex-wrap items-center gap-2 mb-1">
+            <span
+              className={`text-[10px] font-bold px-1.5 py-0.5 rounded border ${ACTOR_STYLES[activity.actor.kind]}`}
+              title={ACTOR_LABELS[activity.actor.kind]}
+            >
+              {activity.actor.name}
+            </span>
+            <span className="text-[10px] text-gray-500">{new Date(activity.createdAt).toLocaleString()}</span>
+          </div>
+          <p className="text-sm text-gray-200">{activity.summary}</p>
+          {activity.changes && activity.changes.length > 0 && (
+            <div className="mt-2 space-y-1">
+              {activity.changes.map(change => (
+                <div key={change.field} className="text-xs text-gray-400 bg-black/20 rounded px-2 py-1">
+                  <span className="text-gray-500">{AUDITED_FIELDS[change.field as keyof Lead] || change.field}: </span>
+                  <span className="line-through text-gray-600 whitespace-pre-wrap">{change.from || 'empty'}</span>
+                  <span className="mx-1">→</span>
+                  <span className="text-gray-200 whitespace-pre-wrap">{change.to || 'empty'}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default LeadTimeline;
@@ -0,0 +1,161 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Lead, Session } from '../types';
+
+interface LiveQueueProps {
+  sessions: Session[];
+  leads: Lead[];
+  onTakeOver: (session: Session, operatorName: string) => Promise<void>;
+  onSendMessage: (session: Session, text: string) => Promise<void>;
+  onResolve: (session: Session) => Promise<void>;
+}
+
+// Also used as the author name on config versions
+export const OPERATOR_NAME_KEY = 'nova_operator_name';
+
+const LiveQueue: React.FC<LiveQueueProps> = ({ sessions, leads, onTakeOver, onSendMessage, onResolve }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [operatorName, setOperatorName] = useState(() => localStorage.getItem(OPERATOR_NAME_KEY) || '');
+  const [reply, setReply] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const transcriptEndRef = useRef<HTMLDivElement>(null);
+
+  const selected = sessions.find(s => s.id === selectedId) || null;
+  const leadName = (session: Session) => leads.find(l => l.id === session.leadId)?.name || 'Unknown Visitor';
+
+  useEffect(() => {
+    localStorage.setItem(OPERATOR_NAME_KEY, operatorName);
+  }, [operatorName]);
+
+  useEffect(() => {
+    transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [selected?.transcript.length]);
+
+  const handleSend = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!selected || !reply.trim() || isSending) return;
+    setIsSending(true);
+    try {
+      await onSendMessage(selected, reply.trim());
+      setReply('');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (sessions.length === 0) {
+    return (
+      <div className="text-center text-gray-500 py-16 bg-white/5 rounded-xl border border-white/10">
+        No visitors are waiting for a human right now.
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      {/* Queue */}
+      <div className="space-y-3">
+        {sessions.map(session => (
+          <button
+            key={session.id}
+            onClick={() => setSelectedId(session.id)}
+            className={`w-full text-left p-4 rounded-xl border transition-all ${selectedId === session.id ? 'border-neon-purple bg-neon-purple/10' : 'border-white/10 bg-white/5 hover:bg-white/10'}`}
+          >
+            <div className="flex justify-between items-center mb-1">
+              <span className="font-semibold text-white text-sm">{leadName(session)}</span>
+              <span className={`text-[10px] uppercase font-bold ${session.escalation?.status === 'Waiting' ? 'text-yellow-400 animate-pulse' : 'text-emerald-400'}`}>
+                {session.escalation?.status}
+              </span>
+            </div>
+            <p className="text-xs text-gray-400 line-clamp-2">{session.escalation?.reason}</p>
+            <p className="text-[10px] text-gray-600 mt-2">
+              {session.escalation && new Date(session.escalation.requestedAt).toLocaleTimeString()}
+              {session.escalation?.operatorName && ` · ${session.escalation.operatorName}`}
+            </p>
+          </button>
+        ))}
+      </div>
+
+      {/* Conversation */}
+      <div className="md:col-span-2 flex flex-col h-[600px] bg-black/40 border border-white/10 rounded-xl overflow-hidden">
+        {!selected ? (
+          <div className="flex-1 flex items-center justify-center text-gray-500 text-sm">
+            Select a conversation to take over.
+          </div>
+        ) : (
+          <>
+            <div className="px-4 py-3 border-b border-white/10 bg-white/5 flex justify-between items-center gap-4">
+              <div>
+                <h3 className="font-bold text-white">{leadName(selected)}</h3>
+                <p className="text-xs text-gray-400">{selected.escalation?.reason}</p>
+              </div>
+              <button
+                onClick={() => onResolve(selected).then(() => setSelectedId(null))}
+                className="px-3 py-1.5 text-xs font-semibold border border-white/10 rounded-lg text-gray-300 hover:bg-white/10 shrink-0"
+              >
+                Resolve & Return to AI
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-3 custom-scrollbar">
+              {selected.transcript.map((msg, i) => (
+                <div key={msg.id || i} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                  <div className={`max-w-[85%] rounded-lg px-3 py-2 text-sm ${
+                    msg.role === 'user'
+                      ? 'bg-neon-blue/10 text-neon-blue border border-neon-blue/20'
+                      : msg.role === 'operator'
+                        ? 'bg-neon-purple/10 text-gray-100 border border-neon-purple/30'
+                        : 'bg-white/10 text-gray-300'}`}
+                  >
+                    {msg.role !== 'user' && (
+                      <p className="text-[10px] uppercase font-bold opacity-60 mb-1">{msg.role === 'operator' ? 'Operator' : 'AI Agent'}</p>
+                    )}
+                    <p>{msg.text}</p>
+                    <p className="text-[10px] opacity-50 mt-1 text-right">{new Date(msg.timestamp).toLocaleTimeString()}</p>
+                  </div>
+                </div>
+              ))}
+              <div ref={transcriptEndRef} />
+            </div>
+
+            {selected.escalation?.status === 'Waiting' ? (
+              <div className="p-4 border-t border-white/10 bg-black/20 flex gap-3">
+                <input
+                  type="text"
+                  value={operatorName}
+                  onChange={(e) => setOperatorName(e.target.value)}
+                  placeholder="Your name (shown to the visitor)"
+                  className="flex-1 bg-black/40 border border-white/10 rounded-lg px-4 py-2 text-sm text-white focus:border-neon-purple focus:outline-none"
+                />
+                <button
+                  onClick={() => onTakeOver(selected, operatorName.trim() || 'Sales Team')}
+                  className="px-4 py-2 bg-neon-purple text-white font-bold text-sm rounded hover:bg-white hover:text-black transition-all"
+                >
+                  Take Over
+                </button>
+              </div>
+            ) : (
+              <form onSubmit={handleSend} className="p-4 border-t border-white/10 bg-black/20 flex gap-3">
+                <input
+                  type="text"
+                  value={reply}
+                  onChange={(e) => setReply(e.target.value)}
+                  placeholder="Reply to the visitor..."
+                  className="flex-1 bg-black/40 border border-white/10 rounded-lg px-4 py-2 text-sm text-white focus:border-neon-purple focus:outline-none"
+                />
+                <button
+                  type="submit"
+                  disabled={!reply.trim() || isSending}
+                  className="px-4 py-2 bg-neon-purple text-white font-bold text-sm rounded disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Send
+                </button>
+              </form>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LiveQueue;
@@ -0,0 +1,98 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Lead, ObjectionHandler, PipelineStage, Session } from '../types';
+import { db } from '../services/db';
+import { objectionEffectiveness } from '../services/analytics';
+
+interface ObjectionEffectivenessTableProps {
+  handlers: ObjectionHandler[];
+  leads: Lead[];
+  pipelineStages: PipelineStage[];
+  agentId?: string; // reloads the sessions when the admin switches agents
+  onAddHandler: (objection: string) => void; // turns an unscripted objection into a handler
+}
+
+const winRateClass = (rate: number) =>
+  rate >= 0.5 ? 'text-emerald-400' : rate >= 0.25 ? 'text-amber-400' : 'text-red-400';
+
+const ObjectionEffectivenessTable: React.FC<ObjectionEffectivenessTableProps> = ({ handlers, leads, pipelineStages, agentId, onAddHandler }) => {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    db.getAgentSessions()
+      .then(loaded => { if (!cancelled) setSessions(loaded); })
+      .catch(e => console.warn('Failed to load sessions for objection stats:', e))
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [agentId]);
+
+  const rows = useMemo(
+    () => objectionEffectiveness(sessions, leads, pipelineStages, handlers),
+    [sessions, leads, pipelineStages, handlers]
+  );
+  const reported = rows.reduce((sum, r) => sum + r.occurrences, 0);
+
+  return (
+    <div className="glass-panel rounded-xl border border-white/10 overflow-hidden mb-8">
+      <div className="p-4 border-b border-white/10 flex justify-between items-center gap-4">
+        <div>
+          <h3 className="text-sm font-bold text-white">Handler Effectiveness</h3>
+          <p className="text-xs text-gray-500 mt-0.5">Objections the agent reported in conversations, and how those leads went on.</p>
+        </div>
+        <span className="text-xs text-gray-500 font-mono">{isLoading ? 'Loading...' : `${reported} reported`}</span>
+      </div>
+      {rows.length === 0 ? (
+        <p className="p-6 text-sm text-gray-500 text-center">Add objections below. The agent reports them as they come up in conversations.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-black/20 text-[10px] uppercase tracking-wider text-gray-500">
+              <tr>
+                <th className="px-4 py-3">#</th>
+                <th className="px-4 py-3">Objection</th>
+                <th className="px-4 py-3 text-right">Raised</th>
+                <th className="px-4 py-3 text-right" title="Conversations in which the visitor kept writing after the objection">Kept Talking</th>
+                <th className="px-4 py-3 text-right">Won / Lost / Open</th>
+                <th className="px-4 py-3 text-right" title="Won out of decided leads">Win Rate</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {rows.map((row, i) => (
+                <tr key={row.handlerId || `other-${row.objection}`} className={row.occurrences === 0 ? 'opacity-50' : ''}>
+                  <td className="px-4 py-3 text-gray-500 font-mono text-xs">{i + 1}</td>
+                  <td className="px-4 py-3">
+                    <span className="text-gray-200">{row.objection}</span>
+                    {!row.handlerId && (
+                      <span className="ml-2 inline-flex items-center gap-2">
+                        <span className="text-[10px] px-1.5 py-0.5 rounded bg-amber-500/10 text-amber-400 border border-amber-500/20">No script</span>
+                        <button onClick={() => onAddHandler(row.objection)} className="text-[10px] text-neon-blue hover:underline">Add Answer</button>
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-right font-mono text-gray-300">{row.occurrences}</td>
+                  <td className="px-4 py-3 text-right font-mono text-gray-400">
+                    {row.conversations > 0 ? `${Math.round((row.continued / row.conversations) * 100)}%` : '—'}
+                  </td>
+                  <td className="px-4 py-3 text-right font-mono text-xs">
+                    <span className="text-emerald-400">{row.won}</span>
+                    <span className="text-gray-600"> / </span>
+                    <span className="text-red-400">{row.lost}</span>
+                    <span className="text-gray-600"> / </span>
+                    <span className="text-gray-400">{row.open}</span>
+                  </td>
+                  <td className={`px-4 py-3 text-right font-mono font-bold ${row.winRate !== null ? winRateClass(row.winRate) : 'text-gray-600'}`}>
+                    {row.winRate !== null ? `${Math.round(row.winRate * 100)}%` : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ObjectionEffectivenessTable;
@@ -0,0 +1,174 @@
+import React, { useState, useMemo } from 'react';
+import { Lead, PipelineStage, QualificationCriterion } from '../types';
+import { findStage, formatDealValue } from '../services/pipeline';
+import { lastContactAt, formatRelativeTime } from '../services/leadTiming';
+import { leadScore, scoreColor, describeQualification } from '../services/qualification';
+
+interface PipelineBoardProps {
+  leads: Lead[];
+  pipelineStages: PipelineStage[];
+  qualificationCriteria?: QualificationCriterion[];
+  onUpdateLead: (id: string, updates: Partial<Lead>) => void;
+  onViewHistory: (lead: Lead) => void;
+}
+
+interface BoardColumn {
+  id: string;
+  name: string;
+  color: string;
+  stage?: PipelineStage; // unset for the column of statuses whose stage was removed
+  leads: Lead[];
+  total: number;
+}
+
+// Collects leads whose status matches no stage, so they stay visible and can be dragged into one
+const UNKNOWN_COLUMN_ID = '__unknown__';
+
+const PipelineBoard: React.FC<PipelineBoardProps> = ({ leads, pipelineStages, qualificationCriteria = [], onUpdateLead, onViewHistory }) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  const columns = useMemo(() => {
+    const lower = searchTerm.toLowerCase();
+    const visible = searchTerm
+      ? leads.filter(l =>
+          l.name.toLowerCase().includes(lower) ||
+          l.company.toLowerCase().includes(lower) ||
+          (l.phone && l.phone.includes(lower)))
+      : leads;
+
+    const build = (id: string, name: string, color: string, columnLeads: Lead[], stage?: PipelineStage): BoardColumn => ({
+      id, name, color, stage, leads: columnLeads,
+      total: columnLeads.reduce((sum, l) => sum + (l.dealValue || 0), 0)
+    });
+
+    const result = pipelineStages.map(stage =>
+      build(stage.id, stage.name, stage.color, visible.filter(l => l.status === stage.id), stage));
+    const unknown = visible.filter(l => !findStage(pipelineStages, l.status));
+    if (unknown.length > 0) result.unshift(build(UNKNOWN_COLUMN_ID, 'No Stage', '#6b7280', unknown));
+    return result;
+  }, [leads, pipelineStages, searchTerm]);
+
+  const handleDrop = (column: BoardColumn, e: React.DragEvent) => {
+    e.preventDefault();
+    const leadId = e.dataTransfer.getData('text/plain');
+    setDraggingId(null);
+    setDropTargetId(null);
+    const lead = leads.find(l => l.id === leadId);
+    if (!lead || !column.stage || lead.status === column.stage.id) return;
+    onUpdateLead(lead.id, { status: column.stage.id });
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Toolbar */}
+      <div className="flex flex-col md:flex-row justify-between items-center gap-4 bg-white/5 p-4 rounded-xl border border-white/10">
+        <div className="relative w-full md:w-96">
+          <input
+            type="text"
+            placeholder="Search leads by name, phone..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full bg-black/20 border border-white/10 rounded-lg pl-10 pr-4 py-2 text-sm text-white focus:border-neon-blue focus:outline-none focus:bg-white/5 transition-all"
+          />
+          <svg className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
+        </div>
+        <div className="text-xs text-gray-400">Drag a card to another column to move the lead</div>
+      </div>
+
+      <div className="flex gap-4 overflow-x-auto pb-4">
+        {columns.map(column => (
+          <div
+            key={column.id}
+            onDragOver={(e) => {
+              if (!column.stage) return;
+              e.preventDefault();
+              e.dataTransfer.dropEffect = 'move';
+              if (dropTargetId !== column.id) setDropTargetId(column.id);
+            }}
+            onDragLeave={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTargetId(null);
+            }}
+            onDrop={(e) => handleDrop(column, e)}
+            className={`w-72 shrink-0 rounded-xl border glass-panel flex flex-col max-h-[70vh] transition-colors ${dropTargetId === column.id ? 'border-neon-blue bg-neon-blue/5' : 'border-white/10'}`}
+          >
+            <div className="p-3 border-b border-white/10 border-t-4 rounded-t-xl" style={{ borderTopColor: column.color }}>
+              <div className="flex justify-between items-center">
+                <span className="text-sm font-bold text-white truncate">
+                  {column.name}
+                  {column.stage && column.stage.outcome !== 'open' && (
+                    <span className="ml-2 text-[9px] uppercase font-bold text-gray-500">{column.stage.outcome}</span>
+                  )}
+                </span>
+                <span className="text-xs font-mono text-gray-400 bg-white/5 px-2 py-0.5 rounded-full">{column.leads.length}</span>
+              </div>
+              <p className="text-[11px] text-gray-500 mt-1 font-mono">Value: {formatDealValue(column.total)}</p>
+            </div>
+
+            <div className="p-2 space-y-2 overflow-y-auto flex-1 min-h-[80px]">
+              {column.leads.map(lead => {
+                const score = leadScore(lead, qualificationCriteria);
+                return (
+                  <div
+                    key={lead.id}
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData('text/plain', lead.id);
+                      e.dataTransfer.effectAllowed = 'move';
+                      setDraggingId(lead.id);
+                    }}
+                    onDragEnd={() => {
+                      setDraggingId(null);
+                      setDropTargetId(null);
+                    }}
+                    className={`p-3 rounded-lg bg-black/30 border border-white/10 hover:border-white/20 cursor-grab active:cursor-grabbing transition-opacity ${draggingId === lead.id ? 'opacity-40' : ''}`}
+                  >
+                    <div className="flex justify-between items-start gap-2">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-white truncate">{lead.name}</p>
+                        <p className="text-[10px] text-gray-500 truncate">{lead.company}{lead.phone ? ` · ${lead.phone}` : ''}</p>
+                      </div>
+                      {score !== undefined && (
+                        <span
+                          className={`shrink-0 px-1.5 py-0.5 rounded text-[10px] font-bold font-mono border cursor-help ${scoreColor(score)}`}
+                          title={describeQualification(lead, qualificationCriteria)}
+                        >
+                          {score}
+                        </span>
+                      )}
+                    </div>
+                    {lead.interestedIn && <p className="text-xs text-gray-400 mt-2 truncate">{lead.interestedIn}</p>}
+                    <div className="flex justify-between items-center mt-2 gap-2">
+                      <div className="flex items-center gap-2 min-w-0">
+                        {lead.dealValue ? (
+                          <span className="text-xs font-mono text-neon-blue">{formatDealValue(lead.dealValue)}</span>
+                        ) : null}
+                        {lead.escalated && (
+                          <span className="text-[9px] uppercase font-bold px-1.5 py-0.5 rounded bg-neon-purple/20 text-neon-purple border border-neon-purple/30">Escalated</span>
+                        )}
+                        <span className="text-[10px] text-gray-600 truncate" title={lastContactAt(lead)?.toLocaleString()}>{formatRelativeTime(lastContactAt(lead))}</span>
+                      </div>
+                      <button
+                        onClick={() => onViewHistory(lead)}
+                        className="shrink-0 p-1.5 rounded-full bg-white/5 hover:bg-neon-blue/20 text-gray-400 hover:text-neon-blue transition-all border border-white/10 hover:border-neon-blue/50"
+                        title="View History & Voice Record"
+                      >
+                        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+              {column.leads.length === 0 && (
+                <p className="text-[11px] text-gray-600 text-center py-6">No leads</p>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PipelineBoard;
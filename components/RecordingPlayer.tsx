@@ -0,0 +1,68 @@
+import React, { useState, useEffect } from 'react';
+import { Session } from '../types';
+import { db } from '../services/db';
+
+interface RecordingPlayerProps {
+  session: Session;
+}
+
+// Resolves locally stored recordings (IndexedDB) to object URLs and releases them on unmount
+const RecordingPlayer: React.FC<RecordingPlayerProps> = ({ session }) => {
+  const [src, setSrc] = useState<string | null>(null);
+  const [isResolving, setIsResolving] = useState(!!session.audioUrl);
+
+  useEffect(() => {
+    let cancelled = false;
+    let objectUrl: string | null = null;
+
+    setIsResolving(!!session.audioUrl);
+    db.resolveRecordingUrl(session.audioUrl).then(url => {
+      if (url?.startsWith('blob:')) objectUrl = url;
+      if (cancelled) {
+        if (objectUrl) URL.revokeObjectURL(objectUrl);
+        return;
+      }
+      setSrc(url);
+      setIsResolving(false);
+    });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [session.audioUrl]);
+
+  if (isResolving) {
+    return <div className="h-8 bg-white/5 rounded animate-pulse" />;
+  }
+
+  if (src) {
+    return (
+      <div className="flex flex-col gap-2">
+        <audio controls src={src} className="w-full h-8 opacity-80 hover:opacity-100 transition-opacity" />
+        <a href={src} download={`session_${session.id}.webm`} className="text-[10px] text-neon-blue hover:underline self-end">Download Recording</a>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 rounded-full bg-red-500/20 flex items-center justify-center text-red-500">
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" /></svg>
+        </div>
+        <div className="flex-1">
+          <div className="h-1 bg-gray-700 rounded-full w-full"></div>
+        </div>
+        <span className="text-[10px] uppercase font-bold text-gray-500">No Audio</span>
+      </div>
+      <p className="text-[10px] text-gray-500 mt-2 italic text-center">
+        {session.audioUrl
+          ? 'Recording was removed from this device to free up storage.'
+          : 'Recording unavailable or expired (local demo storage).'}
+      </p>
+    </>
+  );
+};
+
+export default RecordingPlayer;
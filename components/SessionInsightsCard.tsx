@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { Session } from '../types';
+import { insightsOutdated } from '../services/sessionInsights';
+
+interface SessionInsightsCardProps {
+  session: Session;
+  onGenerate: (session: Session) => Promise<void>;
+}
+
+const SECTIONS: { key: 'nextSteps' | 'objections' | 'productsMentioned' | 'budgetSignals'; label: string; className: string }[] = [
+  { key: 'nextSteps', label: 'Next Steps', className: 'bg-neon-blue/10 text-neon-blue border-neon-blue/20' },
+  { key: 'objections', label: 'Objections', className: 'bg-red-500/10 text-red-400 border-red-500/20' },
+  { key: 'productsMentioned', label: 'Products', className: 'bg-neon-purple/10 text-neon-purple border-neon-purple/20' },
+  { key: 'budgetSignals', label: 'Budget Signals', className: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' }
+];
+
+const SessionInsightsCard: React.FC<SessionInsightsCardProps> = ({ session, onGenerate }) => {
+  const [isGenerating, setIsGenerating] = useState(false);
+  const { insights } = session;
+  const hasVisitorMessages = (session.transcript || []).some(m => m.role === 'user');
+
+  const generate = async () => {
+    setIsGenerating(true);
+    try {
+      await onGenerate(session);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  if (!insights) {
+    if (!hasVisitorMessages) return null;
+    return (
+      <div className="p-4 border-b border-white/5 flex items-center justify-between gap-4">
+        <span className="text-xs text-gray-500">No AI summary for this conversation yet.</span>
+        <button
+          onClick={generate}
+          disabled={isGenerating}
+          className="px-3 py-1.5 text-xs font-semibold rounded-lg bg-neon-blue/10 hover:bg-neon-blue/20 border border-neon-blue/30 text-neon-blue disabled:opacity-40 transition-colors"
+        >
+          {isGenerating ? 'Summarizing...' : 'Summarize'}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 border-b border-white/5 space-y-3 bg-gradient-to-r from-neon-blue/5 to-transparent">
+      <div className="flex justify-between items-start gap-4">
+        <p className="text-sm text-gray-200 leading-relaxed">{insights.summary}</p>
+        {insightsOutdated(session) && (
+          <button
+            onClick={generate}
+            disabled={isGenerating}
+            className="shrink-0 text-[10px] text-gray-400 hover:text-neon-blue underline disabled:opacity-40"
+            title="The conversation continued after this summary was written"
+          >
+            {isGenerating ? 'Updating...' : 'Update'}
+          </button>
+        )}
+      </div>
+      {SECTIONS.filter(section => insights[section.key].length > 0).map(section => (
+        <div key={section.key}>
+          <p className="text-[10px] uppercase font-bold text-gray-500 mb-1">{section.label}</p>
+          <div className="flex flex-wrap gap-1.5">
+            {insights[section.key].map((item, i) => (
+              <span key={i} className={`text-[11px] px-2 py-0.5 rounded border ${section.className}`}>{item}</span>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SessionInsightsCard;
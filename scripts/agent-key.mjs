@@ -0,0 +1,43 @@
+// Issues an agent key: a JWT for the anon role carrying an agent_id claim, signed with the Supabase project's
+// JWT secret (Dashboard -> Project Settings -> API -> JWT Secret). The row-level security policies from the
+// 20251225000000_agent_isolation migration only let requests made with it reach that agent's rows.
+//
+//   SUPABASE_JWT_SECRET=... npm run agent-key -- [agent-id] [--days 3650]
+//
+// Without an agent id a new one is generated; the app creates that agent the first time it is opened with the key.
+// For an existing agent pass its id (agent_configs.id). Prints the agent id and the key.
+
+import { createHmac, randomUUID } from 'node:crypto';
+
+const DEFAULT_DAYS = 3650;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const secret = process.env.SUPABASE_JWT_SECRET;
+if (!secret) {
+  console.error('Set SUPABASE_JWT_SECRET to the project\'s JWT secret.');
+  process.exit(1);
+}
+
+const args = process.argv.slice(2);
+const daysFlag = args.indexOf('--days');
+const days = daysFlag >= 0 ? Number(args[daysFlag + 1]) : DEFAULT_DAYS;
+const agentId = args.find((arg, i) => !arg.startsWith('--') && (daysFlag < 0 || i !== daysFlag + 1)) || randomUUID();
+
+if (!UUID.test(agentId)) {
+  console.error(`"${agentId}" is not an agent id (a UUID).`);
+  process.exit(1);
+}
+if (!(days > 0)) {
+  console.error('--days must be a positive number.');
+  process.exit(1);
+}
+
+const base64url = (value) => Buffer.from(typeof value === 'string' ? value : JSON.stringify(value)).toString('base64url');
+
+const now = Math.floor(Date.now() / 1000);
+const header = base64url({ alg: 'HS256', typ: 'JWT' });
+const payload = base64url({ iss: 'supabase', role: 'anon', agent_id: agentId.toLowerCase(), iat: now, exp: now + Math.round(days * 86400) });
+const signature = createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url');
+
+console.log(`Agent id:  ${agentId.toLowerCase()}`);
+console.log(`Agent key: ${header}.${payload}.${signature}`);
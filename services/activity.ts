@@ -0,0 +1,74 @@
+import { ActivityActor, FieldChange, Lead, LeadActivity, PipelineStage } from '../types';
+import { db } from './db';
+import { stageLabel } from './pipeline';
+
+export const VISITOR_ACTOR: ActivityActor = { kind: 'visitor', name: 'Visitor' };
+export const SYSTEM_ACTOR: ActivityActor = { kind: 'system', name: 'System' };
+
+export const agentActor = (name: string): ActivityActor => ({ kind: 'agent', name });
+
+// Admins are attributed by the operator name they entered in the live queue
+export const adminActor = (name?: string | null): ActivityActor => ({ kind: 'admin', name: name?.trim() || 'Admin' });
+
+// Lead fields that are audited, with their display labels. lastInteractionAt changes on every message, and
+// escalations and qualification are logged as their own activities, so those are left out.
+export const AUDITED_FIELDS: Partial<Record<keyof Lead, string>> = {
+  name: 'Name',
+  company: 'Company',
+  phone: 'Phone',
+  interestedIn: 'Interested in',
+  status: 'Stage',
+  sentiment: 'Sentiment',
+  dealValue: 'Deal value',
+  notes: 'Notes'
+};
+
+const display = (field: keyof Lead, value: unknown, stages: PipelineStage[]): string | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  return field === 'status' ? stageLabel(stages, String(value)) : String(value);
+};
+
+// Audited fields the update actually changes, with before/after values as shown to admins
+export const diffLead = (before: Lead | undefined, updates: Partial<Lead>, stages: PipelineStage[]): FieldChange[] =>
+  (Object.keys(AUDITED_FIELDS) as (keyof Lead)[])
+    .filter(field => updates[field] !== undefined && String(before?.[field] ?? '') !== String(updates[field] ?? ''))
+    .map(field => ({ field, from: display(field, before?.[field], stages), to: display(field, updates[field], stages) }));
+
+// Never lets a failed log write break the change it describes
+export const logLeadActivity = async (activity: Omit<LeadActivity, 'id' | 'agentId' | 'createdAt'>): Promise<LeadActivity | null> => {
+  try {
+    return await db.createLeadActivity({ ...activity, createdAt: new Date().toISOString() });
+  } catch (e: any) {
+    console.warn('Failed to record lead activity:', e.message || e);
+    return null;
+  }
+};
+
+// Records a lead update as a stage change or field edit. Nothing is logged when no audited field changes.
+export const logLeadUpdate = async (
+  before: Lead | undefined,
+  leadId: string,
+  updates: Partial<Lead>,
+  actor: ActivityActor,
+  stages: PipelineStage[],
+  sessionId?: string
+): Promise<LeadActivity | null> => {
+  const changes = diffLead(before, updates, stages);
+  if (changes.length === 0) return null;
+
+  const stageChange = changes.find(c => c.field === 'status');
+  const edited = changes.filter(c => c !== stageChange).map(c => AUDITED_FIELDS[c.field as keyof Lead]!.toLowerCase());
+  const parts = [
+    stageChange && `Moved from ${stageChange.from || 'no stage'} to ${stageChange.to}`,
+    edited.length > 0 && `${stageChange ? 'updated' : 'Updated'} ${edited.join(', ')}`
+  ].filter(Boolean);
+
+  return logLeadActivity({
+    leadId,
+    sessionId,
+    type: stageChange ? 'status_changed' : 'field_updated',
+    actor,
+    summary: parts.join(' and '),
+    changes
+  });
+};
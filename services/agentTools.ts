@@ -0,0 +1,339 @@
+import { Chat, FunctionCall, FunctionDeclaration, FunctionResponse, GenerateContentResponse, Type } from "@google/genai";
+import { Lead, ObjectionHandler, Persona, PipelineStage, QualificationCriterion, QualificationLevel } from "../types";
+import { BookingOutcome, toLocalISO } from "./booking";
+import { QUALIFICATION_LEVELS } from "./qualification";
+import { KNOWLEDGE_KINDS, KnowledgeHit, KnowledgeKind } from "./knowledgeBase";
+
+// Shape returned to the model for every tool call.
+// Successful handlers are wrapped in `result`, failures in a structured `error`.
+export type ToolResponse<TResult = unknown> =
+  | { result: TResult }
+  | { error: { code: ToolErrorCode; message: string } };
+
+export type ToolErrorCode = 'UNKNOWN_TOOL' | 'INVALID_ARGUMENTS' | 'HANDLER_FAILED' | 'ROUND_LIMIT';
+
+// A tool the agent can call: its schema, an async handler and the result it resolves to.
+export interface AgentTool<TArgs = Record<string, unknown>, TResult = unknown> {
+  declaration: FunctionDeclaration & { name: string };
+  handler: (args: TArgs) => Promise<TResult>;
+}
+
+// Thrown by handlers to report bad model input instead of a generic failure
+export class ToolArgumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolArgumentError';
+  }
+}
+
+export class ToolRegistry {
+  private tools: Map<string, AgentTool<any, any>> = new Map();
+
+  register<TArgs, TResult>(tool: AgentTool<TArgs, TResult>): this {
+    if (this.tools.has(tool.declaration.name)) {
+      console.warn(`Tool "${tool.declaration.name}" is already registered, replacing it.`);
+    }
+    this.tools.set(tool.declaration.name, tool);
+    return this;
+  }
+
+  unregister(name: string): boolean {
+    return this.tools.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  get declarations(): FunctionDeclaration[] {
+    return Array.from(this.tools.values()).map(t => t.declaration);
+  }
+
+  // Runs a model function call and always produces a response, so the model never stalls waiting for one
+  async execute(call: FunctionCall): Promise<FunctionResponse> {
+    const name = call.name || '';
+    const tool = this.tools.get(name);
+    let response: ToolResponse;
+
+    if (!tool) {
+      console.warn(`Agent called unknown tool "${name}"`);
+      response = { error: { code: 'UNKNOWN_TOOL', message: `No tool named "${name}" is available.` } };
+    } else {
+      try {
+        const result = await tool.handler(call.args || {});
+        response = { result };
+      } catch (e: any) {
+        console.error(`Tool "${name}" failed:`, e);
+        response = {
+          error: {
+            code: e instanceof ToolArgumentError ? 'INVALID_ARGUMENTS' : 'HANDLER_FAILED',
+            message: e?.message || String(e)
+          }
+        };
+      }
+    }
+
+    return { id: call.id, name, response };
+  }
+}
+
+// Text chat equivalent of the Live API tool loop: sends a message and answers every
+// function call until the model replies with text. Calls still coming after the round limit
+// are refused with ROUND_LIMIT, which asks the model to answer the visitor in text instead.
+// The reply can still lack text (e.g. the model ignores the refusal), so callers need a fallback.
+export const sendChatMessageWithTools = async (
+  chat: Chat,
+  message: string,
+  tools: ToolRegistry,
+  maxRounds = 5
+): Promise<GenerateContentResponse> => {
+  const refusal: ToolResponse = {
+    error: { code: 'ROUND_LIMIT', message: 'Too many tool calls for one message. Reply to the visitor now without calling tools.' }
+  };
+  let response = await chat.sendMessage({ message });
+  for (let round = 0; round <= maxRounds; round++) {
+    const calls = response.functionCalls;
+    if (!calls || calls.length === 0) break;
+    const functionResponses: FunctionResponse[] = round < maxRounds
+      ? await Promise.all(calls.map(fc => tools.execute(fc)))
+      : calls.map(fc => ({ id: fc.id, name: fc.name, response: refusal }));
+    response = await chat.sendMessage({
+      message: functionResponses.map(functionResponse => ({ functionResponse }))
+    });
+  }
+  return response;
+};
+
+// --- Built-in Tools ---
+
+// Tool Definition for updating lead info. The handler may return extra context for the model
+// (e.g. that the visitor is a returning customer), sent back instead of the plain confirmation.
+// The model picks a status by stage name and a persona by persona name; both are stored as ids.
+export const createUpdateLeadTool = (
+  stages: PipelineStage[],
+  personas: Persona[],
+  onUpdate: (updates: Partial<Lead>) => void | string | Promise<void | string>
+): AgentTool<Partial<Lead> & { persona?: string }, string> => ({
+  declaration: {
+    name: 'update_lead',
+    description: 'Update the current lead information (phone, interest, notes, etc) based on the conversation.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        phone: { type: Type.STRING, description: 'The phone number of the lead if provided.' },
+        interestedIn: { type: Type.STRING, description: 'The product or service the lead is interested in.' },
+        notes: { type: Type.STRING, description: 'New important notes or requirements. Added below the existing notes, so only send what is new.' },
+        sentiment: { type: Type.STRING, description: 'The sentiment of the conversation: Positive, Neutral, or Negative.' },
+        status: { type: Type.STRING, enum: stages.map(s => s.name), description: 'The pipeline stage the lead has reached.' },
+        ...(personas.length > 0 && {
+          persona: { type: Type.STRING, enum: personas.map(p => p.name), description: 'The target persona the user matches best, once it is clear.' }
+        })
+      },
+      required: [] // Explicitly optional to avoid schema validation errors
+    }
+  },
+  handler: async ({ persona, ...updates }) => {
+    if (persona !== undefined) {
+      const requested = String(persona).trim().toLowerCase();
+      const match = personas.find(p => p.name.toLowerCase() === requested || p.id === persona);
+      if (!match) {
+        throw new ToolArgumentError(`Unknown persona "${persona}". Use one of: ${personas.map(p => p.name).join(', ')}.`);
+      }
+      updates = { ...updates, personaId: match.id };
+    }
+    if (updates.status !== undefined) {
+      const requested = String(updates.status).trim().toLowerCase();
+      const stage = stages.find(s => s.name.toLowerCase() === requested || s.id.toLowerCase() === requested);
+      if (!stage) {
+        throw new ToolArgumentError(`Unknown status "${updates.status}". Use one of: ${stages.map(s => s.name).join(', ')}.`);
+      }
+      updates = { ...updates, status: stage.id };
+    }
+    const context = await onUpdate(updates);
+    return context || "Lead updated successfully.";
+  }
+});
+
+// Booking and follow-up results carry the visitor's current local time: the system prompt states it once, when the
+// session starts, and a tab left open can carry a conversation into the next day
+export const createBookAppointmentTool = (
+  book: (startsAt: Date, notes?: string) => Promise<BookingOutcome>
+): AgentTool<{ startsAt?: string; notes?: string }, BookingOutcome & { now: string }> => ({
+  declaration: {
+    name: 'book_appointment',
+    description: 'Book a showroom visit / meeting for the current lead at a proposed time. Returns the booking, or the reason it failed with alternative times.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        startsAt: { type: Type.STRING, description: 'Proposed start time as an ISO 8601 date-time, e.g. 2025-03-14T15:30:00.' },
+        notes: { type: Type.STRING, description: 'Purpose of the visit or anything the team should prepare.' }
+      },
+      required: ['startsAt']
+    }
+  },
+  handler: async ({ startsAt, notes }) => {
+    const date = startsAt ? new Date(startsAt) : null;
+    if (!date || isNaN(date.getTime())) {
+      throw new ToolArgumentError(`"startsAt" must be a valid ISO 8601 date-time, got "${startsAt}".`);
+    }
+    return { ...await book(date, notes), now: toLocalISO(new Date()) };
+  }
+});
+
+export const createScheduleFollowUpTool = (
+  schedule: (dueAt: Date, reason: string) => Promise<string>
+): AgentTool<{ dueAt?: string; reason?: string }, string> => ({
+  declaration: {
+    name: 'schedule_follow_up',
+    description: 'Create a follow-up task for the sales team when the user asks to be contacted later (e.g. "call me next week") or a follow-up was agreed.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        dueAt: { type: Type.STRING, description: 'When to follow up, as an ISO 8601 date-time, e.g. 2025-03-14T10:00:00.' },
+        reason: { type: Type.STRING, description: 'What the team should follow up on, e.g. "Call to discuss the Pro plan quote".' }
+      },
+      required: ['dueAt', 'reason']
+    }
+  },
+  handler: async ({ dueAt, reason }) => {
+    const date = dueAt ? new Date(dueAt) : null;
+    if (!date || isNaN(date.getTime())) {
+      throw new ToolArgumentError(`"dueAt" must be a valid ISO 8601 date-time, got "${dueAt}".`);
+    }
+    if (date.getTime() < Date.now()) {
+      throw new ToolArgumentError(`"dueAt" must be in the future (it is now ${toLocalISO(new Date())}), got "${dueAt}".`);
+    }
+    return `${await schedule(date, reason?.trim() || 'Follow up with the lead')} (It is now ${toLocalISO(new Date())}.)`;
+  }
+});
+
+export const createEscalateToHumanTool = (
+  escalate: (reason: string) => Promise<string>
+): AgentTool<{ reason?: string }, string> => ({
+  declaration: {
+    name: 'escalate_to_human',
+    description: 'Hand the conversation over to a human sales representative when the escalation condition is met or the user insists on talking to a person.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        reason: { type: Type.STRING, description: 'Why the conversation is being escalated, for the human operator.' }
+      },
+      required: ['reason']
+    }
+  },
+  handler: async ({ reason }) => escalate(reason || 'User requested a human.')
+});
+
+// Only register when the agent has criteria configured (the enum must not be empty)
+export const createQualifyLeadTool = (
+  criteria: QualificationCriterion[],
+  assess: (criterionId: string, level: QualificationLevel, evidence?: string) => Promise<number | undefined>
+): AgentTool<{ criterion?: string; level?: string; evidence?: string }, string> => ({
+  declaration: {
+    name: 'qualify_lead',
+    description: 'Record how well the current lead meets one qualification criterion. Call it whenever the conversation reveals something about a criterion, and again if it changes.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        criterion: { type: Type.STRING, enum: criteria.map(c => c.name), description: 'The qualification criterion being assessed.' },
+        level: { type: Type.STRING, enum: QUALIFICATION_LEVELS, description: 'met, partial (some signals but not confirmed) or not_met.' },
+        evidence: { type: Type.STRING, description: 'What the user said that supports this assessment.' }
+      },
+      required: ['criterion', 'level']
+    }
+  },
+  handler: async ({ criterion, level, evidence }) => {
+    const match = criteria.find(c => c.name.toLowerCase() === (criterion || '').trim().toLowerCase());
+    if (!match) {
+      throw new ToolArgumentError(`Unknown criterion "${criterion}". Use one of: ${criteria.map(c => c.name).join(', ')}.`);
+    }
+    if (!QUALIFICATION_LEVELS.includes(level as QualificationLevel)) {
+      throw new ToolArgumentError(`"level" must be one of ${QUALIFICATION_LEVELS.join(', ')}, got "${level}".`);
+    }
+    const score = await assess(match.id, level as QualificationLevel, evidence);
+    return `Recorded ${match.name} as ${level}.${score !== undefined ? ` Qualification score is now ${score}/100.` : ''}`;
+  }
+});
+
+// Value of the "objection" argument when none of the scripted objections fits
+export const OTHER_OBJECTION = 'Other';
+
+// Records an objection the user raised, matched to a scripted handler by its objection text. The handler
+// receives the matched handler (undefined for "Other") and returns the text sent back to the model.
+export const createReportObjectionTool = (
+  handlers: ObjectionHandler[],
+  report: (handler: ObjectionHandler | undefined, concern: string, userWords?: string) => Promise<string>
+): AgentTool<{ objection?: string; concern?: string; userWords?: string }, string> => ({
+  declaration: {
+    name: 'report_objection',
+    description: 'Record an objection or concern the user just raised (price, timing, trust, competitor, ...). Call it before answering the objection.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        objection: { type: Type.STRING, enum: [...handlers.map(h => h.objection), OTHER_OBJECTION], description: `The scripted objection it matches, or "${OTHER_OBJECTION}" if none fits.` },
+        concern: { type: Type.STRING, description: `The concern in a few words. Required when the objection is "${OTHER_OBJECTION}".` },
+        userWords: { type: Type.STRING, description: 'What the user actually said.' }
+      },
+      required: ['objection']
+    }
+  },
+  handler: async ({ objection, concern, userWords }) => {
+    const requested = (objection || '').trim().toLowerCase();
+    const match = handlers.find(h => h.objection.trim().toLowerCase() === requested);
+    if (!match && requested !== OTHER_OBJECTION.toLowerCase()) {
+      throw new ToolArgumentError(`Unknown objection "${objection}". Use one of the scripted objections or "${OTHER_OBJECTION}".`);
+    }
+    if (!match && !concern?.trim()) {
+      throw new ToolArgumentError(`"concern" is required when the objection is "${OTHER_OBJECTION}".`);
+    }
+    return report(match, match ? match.objection : concern!.trim(), userWords?.trim() || undefined);
+  }
+});
+
+export const createUnansweredQuestionTool = (
+  report: (question: string, userWords?: string) => Promise<string>
+): AgentTool<{ question?: string; userWords?: string }, string> => ({
+  declaration: {
+    name: 'unanswered_question',
+    description: 'Report a question from the user that the knowledge base, FAQ and documents do not answer, so the team can add the answer. Call it instead of guessing.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        question: { type: Type.STRING, description: 'The question as a short, self-contained sentence, e.g. "Do you deliver to Jeddah?".' },
+        userWords: { type: Type.STRING, description: 'What the user actually asked.' }
+      },
+      required: ['question']
+    }
+  },
+  handler: async ({ question, userWords }) => {
+    if (!question?.trim()) throw new ToolArgumentError('"question" must not be empty.');
+    return report(question.trim(), userWords?.trim() || undefined);
+  }
+});
+
+export const createSearchKnowledgeTool = (
+  search: (query: string, kind?: KnowledgeKind) => KnowledgeHit[]
+): AgentTool<{ query?: string; kind?: string }, { matches: KnowledgeHit[]; note?: string }> => ({
+  declaration: {
+    name: 'search_knowledge',
+    description: 'Search the knowledge base (products with prices, specs and stock, FAQ answers, target audiences, scripted objection answers and documents). Use it before answering any question about these; never answer them from memory.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        query: { type: Type.STRING, description: 'Keywords to look up, e.g. a product name, model number, category or the topic of the question.' },
+        kind: { type: Type.STRING, enum: KNOWLEDGE_KINDS, description: 'Only search this kind of entry. Leave out to search everything.' }
+      },
+      required: ['query']
+    }
+  },
+  handler: async ({ query, kind }) => {
+    if (!query?.trim()) throw new ToolArgumentError('"query" must not be empty.');
+    if (kind !== undefined && !KNOWLEDGE_KINDS.includes(kind as KnowledgeKind)) {
+      throw new ToolArgumentError(`"kind" must be one of ${KNOWLEDGE_KINDS.join(', ')}, got "${kind}".`);
+    }
+    const matches = search(query.trim(), kind as KnowledgeKind | undefined);
+    return matches.length > 0
+      ? { matches }
+      : { matches, note: 'Nothing matched. Try other keywords; if the knowledge base does not cover it, use "unanswered_question".' };
+  }
+});
@@ -0,0 +1,259 @@
+import { Lead, Message, ObjectionHandler, Persona, PipelineStage, Session } from '../types';
+import { stageRank } from './pipeline';
+import { GUEST_INTEREST } from './conversation';
+
+export interface AnalyticsRange {
+  from: Date; // start of the first day
+  to: Date; // end of the last day
+}
+
+export interface DailyCount {
+  day: string; // YYYY-MM-DD, local time
+  count: number;
+}
+
+export interface RankedItem {
+  label: string;
+  count: number;
+}
+
+export interface FunnelStep {
+  name: string;
+  color: string;
+  reached: number; // leads that got at least this far
+  dropOff: number; // share of this step's leads that did not reach the next one, 0-1
+}
+
+export interface PersonaConversion {
+  personaId?: string; // undefined for leads the agent never matched to a persona
+  name: string;
+  leads: number;
+  won: number;
+  rate: number; // 0-1
+}
+
+export interface ObjectionEffectiveness {
+  handlerId?: string; // undefined for objections without a scripted answer
+  objection: string;
+  occurrences: number;
+  conversations: number;
+  continued: number; // conversations in which the visitor still wrote after the objection came up
+  won: number; // distinct leads, by their current stage
+  lost: number;
+  open: number;
+  winRate: number | null; // won / (won + lost), null while no lead is decided
+}
+
+export interface ConversationAnalytics {
+  sessionsPerDay: DailyCount[];
+  conversations: number;
+  avgDurationMs: number | null;
+  talkShare: Record<Message['role'], number> | null; // share of words per speaker, 0-1
+  summarized: number; // conversations with an AI summary; objections and products come from those
+  funnel: FunnelStep[];
+  topObjections: RankedItem[];
+  topProducts: RankedItem[];
+  personaConversion: PersonaConversion[];
+}
+
+const TOP_ITEMS = 8;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const dayKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// The last `days` days up to and including today
+export const lastDaysRange = (days: number, now: Date = new Date()): AnalyticsRange => {
+  const to = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59, 999);
+  const from = new Date(now.getFullYear(), now.getMonth(), now.getDate() - (days - 1));
+  return { from, to };
+};
+
+// Range from two YYYY-MM-DD date input values, in local time
+export const rangeFromDays = (fromDay: string, toDay: string): AnalyticsRange => {
+  const [fy, fm, fd] = fromDay.split('-').map(Number);
+  const [ty, tm, td] = toDay.split('-').map(Number);
+  return { from: new Date(fy, fm - 1, fd), to: new Date(ty, tm - 1, td, 23, 59, 59, 999) };
+};
+
+const inRange = (iso: string | undefined, range: AnalyticsRange) => {
+  if (!iso) return false;
+  const time = Date.parse(iso);
+  return time >= range.from.getTime() && time <= range.to.getTime();
+};
+
+const timeOf = (message: Message) => new Date(message.timestamp).getTime();
+
+const wordCount = (text: string) => text.trim().split(/\s+/).filter(Boolean).length;
+
+// Counts items case-insensitively, labelled with the first wording seen, most frequent first
+const rank = (items: string[]): RankedItem[] => {
+  const counts = new Map<string, RankedItem>();
+  items.forEach(item => {
+    const label = item.trim();
+    if (!label) return;
+    const key = label.toLowerCase();
+    const entry = counts.get(key) || { label, count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  });
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count).slice(0, TOP_ITEMS);
+};
+
+// Open stages in pipeline order, then one step for all won stages. A lead counts toward every step up to its
+// current stage. Lost leads only count toward the first step: the stage they were lost from is not kept on the lead.
+const buildFunnel = (leads: Lead[], stages: PipelineStage[]): FunnelStep[] => {
+  const ranks = leads.map(l => stageRank(stages, l.status));
+  const won = stages.filter(s => s.outcome === 'won');
+  const steps = [
+    ...stages.filter(s => s.outcome === 'open').map((stage, i) => ({
+      name: stage.name,
+      color: stage.color,
+      reached: i === 0 ? leads.length : ranks.filter(r => r >= stages.indexOf(stage)).length
+    })),
+    ...(won.length > 0 ? [{
+      name: won.length === 1 ? won[0].name : 'Won',
+      color: won[0].color,
+      reached: ranks.filter(r => r >= stages.length).length
+    }] : [])
+  ];
+  return steps.map((step, i) => ({
+    ...step,
+    dropOff: i < steps.length - 1 && step.reached > 0 ? 1 - steps[i + 1].reached / step.reached : 0
+  }));
+};
+
+const buildPersonaConversion = (leads: Lead[], stages: PipelineStage[], personas: Persona[]): PersonaConversion[] => {
+  const isWon = (lead: Lead) => stages.find(s => s.id === lead.status)?.outcome === 'won';
+  const groups = [
+    ...personas.map(p => ({ personaId: p.id as string | undefined, name: p.name, leads: leads.filter(l => l.personaId === p.id) })),
+    { personaId: undefined, name: 'Not matched', leads: leads.filter(l => !personas.some(p => p.id === l.personaId)) }
+  ];
+  return groups
+    .filter(g => g.leads.length > 0)
+    .map(({ personaId, name, leads: group }) => {
+      const won = group.filter(isWon).length;
+      return { personaId, name, leads: group.length, won, rate: won / group.length };
+    });
+};
+
+// Aggregates the dashboard figures for leads created and sessions started within the range.
+// Sessions the visitor never wrote in (opened and left) are not counted as conversations.
+export const computeAnalytics = (
+  sessions: Session[],
+  leads: Lead[],
+  stages: PipelineStage[],
+  personas: Persona[],
+  range: AnalyticsRange
+): ConversationAnalytics => {
+  const conversations = sessions.filter(s => inRange(s.createdAt, range) && (s.transcript || []).some(m => m.role === 'user'));
+  const rangeLeads = leads.filter(l => inRange(l.createdAt, range));
+
+  const perDay = new Map<string, number>();
+  for (let day = new Date(range.from); day <= range.to; day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)) {
+    perDay.set(dayKey(day), 0);
+  }
+  conversations.forEach(s => {
+    const key = dayKey(new Date(s.createdAt));
+    perDay.set(key, (perDay.get(key) || 0) + 1);
+  });
+
+  const durations = conversations
+    .map(s => s.transcript.map(timeOf).filter(t => !isNaN(t)))
+    .filter(times => times.length > 1)
+    .map(times => Math.max(...times) - Math.min(...times));
+
+  // Words per speaker stand in for talk time: voice turns are transcribed, but not timed individually
+  const words: Record<Message['role'], number> = { user: 0, model: 0, operator: 0 };
+  conversations.forEach(s => s.transcript.forEach(m => { words[m.role] += wordCount(m.text || ''); }));
+  const totalWords = words.user + words.model + words.operator;
+
+  const summarized = conversations.filter(s => s.insights);
+
+  // Each product counts once per lead: from the lead's stated interest and from its summarized conversations
+  const productsByLead = new Map<string, Map<string, string>>(); // lead id -> lowercased name -> name
+  const addProduct = (leadId: string, product?: string) => {
+    const name = (product || '').trim();
+    if (!name || name === GUEST_INTEREST) return;
+    const products = productsByLead.get(leadId) || new Map<string, string>();
+    if (!products.has(name.toLowerCase())) products.set(name.toLowerCase(), name);
+    productsByLead.set(leadId, products);
+  };
+  rangeLeads.forEach(l => addProduct(l.id, l.interestedIn));
+  summarized.forEach(s => s.insights!.productsMentioned.forEach(p => addProduct(s.leadId, p)));
+
+  return {
+    sessionsPerDay: Array.from(perDay, ([day, count]) => ({ day, count })),
+    conversations: conversations.length,
+    avgDurationMs: durations.length > 0 ? durations.reduce((sum, d) => sum + d, 0) / durations.length : null,
+    talkShare: totalWords > 0
+      ? { user: words.user / totalWords, model: words.model / totalWords, operator: words.operator / totalWords }
+      : null,
+    summarized: summarized.length,
+    funnel: buildFunnel(rangeLeads, stages),
+    topObjections: rank(summarized.flatMap(s => s.insights!.objections)),
+    topProducts: rank(Array.from(productsByLead.values()).flatMap(products => Array.from(products.values()))),
+    personaConversion: buildPersonaConversion(rangeLeads, stages, personas)
+  };
+};
+
+// "4m 05s", "1h 12m"
+export const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}h ${pad(minutes)}m`;
+  return `${minutes}m ${pad(seconds)}s`;
+};
+
+// Reported objections (Session.objections) per handler, with how the conversations and leads went afterwards.
+// Every handler gets a row, also when it never came up; objections without a handler are grouped by wording.
+export const objectionEffectiveness = (
+  sessions: Session[],
+  leads: Lead[],
+  stages: PipelineStage[],
+  handlers: ObjectionHandler[]
+): ObjectionEffectiveness[] => {
+  const outcomeOf = (leadId: string) => {
+    const lead = leads.find(l => l.id === leadId);
+    return lead ? stages.find(s => s.id === lead.status)?.outcome || 'open' : undefined;
+  };
+  const groups = new Map<string, { handlerId?: string; objection: string; occurrences: number; sessions: Set<string>; continued: Set<string>; leads: Set<string> }>();
+  const group = (key: string, handlerId: string | undefined, objection: string) => {
+    if (!groups.has(key)) groups.set(key, { handlerId, objection, occurrences: 0, sessions: new Set(), continued: new Set(), leads: new Set() });
+    return groups.get(key)!;
+  };
+  handlers.forEach(h => group(h.id, h.id, h.objection));
+
+  sessions.forEach(session => (session.objections || []).forEach(occurrence => {
+    const handler = handlers.find(h => h.id === occurrence.handlerId);
+    const entry = handler
+      ? group(handler.id, handler.id, handler.objection)
+      : group(`other:${occurrence.objection.trim().toLowerCase()}`, undefined, occurrence.objection.trim());
+    entry.occurrences++;
+    entry.sessions.add(session.id);
+    entry.leads.add(session.leadId);
+    const raisedAt = Date.parse(occurrence.at);
+    if (session.transcript.some(m => m.role === 'user' && timeOf(m) > raisedAt)) entry.continued.add(session.id);
+  }));
+
+  return Array.from(groups.values())
+    .map(g => {
+      const outcomes = Array.from(g.leads).map(outcomeOf).filter(Boolean);
+      const won = outcomes.filter(o => o === 'won').length;
+      const lost = outcomes.filter(o => o === 'lost').length;
+      return {
+        handlerId: g.handlerId,
+        objection: g.objection,
+        occurrences: g.occurrences,
+        conversations: g.sessions.size,
+        continued: g.continued.size,
+        won,
+        lost,
+        open: outcomes.length - won - lost,
+        winRate: won + lost > 0 ? won / (won + lost) : null
+      };
+    })
+    .sort((a, b) => b.occurrences - a.occurrences || (b.winRate ?? -1) - (a.winRate ?? -1));
+};
@@ -0,0 +1,126 @@
+import { Appointment, AvailabilitySlot, SalesProcess } from '../types';
+import { db, SlotTakenError } from './db';
+
+export const DEFAULT_APPOINTMENT_MINUTES = 30;
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export type BookingOutcome =
+  | { booked: true; appointment: Appointment }
+  | { booked: false; reason: string; suggestedTimes: string[] };
+
+// "HH:MM" -> minutes since midnight
+const toMinutes = (time: string): number => {
+  const [h, m] = time.split(':').map(Number);
+  return (h || 0) * 60 + (m || 0);
+};
+
+const minutesOfDay = (d: Date) => d.getHours() * 60 + d.getMinutes();
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// Local "YYYY-MM-DDTHH:MM" (no timezone suffix) so the agent reads times as the visitor does
+export const toLocalISO = (d: Date): string =>
+  `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+
+const getDuration = (process: SalesProcess) =>
+  process.appointmentDurationMinutes && process.appointmentDurationMinutes > 0
+    ? process.appointmentDurationMinutes
+    : DEFAULT_APPOINTMENT_MINUTES;
+
+// True when [start, end) sits entirely inside one configured weekly window (same day)
+export const isWithinAvailability = (start: Date, end: Date, slots: AvailabilitySlot[]): boolean => {
+  if (start.toDateString() !== end.toDateString()) return false;
+  return slots.some(slot =>
+    slot.dayOfWeek === start.getDay() &&
+    minutesOfDay(start) >= toMinutes(slot.startTime) &&
+    minutesOfDay(end) <= toMinutes(slot.endTime)
+  );
+};
+
+// Returns the first scheduled appointment overlapping [start, end), if any
+export const findConflict = (start: Date, end: Date, appointments: Appointment[]): Appointment | undefined =>
+  appointments.find(a =>
+    a.status === 'Scheduled' &&
+    new Date(a.startsAt).getTime() < end.getTime() &&
+    new Date(a.endsAt).getTime() > start.getTime()
+  );
+
+// Next open start times (local ISO) from the weekly availability, skipping past and conflicting slots
+export const suggestOpenings = (
+  process: SalesProcess,
+  appointments: Appointment[],
+  from: Date = new Date(),
+  limit = 3,
+  horizonDays = 14
+): string[] => {
+  const slots = process.availability || [];
+  const duration = getDuration(process);
+  const results: string[] = [];
+
+  for (let day = 0; day < horizonDays && results.length < limit; day++) {
+    const date = new Date(from.getFullYear(), from.getMonth(), from.getDate() + day);
+    const daySlots = slots
+      .filter(s => s.dayOfWeek === date.getDay())
+      .sort((a, b) => toMinutes(a.startTime) - toMinutes(b.startTime));
+
+    for (const slot of daySlots) {
+      for (let m = toMinutes(slot.startTime); m + duration <= toMinutes(slot.endTime); m += duration) {
+        const start = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 0, m);
+        const end = new Date(start.getTime() + duration * 60000);
+        if (start.getTime() <= from.getTime()) continue;
+        if (findConflict(start, end, appointments)) continue;
+        results.push(toLocalISO(start));
+        if (results.length >= limit) return results;
+      }
+    }
+  }
+  return results;
+};
+
+export const formatAvailability = (slots: AvailabilitySlot[]): string =>
+  slots
+    .slice()
+    .sort((a, b) => a.dayOfWeek - b.dayOfWeek || toMinutes(a.startTime) - toMinutes(b.startTime))
+    .map(s => `${DAY_NAMES[s.dayOfWeek]} ${s.startTime}-${s.endTime}`)
+    .join(', ');
+
+// Validates a proposed time against availability and existing bookings, then persists it
+export const bookAppointment = async (
+  request: { leadId: string; sessionId?: string; startsAt: Date; notes?: string },
+  process: SalesProcess
+): Promise<BookingOutcome> => {
+  const start = request.startsAt;
+  const end = new Date(start.getTime() + getDuration(process) * 60000);
+  const existing = await db.getAppointments();
+
+  let reason: string | null = null;
+  if (start.getTime() <= Date.now()) {
+    reason = 'The requested time is in the past.';
+  } else if (!(process.availability || []).length) {
+    reason = 'No availability has been configured for bookings.';
+  } else if (!isWithinAvailability(start, end, process.availability || [])) {
+    reason = 'The requested time is outside of our available hours.';
+  } else if (findConflict(start, end, existing)) {
+    reason = 'The requested time is already booked.';
+  }
+
+  if (reason) {
+    return { booked: false, reason, suggestedTimes: suggestOpenings(process, existing) };
+  }
+
+  try {
+    const appointment = await db.createAppointment({
+      leadId: request.leadId,
+      sessionId: request.sessionId,
+      startsAt: start.toISOString(),
+      endsAt: end.toISOString(),
+      status: 'Scheduled',
+      notes: request.notes
+    });
+    return { booked: true, appointment };
+  } catch (e) {
+    // Booked by another conversation since `existing` was read (the database rejects the overlap)
+    if (!(e instanceof SlotTakenError)) throw e;
+    return { booked: false, reason: e.message, suggestedTimes: suggestOpenings(process, await db.getAppointments()) };
+  }
+};
@@ -0,0 +1,73 @@
+import { AgentConfig } from '../types';
+
+export interface ConfigChange {
+  path: string; // human readable, e.g. "products › Galaxy S24 › priceRange"
+  kind: 'added' | 'removed' | 'changed';
+  before?: any;
+  after?: any;
+}
+
+// Compiled from the other fields at runtime, so it would only add noise to the diff
+const IGNORED_KEYS = new Set(['systemInstruction']);
+
+// Fields used to name list items (Product, FAQ, Persona, ...) in change paths
+const LABEL_FIELDS = ['name', 'title', 'question', 'objection'];
+
+const isPlainObject = (value: any) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const isIdList = (value: any): value is { id: string }[] =>
+  Array.isArray(value) && value.every(item => isPlainObject(item) && typeof item.id === 'string');
+
+const itemLabel = (item: any): string => {
+  const field = LABEL_FIELDS.find(f => typeof item[f] === 'string' && item[f].trim());
+  return field ? item[field] : `#${item.id}`;
+};
+
+const diffValues = (before: any, after: any, path: string[], changes: ConfigChange[]) => {
+  if (JSON.stringify(before) === JSON.stringify(after)) return;
+  const at = path.join(' › ');
+
+  if (before === undefined) {
+    changes.push({ path: at, kind: 'added', after });
+    return;
+  }
+  if (after === undefined) {
+    changes.push({ path: at, kind: 'removed', before });
+    return;
+  }
+
+  // Lists of records are matched by id so reordering or editing one item reads as a single change
+  if (isIdList(before) && isIdList(after)) {
+    const beforeById = new Map(before.map(item => [item.id, item]));
+    const afterById = new Map(after.map(item => [item.id, item]));
+    before.filter(item => !afterById.has(item.id)).forEach(item => {
+      changes.push({ path: [...path, itemLabel(item)].join(' › '), kind: 'removed', before: item });
+    });
+    after.forEach(item => {
+      const previous = beforeById.get(item.id);
+      if (!previous) {
+        changes.push({ path: [...path, itemLabel(item)].join(' › '), kind: 'added', after: item });
+      } else {
+        diffValues(previous, item, [...path, itemLabel(previous)], changes);
+      }
+    });
+    return;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+    keys
+      .filter(key => !IGNORED_KEYS.has(key))
+      .forEach(key => diffValues(before[key], after[key], [...path, key], changes));
+    return;
+  }
+
+  changes.push({ path: at, kind: 'changed', before, after });
+};
+
+// Field-level differences between two configs (list items matched by id)
+export const diffConfigs = (before: AgentConfig | null, after: AgentConfig): ConfigChange[] => {
+  const changes: ConfigChange[] = [];
+  diffValues(before || {}, after, [], changes);
+  return changes;
+};
@@ -0,0 +1,302 @@
+import { Lead, Message, PipelineStage, Session } from '../types';
+import { db } from './db';
+import { outbox } from './outbox';
+import { isSamePhone } from './phone';
+import { stageLabel } from './pipeline';
+import { VISITOR_ACTOR, SYSTEM_ACTOR, logLeadActivity } from './activity';
+
+// The lead and session a visitor's chat and voice call write to. Bound once when the agent view
+// opens, so leads created or reordered by an admin cannot redirect the agent's CRM updates.
+// The lead only changes through reattachByPhone(), which returns a new context when the visitor turns out to be an existing lead.
+export interface ConversationContext {
+  agentId: string;
+  visitorToken: string;
+  leadId: string;
+  sessionId: string;
+}
+
+export interface StartedConversation {
+  context: ConversationContext;
+  lead: Lead;
+  session: Session;
+  resumed: boolean; // true when a reload picked up the visitor's open session
+  previousSessions: Session[]; // the lead's other sessions, newest first (empty for a new visitor)
+  verified: boolean; // see isVerifiedLead
+}
+
+export interface VisitorMatch {
+  context: ConversationContext; // the conversation, now on the existing lead
+  lead: Lead; // the existing lead, with details from the guest lead carried over
+  previousSessions: Session[];
+  verified: boolean; // see isVerifiedLead
+  removedLeadId?: string; // the guest lead, deleted once nothing referred to it
+}
+
+interface StoredConversation extends ConversationContext {
+  lastActiveAt: string;
+}
+
+const VISITOR_TOKEN_KEY = 'nova_visitor_token';
+const conversationKey = (agentId: string) => `nova_conversation:${agentId}`;
+const verifiedLeadsKey = (agentId: string) => `nova_verified_leads:${agentId}`;
+
+// Coming back within this window continues the same session; later visits start a new session on the same lead
+const RESUME_WINDOW_MS = 30 * 60 * 1000;
+
+// Placeholder values of a lead created for an anonymous visitor
+const GUEST_NAME_PREFIX = 'Guest User';
+export const GUEST_COMPANY = 'Unknown';
+export const GUEST_INTEREST = 'General Interest';
+
+// How much of earlier conversations goes into the system prompt
+const MEMORY_SESSIONS = 3;
+const MEMORY_MESSAGES_PER_SESSION = 6;
+const MEMORY_MESSAGE_CHARS = 200;
+
+const read = <T>(key: string): T | null => {
+  try {
+    const item = localStorage.getItem(key);
+    return item ? JSON.parse(item) : null;
+  } catch (e) {
+    console.warn(`Failed to parse local storage for ${key}`, e);
+    return null;
+  }
+};
+
+const write = (key: string, value: any) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.warn(`Failed to save to local storage for ${key}`, e);
+  }
+};
+
+// Identifies this browser across reloads and visits; created on first visit
+export const getVisitorToken = (): string => {
+  const existing = read<string>(VISITOR_TOKEN_KEY);
+  if (existing) return existing;
+  const token = typeof crypto !== 'undefined' && crypto.randomUUID
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 10)}`;
+  write(VISITOR_TOKEN_KEY, token);
+  return token;
+};
+
+const remember = (context: ConversationContext) => {
+  write(conversationKey(context.agentId), { ...context, lastActiveAt: new Date().toISOString() });
+};
+
+// A lead counts as this visitor's own only when it was created in this browser. A phone number alone proves nothing
+// (anyone can type one), so leads reattached by phone stay unverified: the conversation is linked to them for the CRM,
+// but the agent is not told their stored details or earlier transcripts (see compileVisitorMemory).
+const markVerified = (agentId: string, leadId: string) => {
+  write(verifiedLeadsKey(agentId), [...(read<string[]>(verifiedLeadsKey(agentId)) || []), leadId]);
+};
+
+const isVerifiedLead = (agentId: string, leadId: string) =>
+  (read<string[]>(verifiedLeadsKey(agentId)) || []).some(id => outbox.resolveId(id) === leadId);
+
+export const isGuestName = (name: string) => name.startsWith(GUEST_NAME_PREFIX);
+
+const newGuestLead = (status: string): Omit<Lead, 'id'> => ({
+  name: `${GUEST_NAME_PREFIX} ${Math.floor(Math.random() * 9000) + 1000}`,
+  company: GUEST_COMPANY,
+  status,
+  createdAt: new Date().toISOString(),
+  sentiment: 'Neutral',
+  phone: '',
+  interestedIn: GUEST_INTEREST,
+  notes: ''
+});
+
+const newestFirst = (sessions: Session[]) =>
+  [...sessions].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+// Reattaches this visitor's lead from an earlier visit. Within the resume window the open session continues,
+// otherwise a new session starts on the same lead.
+const restore = async (agentId: string, visitorToken: string): Promise<StartedConversation | null> => {
+  const stored = read<StoredConversation>(conversationKey(agentId));
+  if (!stored || stored.visitorToken !== visitorToken) return null;
+
+  // IDs may have been created offline and mapped to server IDs since
+  const leadId = outbox.resolveId(stored.leadId);
+  const lead = (await db.getLeads()).find(l => l.id === leadId);
+  if (!lead) return null; // deleted by an admin
+
+  const sessions = await db.getSessions(leadId);
+  const isRecent = Date.now() - new Date(stored.lastActiveAt).getTime() <= RESUME_WINDOW_MS;
+  const open = isRecent ? sessions.find(s => s.id === outbox.resolveId(stored.sessionId)) : undefined;
+  const session = open || await db.createSession(leadId);
+  if (!session) return null;
+
+  return {
+    context: { agentId, visitorToken, leadId, sessionId: session.id },
+    lead,
+    session,
+    resumed: !!open,
+    previousSessions: newestFirst(sessions.filter(s => s.id !== session.id)),
+    verified: isVerifiedLead(agentId, leadId)
+  };
+};
+
+const logSessionStarted = (context: ConversationContext, returning: boolean) =>
+  logLeadActivity({
+    leadId: context.leadId,
+    sessionId: context.sessionId,
+    type: 'session_started',
+    actor: VISITOR_ACTOR,
+    summary: returning ? 'Returning visitor started a new conversation' : 'Visitor started a conversation'
+  });
+
+// Starts the visitor's conversation with the active agent: a returning visitor gets their existing lead back,
+// anyone else a new guest lead in the given pipeline stage. Either way the conversation is bound to one lead and session.
+export const startConversation = async (initialStatus: string): Promise<StartedConversation | null> => {
+  const agentId = db.activeAgentId;
+  if (!agentId) return null;
+  const visitorToken = getVisitorToken();
+
+  const restored = await restore(agentId, visitorToken).catch(e => {
+    console.warn('Could not restore returning visitor:', e);
+    return null;
+  });
+  if (restored) {
+    remember(restored.context);
+    if (!restored.resumed) await logSessionStarted(restored.context, true);
+    return restored;
+  }
+
+  const lead = await db.createLead(newGuestLead(initialStatus));
+  if (!lead) return null;
+  markVerified(agentId, lead.id);
+  await logLeadActivity({ leadId: lead.id, type: 'created', actor: VISITOR_ACTOR, summary: 'Lead created when a new visitor opened the agent' });
+  const session = await db.createSession(lead.id);
+  if (!session) return null;
+
+  const context: ConversationContext = { agentId, visitorToken, leadId: lead.id, sessionId: session.id };
+  remember(context);
+  await logSessionStarted(context, false);
+  return { context, lead, session, resumed: false, previousSessions: [], verified: true };
+};
+
+// Keeps the conversation inside the resume window while the visitor is active
+export const touchConversation = (context: ConversationContext) => {
+  remember(context);
+};
+
+// Adds a note below the existing ones instead of replacing them (the agent must never overwrite human notes).
+// Undefined when the note is already there.
+export const appendNote = (existing: string | undefined, note: string): string | undefined => {
+  const added = note.trim();
+  if (!added || (existing || '').includes(added)) return undefined;
+  return existing ? `${existing}\n${added}` : added;
+};
+
+// Details the agent learned on the guest lead that the existing lead does not have yet
+const learnedDetails = (guest: Lead, existing: Lead): Partial<Lead> => {
+  const details: Partial<Lead> = {};
+  if (!isGuestName(guest.name) && isGuestName(existing.name)) details.name = guest.name;
+  if (guest.company !== GUEST_COMPANY && (!existing.company || existing.company === GUEST_COMPANY)) details.company = guest.company;
+  if (guest.interestedIn !== GUEST_INTEREST) details.interestedIn = guest.interestedIn;
+  const notes = guest.notes ? appendNote(existing.notes, guest.notes) : undefined;
+  if (notes) details.notes = notes;
+  return details;
+};
+
+// Called when the visitor shares a phone number. If it belongs to another of the agent's leads, the conversation
+// moves there: the session is re-parented, details gathered so far are carried over, the guest lead is removed
+// when nothing else refers to it, and future visits from this browser reattach the existing lead.
+// The given context is left as it is; use the returned one from now on.
+export const reattachByPhone = async (context: ConversationContext, phone: string): Promise<VisitorMatch | null> => {
+  const leads = await db.getLeads();
+  const currentLeadId = outbox.resolveId(context.leadId);
+  const guest = leads.find(l => l.id === currentLeadId);
+  if (guest && isSamePhone(guest.phone, phone)) return null;
+  const existing = leads.find(l => l.id !== currentLeadId && isSamePhone(l.phone, phone));
+  if (!existing) return null;
+
+  const details = guest ? learnedDetails(guest, existing) : {};
+  await db.moveSession(context.sessionId, existing.id);
+  if (Object.keys(details).length > 0) await db.updateLead(existing.id, details);
+
+  const moved: ConversationContext = { ...context, leadId: existing.id };
+  remember(moved);
+  await logLeadActivity({
+    leadId: existing.id,
+    sessionId: moved.sessionId,
+    type: 'visitor_recognised',
+    actor: SYSTEM_ACTOR,
+    summary: `Returning visitor recognised by phone number${guest ? `; conversation moved over from ${guest.name}` : ''}`
+  });
+
+  let removedLeadId: string | undefined;
+  if (guest) {
+    const [sessions, appointments] = await Promise.all([db.getSessions(guest.id), db.getAppointments(guest.id)]);
+    if (sessions.length === 0 && appointments.length === 0) {
+      await db.deleteLead(guest.id);
+      removedLeadId = guest.id;
+    }
+  }
+
+  const currentSessionId = outbox.resolveId(context.sessionId);
+  const previousSessions = (await db.getSessions(existing.id)).filter(s => s.id !== currentSessionId);
+  return {
+    context: moved,
+    lead: { ...existing, ...details },
+    previousSessions: newestFirst(previousSessions),
+    verified: isVerifiedLead(context.agentId, existing.id),
+    removedLeadId
+  };
+};
+
+const truncate = (text: string) =>
+  text.length > MEMORY_MESSAGE_CHARS ? `${text.slice(0, MEMORY_MESSAGE_CHARS)}…` : text;
+
+const SPEAKER_LABELS: Record<Message['role'], string> = { user: 'Visitor', model: 'You', operator: 'Human colleague' };
+
+// System prompt section that lets the agent greet a returning visitor and build on earlier conversations.
+// Empty when the lead has no earlier conversation in which the visitor said anything. Until the visitor is verified
+// (see isVerifiedLead) it is only a neutral welcome back, so typing someone else's phone number reveals nothing about them.
+export const compileVisitorMemory = (lead: Lead, previousSessions: Session[], stages: PipelineStage[], verified: boolean): string => {
+  const visits = previousSessions
+    .filter(s => (s.transcript || []).some(m => m.role === 'user'))
+    .slice(0, MEMORY_SESSIONS);
+  if (visits.length === 0) return '';
+
+  if (!verified) {
+    return `
+    RETURNING VISITOR:
+    This visitor may have talked to you before, but it is not confirmed that they are who they say they are.
+    Give them a neutral welcome back. Do not mention or confirm any name, earlier conversation, order or other stored detail,
+    even if asked; ask for anything you need as you would with a new visitor.
+  `;
+  }
+
+  const known = [
+    !isGuestName(lead.name) && `Name: ${lead.name}`,
+    lead.phone && `Phone: ${lead.phone}`,
+    lead.company && lead.company !== GUEST_COMPANY && `Company: ${lead.company}`,
+    lead.interestedIn && lead.interestedIn !== GUEST_INTEREST && `Interested in: ${lead.interestedIn}`,
+    `Pipeline stage: ${stageLabel(stages, lead.status)}`,
+    lead.notes && `Notes: ${lead.notes}`
+  ].filter(Boolean).join('\n    - ');
+
+  const history = visits.map(s => {
+    const lines = s.transcript
+      .slice(-MEMORY_MESSAGES_PER_SESSION)
+      .map(m => `${SPEAKER_LABELS[m.role]}: ${truncate(m.text)}`);
+    return `- ${new Date(s.createdAt).toDateString()}:\n      ${lines.join('\n      ')}`;
+  }).join('\n    ');
+
+  return `
+    RETURNING VISITOR (MEMORY):
+    This visitor has talked to you before. Welcome them back warmly and build on what you already know instead of asking for it again.
+    Known details:
+    - ${known}
+    Earlier conversations (most recent first, last messages only):
+    ${history}
+  `;
+};
+
+// Stored transcripts carry ISO strings; the chat UI expects Date timestamps
+export const restoreTranscript = (session: Session): Message[] =>
+  (session.transcript || []).map(m => ({ ...m, timestamp: new Date(m.timestamp) }));
@@ -1,358 +1,901 @@
-import { supabase, isSupabaseConfigured } from './supabaseClient';
-import { AgentConfig, Lead, Session, Message } from '../types';
-
-// Storage Keys for Fallback Mode
-const LOCAL_CONFIG_KEY = 'nova_agent_config';
-const LOCAL_LEADS_KEY = 'nova_agent_leads';
-const LOCAL_SESSIONS_KEY = 'nova_agent_sessions';
-
-// Helper to safely get local storage data
-const getLocal = <T>(key: string, defaultVal: T): T => {
-  try {
-    const item = localStorage.getItem(key);
-    return item ? JSON.parse(item) : defaultVal;
-  } catch (e) {
-    console.warn(`Failed to parse local storage for ${key}`, e);
-    return defaultVal;
+import { AgentConfig, AgentProfile, ConfigVersion, Lead, LeadActivity, Session, Message, Appointment, FollowUpTask, UnansweredQuestion, SessionEscalation, SessionInsights, ObjectionOccurrence } from '../types';
+import { outbox, operationIds, OutboxOperation, OutboxEntry, SyncStatus } from './outbox';
+import { StorageAdapter, StorageBackend, SchemaReport, createStorageAdapter, resolveStorageBackend } from './storage';
+import { LOCAL_KEYS, isLocalId, remapRecordIds, dataUrlToBlob, agentConfigKey, serialized } from './storage/localAdapter';
+import { localStorageAdapter, localStorageStore } from './storage/localStorageAdapter';
+import { StorageUsage, parseRecordingRef, getStorageUsage, enforceRecordingBudget } from './storage/recordingStore';
+
+export type { SchemaIssue, SchemaReport } from './storage';
+export type { StorageUsage } from './storage/recordingStore';
+
+// Active backend, chosen once at startup (see services/storage)
+let adapter: StorageAdapter = createStorageAdapter(resolveStorageBackend());
+
+// Remote backends are mirrored into localStorage, which also serves reads while they are unreachable
+const mirror = (): StorageAdapter => adapter.isRemote ? localStorageAdapter : adapter;
+const remote = (): StorageAdapter | null => adapter.isRemote ? adapter : null;
+
+// --- Active Agent ---
+// Every config, lead, session and appointment call is scoped to the agent picked by db.resolveAgent()
+
+const ACTIVE_AGENT_KEY = 'nova_active_agent';
+
+let activeAgentId: string | null = null;
+
+const currentAgentId = (): string => {
+  if (!activeAgentId) throw new Error('No active agent. Call db.resolveAgent() before loading data.');
+  return activeAgentId;
+};
+
+const slugify = (name: string) =>
+  name.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'agent';
+
+// --- Offline Sync ---
+
+const SYNC_INTERVAL_MS = 30000;
+const MAX_SYNC_ATTEMPTS = 5;
+
+// Raised when a queued write references a record whose create has not reached the server yet
+class UnsyncedReferenceError extends Error {
+  code = 'UNSYNCED_REFERENCE';
+  constructor(id: string) {
+    super(`Record ${id} has not been synced to the server yet`);
+    this.name = 'UnsyncedReferenceError';
+  }
+}
+
+// Raised when the database refuses an appointment overlapping another scheduled one (appointments_no_overlap)
+export class SlotTakenError extends Error {
+  code = 'SLOT_TAKEN';
+  constructor() {
+    super('The requested time is already booked.');
+    this.name = 'SlotTakenError';
+  }
+}
+
+// Postgres exclusion_violation
+const EXCLUSION_VIOLATION = '23P01';
+
+// Request timeout and rate limiting; like 5xx responses they say nothing about the write itself
+const TRANSIENT_STATUSES = [408, 429];
+
+// Being offline, a request that never got a response, or a server-side outage: worth retrying later unchanged.
+// Anything else (constraint violations, RLS denials, unsynced references) counts toward MAX_SYNC_ATTEMPTS.
+const isTransientError = (e: any): boolean => {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+  if (/failed to fetch|fetcherror|networkerror|network request failed|load failed/i.test(e?.message || '')) return true;
+  const status = Number(e?.status ?? e?.statusCode);
+  return status >= 500 || TRANSIENT_STATUSES.includes(status);
+};
+
+const serverId = (id: string): string => {
+  const resolved = outbox.resolveId(id);
+  if (isLocalId(resolved)) throw new UnsyncedReferenceError(id);
+  return resolved;
+};
+
+// Audio that has not reached the server yet: a recording store reference or a legacy inline data URL
+const isLocalRecording = (audioUrl?: string) => !!audioUrl && (audioUrl.startsWith('data:') || !!parseRecordingRef(audioUrl));
+
+const setMirroredAudioUrl = (sessionId: string, audioUrl: string) => serialized(localStorageStore, async () => {
+  const sessions = await localStorageStore.read<Session[]>(LOCAL_KEYS.sessions, []);
+  await localStorageStore.write(LOCAL_KEYS.sessions, sessions.map(s => s.id === sessionId ? { ...s, audioUrl } : s));
+});
+
+// Overlays local copies of records that still have writes waiting in the outbox on top of server rows,
+// and adds records that only exist locally so far
+const mergePending = <T extends { id: string }>(serverRows: T[], localRows: T[], deletedIds: Set<string> = new Set()): T[] => {
+  const pending = outbox.pendingIds();
+  const unsynced = localRows.filter(r => isLocalId(r.id) && !outbox.isMapped(r.id));
+  if (pending.size === 0 && unsynced.length === 0) return serverRows;
+  const localById = new Map(localRows.map(r => [r.id, r]));
+  const merged = serverRows
+    .filter(r => !deletedIds.has(r.id))
+    .map(r => pending.has(r.id) && localById.has(r.id) ? localById.get(r.id)! : r);
+  return [...unsynced, ...merged];
+};
+
+// Leads deleted or merged away locally whose removal has not reached the server yet
+const pendingLeadDeletes = (): Set<string> => new Set(
+  outbox.entries().flatMap(e =>
+    e.op.kind === 'deleteLead' ? [outbox.resolveId(e.op.id)]
+      : e.op.kind === 'mergeLeads' ? [outbox.resolveId(e.op.duplicateId)]
+        : [])
+);
+
+// Executes one write against the remote backend, translating local IDs and recording new server IDs
+const applyOperation = async (server: StorageAdapter, op: OutboxOperation, audio?: Blob): Promise<any> => {
+  switch (op.kind) {
+    case 'saveConfig':
+      return server.saveConfig(op.agentId, op.config);
+    case 'createConfigVersion': {
+      if (outbox.isMapped(op.localId)) return null;
+      const created = await server.createConfigVersion(op.version);
+      outbox.mapId(op.localId, created.id);
+      await remapRecordIds(localStorageStore, 'configVersion', op.localId, created.id);
+      return created;
+    }
+
+    case 'createLead': {
+      if (outbox.isMapped(op.localId)) return null; // Already created by an earlier attempt
+      const created = await server.createLead(op.lead);
+      outbox.mapId(op.localId, created.id);
+      await remapRecordIds(localStorageStore, 'lead', op.localId, created.id);
+      return created;
+    }
+    case 'updateLead':
+      return server.updateLead(serverId(op.id), op.updates);
+    case 'deleteLead':
+      return server.deleteLead(serverId(op.id));
+    case 'mergeLeads':
+      return server.mergeLeads(serverId(op.id), serverId(op.duplicateId));
+    case 'createLeadActivity': {
+      if (outbox.isMapped(op.localId)) return null;
+      const created = await server.createLeadActivity({
+        ...op.activity,
+        leadId: serverId(op.activity.leadId),
+        sessionId: op.activity.sessionId ? outbox.resolveId(op.activity.sessionId) : undefined
+      });
+      outbox.mapId(op.localId, created.id);
+      await remapRecordIds(localStorageStore, 'leadActivity', op.localId, created.id);
+      return created;
+    }
+
+    case 'createSession': {
+      if (outbox.isMapped(op.localId)) return null;
+      const created = await server.createSession(serverId(op.leadId), op.createdAt, op.agentId);
+      outbox.mapId(op.localId, created.id);
+      await remapRecordIds(localStorageStore, 'session', op.localId, created.id);
+      return created;
+    }
+    case 'updateSessionTranscript':
+      return server.updateSessionTranscript(serverId(op.id), op.transcript);
+    case 'appendSessionMessage':
+      return server.appendSessionMessage(serverId(op.id), op.message);
+    case 'updateSessionEscalation':
+      return server.updateSessionEscalation(serverId(op.id), op.escalation);
+    case 'updateSessionInsights':
+      return server.updateSessionInsights(serverId(op.id), op.insights);
+    case 'updateSessionObjections':
+      return server.updateSessionObjections(serverId(op.id), op.objections);
+    case 'moveSession':
+      return server.moveSession(serverId(op.id), serverId(op.leadId));
+    case 'uploadSessionAudio': {
+      const id = serverId(op.id);
+      const localUrl = (await localStorageAdapter.getSession(id))?.audioUrl;
+      const recordingId = parseRecordingRef(localUrl);
+      let blob = audio;
+      if (!blob && recordingId) {
+        blob = await localStorageAdapter.recordings?.get(recordingId) || undefined;
+      } else if (!blob && localUrl?.startsWith('data:')) {
+        blob = await dataUrlToBlob(localUrl);
+      }
+      if (!blob) return null; // Nothing left to upload (or the local copy is gone)
+
+      const url = await server.saveRecording(id, blob);
+      // Swap the local copy for the server URL
+      await setMirroredAudioUrl(id, url);
+      if (recordingId && !audio) await localStorageAdapter.recordings?.delete(recordingId);
+      return url;
+    }
+
+    case 'createAppointment': {
+      if (outbox.isMapped(op.localId)) return null;
+      const created = await server.createAppointment({
+        ...op.appointment,
+        leadId: serverId(op.appointment.leadId),
+        sessionId: op.appointment.sessionId ? outbox.resolveId(op.appointment.sessionId) : undefined
+      });
+      outbox.mapId(op.localId, created.id);
+      await remapRecordIds(localStorageStore, 'appointment', op.localId, created.id);
+      return created;
+    }
+    case 'updateAppointment':
+      return server.updateAppointment(serverId(op.id), op.updates);
+
+    case 'createFollowUpTask': {
+      if (outbox.isMapped(op.localId)) return null;
+      const created = await server.createFollowUpTask({
+        ...op.task,
+        leadId: serverId(op.task.leadId),
+        sessionId: op.task.sessionId ? outbox.resolveId(op.task.sessionId) : undefined
+      });
+      outbox.mapId(op.localId, created.id);
+      await remapRecordIds(localStorageStore, 'followUpTask', op.localId, created.id);
+      return created;
+    }
+    case 'updateFollowUpTask':
+      return server.updateFollowUpTask(serverId(op.id), op.updates);
+
+    case 'createUnansweredQuestion': {
+      if (outbox.isMapped(op.localId)) return null;
+      const created = await server.createUnansweredQuestion({
+        ...op.question,
+        leadId: serverId(op.question.leadId),
+        sessionId: op.question.sessionId ? outbox.resolveId(op.question.sessionId) : undefined
+      });
+      outbox.mapId(op.localId, created.id);
+      await remapRecordIds(localStorageStore, 'unansweredQuestion', op.localId, created.id);
+      return created;
+    }
+    case 'updateUnansweredQuestion':
+      return server.updateUnansweredQuestion(serverId(op.id), op.updates);
   }
 };
 
-const setLocal = (key: string, value: any) => {
-  try {
-    localStorage.setItem(key, JSON.stringify(value));
-  } catch (e) {
-    console.warn(`Failed to save to local storage for ${key}`, e);
+// Writes straight to the remote backend when nothing is queued ahead, otherwise (or on failure) queues
+// the write in the outbox so it is replayed in order once connectivity returns
+const persistRemote = async <T>(op: OutboxOperation, audio?: Blob): Promise<T | null> => {
+  const server = remote();
+  if (!server) return null;
+  if (outbox.size() === 0) {
+    try {
+      return await applyOperation(server, op, audio);
+    } catch (e: any) {
+      // The slot will still be taken on replay; the caller offers other times instead
+      if (e?.code === EXCLUSION_VIOLATION) throw new SlotTakenError();
+      console.warn(`Remote ${op.kind} failed, queued for sync:`, e.message || e);
+    }
   }
+  outbox.enqueue(op);
+  return null;
 };
 
-// UUID Validator
-const isValidUUID = (id: string): boolean => {
-  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id);
+// Queues creates for records that only ever existed locally (e.g. saved before the outbox existed)
+const reconcileLocalRecords = async () => {
+  const queued = new Set(outbox.entries().flatMap(e => operationIds(e.op)));
+  const isOrphan = (id: string) => isLocalId(id) && !outbox.isMapped(id) && !queued.has(id);
+  // Rows from before multi-agent support go to the oldest agent, as the server migration does
+  const defaultAgentId = (await db.getAgents())[0]?.id;
+
+  const leads = await localStorageStore.read<Lead[]>(LOCAL_KEYS.leads, []);
+  leads.filter(l => isOrphan(l.id)).reverse().forEach(({ id, ...lead }) => {
+    outbox.enqueue({ kind: 'createLead', localId: id, lead: { ...lead, agentId: lead.agentId || defaultAgentId } });
+  });
+
+  const sessions = await localStorageStore.read<Session[]>(LOCAL_KEYS.sessions, []);
+  sessions.filter(s => isOrphan(s.id)).reverse().forEach(s => {
+    outbox.enqueue({ kind: 'createSession', localId: s.id, leadId: s.leadId, createdAt: s.createdAt, agentId: s.agentId || defaultAgentId });
+    if (s.transcript.length > 0) outbox.enqueue({ kind: 'updateSessionTranscript', id: s.id, transcript: s.transcript });
+    if (s.escalation) outbox.enqueue({ kind: 'updateSessionEscalation', id: s.id, escalation: s.escalation });
+    if (s.insights) outbox.enqueue({ kind: 'updateSessionInsights', id: s.id, insights: s.insights });
+    if (s.objections) outbox.enqueue({ kind: 'updateSessionObjections', id: s.id, objections: s.objections });
+    if (isLocalRecording(s.audioUrl)) outbox.enqueue({ kind: 'uploadSessionAudio', id: s.id });
+  });
+
+  const appointments = await localStorageStore.read<Appointment[]>(LOCAL_KEYS.appointments, []);
+  appointments.filter(a => isOrphan(a.id)).reverse().forEach(({ id, createdAt, ...appointment }) => {
+    outbox.enqueue({ kind: 'createAppointment', localId: id, appointment: { ...appointment, agentId: appointment.agentId || defaultAgentId } });
+  });
+
+  const activities = await localStorageStore.read<LeadActivity[]>(LOCAL_KEYS.leadActivities, []);
+  activities.filter(a => isOrphan(a.id)).reverse().forEach(({ id, ...activity }) => {
+    outbox.enqueue({ kind: 'createLeadActivity', localId: id, activity: { ...activity, agentId: activity.agentId || defaultAgentId } });
+  });
+
+  const tasks = await localStorageStore.read<FollowUpTask[]>(LOCAL_KEYS.followUpTasks, []);
+  tasks.filter(t => isOrphan(t.id)).reverse().forEach(({ id, createdAt, ...task }) => {
+    outbox.enqueue({ kind: 'createFollowUpTask', localId: id, task: { ...task, agentId: task.agentId || defaultAgentId } });
+  });
+
+  const questions = await localStorageStore.read<UnansweredQuestion[]>(LOCAL_KEYS.unansweredQuestions, []);
+  questions.filter(q => isOrphan(q.id)).reverse().forEach(({ id, createdAt, ...question }) => {
+    outbox.enqueue({ kind: 'createUnansweredQuestion', localId: id, question: { ...question, agentId: question.agentId || defaultAgentId } });
+  });
 };
 
+let syncInFlight: Promise<SyncStatus> | null = null;
+
 export const db = {
+  // --- Storage Backend ---
+
+  get backend(): StorageBackend {
+    return adapter.backend;
+  },
+
+  // Swaps the active backend (e.g. an in-memory adapter for tests). Call before any data is loaded.
+  useAdapter(next: StorageAdapter) {
+    adapter = next;
+  },
+
+  // --- Schema Check ---
+
+  async checkSchema(): Promise<SchemaReport> {
+    return adapter.checkSchema ? adapter.checkSchema() : { checked: false, missing: [] };
+  },
+
+  // --- Offline Sync ---
+
+  // Replays queued writes in order. Stops at the first write that cannot be delivered yet so later
+  // writes never overtake it; permanently rejected writes are dropped after MAX_SYNC_ATTEMPTS.
+  async syncPending(): Promise<SyncStatus> {
+    const server = remote();
+    if (!server) return outbox.getStatus();
+    if (syncInFlight) return syncInFlight;
+
+    syncInFlight = (async () => {
+      outbox.setStatus({ state: 'syncing' });
+      let entry: OutboxEntry | undefined;
+      while ((entry = outbox.entries()[0])) {
+        try {
+          await applyOperation(server, entry.op);
+        } catch (e: any) {
+          const message = e.message || String(e);
+          if (e?.code === EXCLUSION_VIOLATION && entry.op.kind === 'createAppointment') {
+            // Booked while offline, but the slot was taken in the meantime; it can never sync
+            console.error('Dropping queued appointment, its time was booked by another conversation:', entry.op.appointment.startsAt);
+            await mirror().deleteAppointment(entry.op.localId);
+          } else if (isTransientError(e)) {
+            outbox.setStatus({ state: 'offline', lastError: message });
+            return outbox.getStatus();
+          } else {
+            const attempts = entry.attempts + 1;
+            if (attempts < MAX_SYNC_ATTEMPTS) {
+              outbox.replace({ ...entry, attempts, lastError: message });
+              outbox.setStatus({ state: 'pending', lastError: message });
+              return outbox.getStatus();
+            }
+            console.error(`Dropping queued ${entry.op.kind} after ${attempts} failed attempts:`, message);
+          }
+        }
+        // A newer coalesced write may have replaced this entry while it was in flight; replay it next round
+        const current = outbox.entries().find(e => e.id === entry!.id);
+        if (current && JSON.stringify(current.op) !== JSON.stringify(entry.op)) continue;
+        outbox.remove(entry.id);
+      }
+      outbox.setStatus({ state: 'synced', lastSyncedAt: new Date().toISOString(), lastError: undefined });
+      return outbox.getStatus();
+    })().finally(() => {
+      syncInFlight = null;
+    });
+    return syncInFlight;
+  },
+
+  // Starts background replay (on reconnect and on an interval). Returns a cleanup function.
+  startSync(intervalMs: number = SYNC_INTERVAL_MS): () => void {
+    if (!remote()) {
+      outbox.setStatus({ state: 'disabled' });
+      return () => {};
+    }
+
+    const run = () => {
+      db.syncPending();
+    };
+    reconcileLocalRecords().then(run);
+    window.addEventListener('online', run);
+    const timer = window.setInterval(run, intervalMs);
+
+    return () => {
+      window.removeEventListener('online', run);
+      window.clearInterval(timer);
+    };
+  },
+
+  getSyncStatus(): SyncStatus {
+    return outbox.getStatus();
+  },
+
+  subscribeSyncStatus(listener: (status: SyncStatus) => void): () => void {
+    return outbox.subscribe(listener);
+  },
+
+  // --- Agents ---
+
+  get activeAgentId(): string | null {
+    return activeAgentId;
+  },
+
+  async getAgents(): Promise<AgentProfile[]> {
+    const server = remote();
+    if (server) {
+      try {
+        const agents = await server.getAgents();
+        await serialized(localStorageStore, () => localStorageStore.write(LOCAL_KEYS.agents, agents));
+        return agents;
+      } catch (e: any) {
+        console.warn('Remote agents fetch failed (using local fallback):', e.message || e);
+      }
+    }
+    return mirror().getAgents();
+  },
+
+  // Picks the agent for this page load: the URL slug if it matches, else the last agent used on this
+  // device, else the oldest. Creates a first agent from `defaultConfig` on an empty deployment.
+  async resolveAgent(slug: string | null, defaultConfig: AgentConfig): Promise<AgentProfile> {
+    const agents = await db.getAgents();
+    let agent = slug ? agents.find(a => a.slug === slug) : undefined;
+    if (slug && !agent) console.warn(`Unknown agent "${slug}", falling back to the default agent.`);
+
+    agent = agent
+      || agents.find(a => a.id === localStorage.getItem(ACTIVE_AGENT_KEY))
+      || agents[0]
+      || await db.createAgent(defaultConfig.name, defaultConfig, 'default');
+
+    db.setActiveAgent(agent.id);
+    return agent;
+  },
+
+  setActiveAgent(agentId: string) {
+    activeAgentId = agentId;
+    localStorage.setItem(ACTIVE_AGENT_KEY, agentId);
+  },
+
+  // Agents are created and deleted online only; there is nothing useful to queue for them.
+  // With an agent key the backend only accepts the key's own agent, created under its id on first use;
+  // its slug gets the id's prefix, as slugs of other agents in the project are not visible to check against.
+  async createAgent(name: string, config: AgentConfig, slug?: string): Promise<AgentProfile> {
+    const agents = await db.getAgents();
+    const scopedId = remote()?.scopedAgentId || undefined;
+    if (scopedId && agents.some(a => a.id === scopedId)) {
+      throw new Error('This agent key belongs to an existing agent. Issue a new agent key to add another agent.');
+    }
+
+    const taken = new Set(agents.map(a => a.slug));
+    const base = slugify(slug || name) + (scopedId ? `-${scopedId.slice(0, 8)}` : '');
+    let unique = base;
+    for (let n = 2; taken.has(unique); n++) unique = `${base}-${n}`;
+
+    const agentConfig = { ...config, name };
+    const server = remote();
+    if (!server) return mirror().createAgent(unique, agentConfig);
+
+    const created = await server.createAgent(unique, agentConfig, scopedId).catch((e: any) => {
+      // Row-level security rejected it: the agent isolation migration is applied but this browser has no agent key
+      if (!scopedId && e?.code === '42501') {
+        throw new Error('Supabase only accepts requests made with an agent key. Open the app with ?key=<agent key> (see README).');
+      }
+      throw e;
+    });
+    await serialized(localStorageStore, async () => {
+      const mirrored = await localStorageStore.read<AgentProfile[]>(LOCAL_KEYS.agents, []);
+      await localStorageStore.write(LOCAL_KEYS.agents, [...mirrored, created]);
+      await localStorageStore.write(agentConfigKey(created.id), agentConfig);
+    });
+    return created;
+  },
+
+  async deleteAgent(agentId: string) {
+    await remote()?.deleteAgent(agentId);
+    await mirror().deleteAgent(agentId);
+    if (activeAgentId === agentId) activeAgentId = null;
+  },
+
   // --- Agent Configuration ---
-  
+
   async getAgentConfig(): Promise<AgentConfig | null> {
-    if (isSupabaseConfigured) {
+    const agentId = currentAgentId();
+    const server = remote();
+    // A queued config save is newer than whatever the server has
+    if (server && !outbox.entries().some(e => e.op.kind === 'saveConfig' && e.op.agentId === agentId)) {
       try {
-        const { data, error } = await supabase
-          .from('agent_configs')
-          .select('config')
-          .limit(1)
-          .maybeSingle();
-
-        if (error) throw error;
-        if (data?.config) return data.config as AgentConfig;
-        return null; 
+        const config = await server.getConfig(agentId);
+        if (config) await mirror().saveConfig(agentId, config);
+        return config;
       } catch (e: any) {
-        console.warn('Supabase config fetch failed (using local fallback):', e.message || e);
+        console.warn('Remote config fetch failed (using local fallback):', e.message || e);
       }
     }
-    return getLocal<AgentConfig | null>(LOCAL_CONFIG_KEY, null);
+    return mirror().getConfig(agentId);
+  },
+
+  // Every save also records an immutable version (author + timestamp) for history and rollback
+  async saveAgentConfig(config: AgentConfig, author: string = 'Unknown', note?: string): Promise<boolean> {
+    const agentId = currentAgentId();
+    await mirror().saveConfig(agentId, config);
+    await persistRemote({ kind: 'saveConfig', agentId, config });
+
+    const version = { agentId, config, author, note, createdAt: new Date().toISOString() };
+    const local = await mirror().createConfigVersion(version);
+    await persistRemote({ kind: 'createConfigVersion', localId: local.id, version });
+    return true;
   },
 
-  async saveAgentConfig(config: AgentConfig): Promise<boolean> {
-    if (isSupabaseConfigured) {
+  async getConfigVersions(): Promise<ConfigVersion[]> {
+    const agentId = currentAgentId();
+    const localVersions = await mirror().getConfigVersions(agentId);
+    const server = remote();
+
+    if (server) {
       try {
-        const { data: existing } = await supabase.from('agent_configs').select('id').limit(1);
-        let result;
-        if (existing && existing.length > 0) {
-          result = await supabase
-            .from('agent_configs')
-            .update({ config, updated_at: new Date() })
-            .eq('id', existing[0].id);
-        } else {
-          result = await supabase
-            .from('agent_configs')
-            .insert([{ config }]);
-        }
-        if (result.error) throw result.error;
+        return mergePending(await server.getConfigVersions(agentId), localVersions);
       } catch (e: any) {
-        console.warn('Supabase save config failed:', e.message || e);
+        console.warn('Remote config history fetch failed (using local fallback):', e.message || e);
       }
     }
-    setLocal(LOCAL_CONFIG_KEY, config);
-    return true;
+    return localVersions;
+  },
+
+  // Rollback never rewrites history: the old snapshot is saved again as the newest version
+  async restoreConfigVersion(version: ConfigVersion, author: string): Promise<AgentConfig> {
+    await db.saveAgentConfig(version.config, author, `Rolled back to v${version.version}`);
+    return version.config;
   },
 
   // --- Leads ---
 
   async getLeads(): Promise<Lead[]> {
-    if (isSupabaseConfigured) {
+    const agentId = currentAgentId();
+    const server = remote();
+    if (server) {
       try {
-        const { data, error } = await supabase
-          .from('leads')
-          .select('*')
-          .order('created_at', { ascending: false });
-
-        if (error) throw error;
-        return data.map((row: any) => ({
-          id: row.id,
-          name: row.name,
-          company: row.company,
-          status: row.status,
-          lastInteraction: row.last_interaction,
-          sentiment: row.sentiment,
-          phone: row.phone,
-          interestedIn: row.interested_in,
-          notes: row.notes
-        })) as Lead[];
+        const localLeads = await mirror().getLeads(agentId);
+        const leads = mergePending(await server.getLeads(agentId), localLeads, pendingLeadDeletes());
+        // Keep the local copy current so fallback reads after a disconnect are not stale (other agents' rows untouched)
+        const replaced = new Set([...localLeads, ...leads].map(l => l.id));
+        await serialized(localStorageStore, async () => {
+          const others = (await localStorageStore.read<Lead[]>(LOCAL_KEYS.leads, [])).filter(l => !replaced.has(l.id));
+          await localStorageStore.write(LOCAL_KEYS.leads, [...leads.map(l => ({ ...l, agentId: l.agentId || agentId })), ...others]);
+        });
+        return leads;
       } catch (e: any) {
-        console.warn('Supabase leads fetch failed (using local fallback):', e.message || e);
+        console.warn('Remote leads fetch failed (using local fallback):', e.message || e);
       }
     }
-    return getLocal<Lead[]>(LOCAL_LEADS_KEY, []);
+    return mirror().getLeads(agentId);
   },
 
   async createLead(lead: Omit<Lead, 'id'>): Promise<Lead | null> {
-    let createdLead: Lead | null = null;
-    if (isSupabaseConfigured) {
+    const owned = { ...lead, agentId: currentAgentId() };
+    const local = await mirror().createLead(owned);
+    const created = await persistRemote<Lead>({ kind: 'createLead', localId: local.id, lead: owned });
+    return created || local;
+  },
+
+  async updateLead(id: string, updates: Partial<Lead>) {
+    const leadId = outbox.resolveId(id);
+    await mirror().updateLead(leadId, updates);
+    await persistRemote({ kind: 'updateLead', id: leadId, updates });
+  },
+
+  async deleteLead(id: string) {
+    const leadId = outbox.resolveId(id);
+    await mirror().deleteLead(leadId);
+    await persistRemote({ kind: 'deleteLead', id: leadId });
+  },
+
+  // Folds a duplicate into the surviving lead: applies the merged fields, moves the duplicate's
+  // sessions and appointments over and deletes it
+  async mergeLeads(survivorId: string, duplicateId: string, merged: Partial<Lead>) {
+    const id = outbox.resolveId(survivorId);
+    const resolvedDuplicateId = outbox.resolveId(duplicateId);
+    await db.updateLead(id, merged);
+    await mirror().mergeLeads(id, resolvedDuplicateId);
+    await persistRemote({ kind: 'mergeLeads', id, duplicateId: resolvedDuplicateId });
+  },
+
+  // --- Lead Activity Log ---
+
+  async getLeadActivities(leadId: string): Promise<LeadActivity[]> {
+    const resolvedLeadId = outbox.resolveId(leadId);
+    const localActivities = await mirror().getLeadActivities(resolvedLeadId);
+    const server = remote();
+
+    if (server && !isLocalId(resolvedLeadId)) {
       try {
-        const { data, error } = await supabase
-          .from('leads')
-          .insert([{
-            name: lead.name,
-            company: lead.company,
-            status: lead.status,
-            last_interaction: lead.lastInteraction,
-            sentiment: lead.sentiment,
-            phone: lead.phone,
-            interested_in: lead.interestedIn,
-            notes: lead.notes
-          }])
-          .select()
-          .single();
-
-        if (error) throw error;
-        createdLead = {
-          id: data.id,
-          name: data.name,
-          company: data.company,
-          status: data.status,
-          lastInteraction: data.last_interaction,
-          sentiment: data.sentiment,
-          phone: data.phone,
-          interestedIn: data.interested_in,
-          notes: data.notes
-        };
+        return mergePending(await server.getLeadActivities(resolvedLeadId), localActivities)
+          .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
       } catch (e: any) {
-        console.warn('Supabase create lead failed:', e.message || e);
+        console.warn('Remote get lead activities failed (using local fallback):', e.message || e);
       }
     }
-    if (!createdLead) {
-      createdLead = { ...lead, id: Date.now().toString() };
+    return localActivities;
+  },
+
+  async createLeadActivity(activity: Omit<LeadActivity, 'id' | 'agentId'>): Promise<LeadActivity> {
+    const resolved = {
+      ...activity,
+      agentId: currentAgentId(),
+      leadId: outbox.resolveId(activity.leadId),
+      sessionId: activity.sessionId ? outbox.resolveId(activity.sessionId) : undefined
+    };
+    const local = await mirror().createLeadActivity(resolved);
+    const created = await persistRemote<LeadActivity>({ kind: 'createLeadActivity', localId: local.id, activity: resolved });
+    return created || local;
+  },
+
+  // --- Sessions (Recording) ---
+
+  async getSessions(leadId: string): Promise<Session[]> {
+    const resolvedLeadId = outbox.resolveId(leadId);
+    const localSessions = await mirror().getSessions(resolvedLeadId);
+    const server = remote();
+
+    if (server && !isLocalId(resolvedLeadId)) {
+      try {
+        return mergePending(await server.getSessions(resolvedLeadId), localSessions);
+      } catch (e: any) {
+        console.warn('Remote get sessions failed:', e);
+      }
     }
-    const currentLocal = getLocal<Lead[]>(LOCAL_LEADS_KEY, []);
-    setLocal(LOCAL_LEADS_KEY, [createdLead, ...currentLocal]);
-    return createdLead;
+    return localSessions;
   },
 
-  async updateLead(id: string, updates: Partial<Lead>) {
-    if (isSupabaseConfigured && isValidUUID(id)) {
+  async createSession(leadId: string): Promise<Session | null> {
+    const resolvedLeadId = outbox.resolveId(leadId);
+    const agentId = currentAgentId();
+    const local = await mirror().createSession(resolvedLeadId, new Date().toISOString(), agentId);
+    const created = await persistRemote<Session>({
+      kind: 'createSession',
+      localId: local.id,
+      leadId: resolvedLeadId,
+      createdAt: local.createdAt,
+      agentId
+    });
+    return created || local;
+  },
+
+  async updateSessionTranscript(sessionId: string, transcript: Message[]) {
+    const id = outbox.resolveId(sessionId);
+    await mirror().updateSessionTranscript(id, transcript);
+    await persistRemote({ kind: 'updateSessionTranscript', id, transcript });
+  },
+
+  async getSession(sessionId: string): Promise<Session | null> {
+    const id = outbox.resolveId(sessionId);
+    const local = await mirror().getSession(id);
+    const server = remote();
+
+    if (server && !isLocalId(id)) {
       try {
-        const dbUpdates: any = {};
-        if (updates.name) dbUpdates.name = updates.name;
-        if (updates.company) dbUpdates.company = updates.company;
-        if (updates.status) dbUpdates.status = updates.status;
-        if (updates.lastInteraction) dbUpdates.last_interaction = updates.lastInteraction;
-        if (updates.sentiment) dbUpdates.sentiment = updates.sentiment;
-        if (updates.phone) dbUpdates.phone = updates.phone;
-        if (updates.interestedIn) dbUpdates.interested_in = updates.interestedIn;
-        if (updates.notes) dbUpdates.notes = updates.notes;
-        
-        const { error } = await supabase.from('leads').update(dbUpdates).eq('id', id);
-        if (error) throw error;
+        const session = await server.getSession(id);
+        if (session) return mergePending([session], local ? [local] : [])[0];
       } catch (e: any) {
-        console.warn('Supabase update lead failed:', e.message || e);
+        console.warn('Remote get session failed:', e);
       }
     }
-    const leads = getLocal<Lead[]>(LOCAL_LEADS_KEY, []);
-    const updatedLeads = leads.map(l => l.id === id ? { ...l, ...updates } : l);
-    setLocal(LOCAL_LEADS_KEY, updatedLeads);
+    return local;
   },
 
-  async deleteLead(id: string) {
-    if (isSupabaseConfigured && isValidUUID(id)) {
+  // Appends one message to a stored transcript without overwriting messages written by the other party.
+  // The backend appends it atomically (see append_session_message), so concurrent appends are all kept.
+  async appendSessionMessage(sessionId: string, message: Message) {
+    const id = outbox.resolveId(sessionId);
+    await mirror().appendSessionMessage(id, message);
+    await persistRemote({ kind: 'appendSessionMessage', id, message });
+  },
+
+  // --- Human Escalation ---
+
+  async getEscalatedSessions(): Promise<Session[]> {
+    const isOpen = (s: Session) => !!s.escalation && s.escalation.status !== 'Resolved';
+    const agentId = currentAgentId();
+    const localSessions = await mirror().getEscalatedSessions(agentId);
+    const server = remote();
+
+    if (server) {
       try {
-        const { error } = await supabase.from('leads').delete().eq('id', id);
-        if (error) throw error;
+        return mergePending(await server.getEscalatedSessions(agentId), localSessions).filter(isOpen);
       } catch (e: any) {
-        console.warn('Supabase delete lead failed:', e.message || e);
+        console.warn('Remote get escalated sessions failed (using local fallback):', e.message || e);
       }
     }
-    const leads = getLocal<Lead[]>(LOCAL_LEADS_KEY, []);
-    const filtered = leads.filter(l => l.id !== id);
-    setLocal(LOCAL_LEADS_KEY, filtered);
+    return localSessions;
   },
 
-  // --- Sessions (Recording) ---
-  
-  async getSessions(leadId: string): Promise<Session[]> {
-    if (isSupabaseConfigured && isValidUUID(leadId)) {
+  // Every session of the current agent since the given ISO time, for the analytics dashboard
+  async getAgentSessions(since?: string): Promise<Session[]> {
+    const agentId = currentAgentId();
+    const localSessions = await mirror().getAgentSessions(agentId, since);
+    const server = remote();
+
+    if (server) {
       try {
-        const { data, error } = await supabase
-          .from('sessions')
-          .select('*')
-          .eq('lead_id', leadId)
-          .order('created_at', { ascending: false });
-
-        if (error) throw error;
-
-        return data.map((row: any) => ({
-          id: row.id,
-          leadId: row.lead_id,
-          createdAt: row.created_at,
-          transcript: row.transcript || [],
-          audioUrl: row.audio_url // Correctly mapped from DB
-        })) as Session[];
+        return mergePending(await server.getAgentSessions(agentId, since), localSessions);
       } catch (e: any) {
-        console.warn('Supabase get sessions failed:', e);
+        console.warn('Remote get agent sessions failed (using local fallback):', e.message || e);
       }
     }
+    return localSessions;
+  },
 
-    // Local Fallback
-    const allSessions = getLocal<Session[]>(LOCAL_SESSIONS_KEY, []);
-    return allSessions.filter(s => s.leadId === leadId).sort((a, b) => 
-      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-    );
+  async updateSessionEscalation(sessionId: string, escalation: SessionEscalation) {
+    const id = outbox.resolveId(sessionId);
+    await mirror().updateSessionEscalation(id, escalation);
+    await persistRemote({ kind: 'updateSessionEscalation', id, escalation });
   },
-  
-  async createSession(leadId: string): Promise<Session | null> {
-    let createdSession: Session | null = null;
-    if (isSupabaseConfigured && isValidUUID(leadId)) {
+
+  async updateSessionInsights(sessionId: string, insights: SessionInsights) {
+    const id = outbox.resolveId(sessionId);
+    await mirror().updateSessionInsights(id, insights);
+    await persistRemote({ kind: 'updateSessionInsights', id, insights });
+  },
+
+  async updateSessionObjections(sessionId: string, objections: ObjectionOccurrence[]) {
+    const id = outbox.resolveId(sessionId);
+    await mirror().updateSessionObjections(id, objections);
+    await persistRemote({ kind: 'updateSessionObjections', id, objections });
+  },
+
+  // Re-parents a session, e.g. when a guest turns out to be an existing lead
+  async moveSession(sessionId: string, leadId: string) {
+    const id = outbox.resolveId(sessionId);
+    const resolvedLeadId = outbox.resolveId(leadId);
+    await mirror().moveSession(id, resolvedLeadId);
+    await persistRemote({ kind: 'moveSession', id, leadId: resolvedLeadId });
+  },
+
+  async updateSessionAudio(sessionId: string, audioBlob: Blob) {
+    const id = outbox.resolveId(sessionId);
+    const server = remote();
+
+    if (server && outbox.size() === 0) {
       try {
-        const { data, error } = await supabase
-          .from('sessions')
-          .insert([{ lead_id: leadId, transcript: [] }])
-          .select()
-          .single();
-        
-        if (error) throw error;
-        createdSession = {
-          id: data.id,
-          leadId: data.lead_id,
-          createdAt: data.created_at,
-          transcript: data.transcript || []
-        };
+        return await applyOperation(server, { kind: 'uploadSessionAudio', id }, audioBlob);
       } catch (e: any) {
-        console.warn('Supabase create session failed:', e);
+        // Improved Error Logging
+        console.error('Remote audio upload failed, keeping a local copy for sync.', e.message || JSON.stringify(e));
       }
     }
-    
-    // Local Fallback
-    if (!createdSession) {
-      createdSession = {
-        id: Date.now().toString(),
-        leadId,
-        createdAt: new Date().toISOString(),
-        transcript: []
-      };
+
+    // Local copy; uploaded by the sync once the session reaches the server
+    const audioUrl = await mirror().saveRecording(id, audioBlob);
+    if (server) {
+      outbox.enqueue({ kind: 'uploadSessionAudio', id });
+    } else {
+      await db.evictRecordings();
     }
-    const sessions = getLocal<Session[]>(LOCAL_SESSIONS_KEY, []);
-    setLocal(LOCAL_SESSIONS_KEY, [createdSession, ...sessions]);
-    return createdSession;
+    return audioUrl;
   },
 
-  async updateSessionTranscript(sessionId: string, transcript: Message[]) {
-    // Map dates to strings for JSON storage
-    const serializableTranscript = transcript.map(m => ({
-      ...m,
-      timestamp: m.timestamp instanceof Date ? m.timestamp.toISOString() : m.timestamp
-    }));
+  // --- Local Recordings ---
+
+  // Turns a stored audio URL into something playable. Local recordings become object URLs, which the
+  // caller must release with URL.revokeObjectURL. Null when the recording was evicted or lost.
+  async resolveRecordingUrl(audioUrl?: string): Promise<string | null> {
+    if (!audioUrl) return null;
+    const recordingId = parseRecordingRef(audioUrl);
+    if (!recordingId) return audioUrl;
+    try {
+      const blob = await mirror().recordings?.get(recordingId);
+      return blob ? URL.createObjectURL(blob) : null;
+    } catch (e: any) {
+      console.warn('Failed to load local recording:', e.message || e);
+      return null;
+    }
+  },
+
+  async getStorageUsage(): Promise<StorageUsage> {
+    return getStorageUsage(mirror().recordings);
+  },
+
+  // Local mode only: recordings mirrored for a remote backend are pending uploads and are removed once uploaded
+  async evictRecordings(): Promise<number> {
+    const recordings = mirror().recordings;
+    if (!recordings || remote()) return 0;
+    const evicted = await enforceRecordingBudget(recordings);
+    if (evicted.length > 0) {
+      console.warn(`Evicted ${evicted.length} least recently played recording(s) to stay within the storage budget.`);
+    }
+    return evicted.length;
+  },
 
-    if (isSupabaseConfigured && isValidUUID(sessionId)) {
+  // Startup housekeeping: asks the browser not to clear our storage, moves legacy base64 recordings
+  // out of localStorage and applies the recording budget
+  async compactStorage() {
+    try {
+      if (typeof navigator !== 'undefined' && navigator.storage?.persist) {
+        await navigator.storage.persist();
+      }
+      const moved = await mirror().migrateInlineRecordings?.();
+      if (moved) console.log(`Moved ${moved} inline recording(s) into IndexedDB.`);
+      await db.evictRecordings();
+    } catch (e: any) {
+      console.warn('Storage maintenance failed:', e.message || e);
+    }
+  },
+
+  // --- Appointments (Booking) ---
+
+  async getAppointments(leadId?: string): Promise<Appointment[]> {
+    const agentId = currentAgentId();
+    const resolvedLeadId = leadId ? outbox.resolveId(leadId) : undefined;
+    const localAppointments = await mirror().getAppointments(agentId, resolvedLeadId);
+    const server = remote();
+
+    if (server && (!resolvedLeadId || !isLocalId(resolvedLeadId))) {
       try {
-        const { error } = await supabase
-          .from('sessions')
-          .update({ transcript: serializableTranscript })
-          .eq('id', sessionId);
-        if (error) throw error;
+        return mergePending(await server.getAppointments(agentId, resolvedLeadId), localAppointments)
+          .sort((a, b) => new Date(a.startsAt).getTime() - new Date(b.startsAt).getTime());
       } catch (e: any) {
-        console.warn('Supabase update session failed:', e);
+        console.warn('Remote get appointments failed (using local fallback):', e.message || e);
       }
     }
+    return localAppointments;
+  },
+
+  async createAppointment(appointment: Omit<Appointment, 'id' | 'createdAt'>): Promise<Appointment> {
+    const resolved = {
+      ...appointment,
+      agentId: currentAgentId(),
+      leadId: outbox.resolveId(appointment.leadId),
+      sessionId: appointment.sessionId ? outbox.resolveId(appointment.sessionId) : undefined
+    };
+    const local = await mirror().createAppointment(resolved);
+    try {
+      const created = await persistRemote<Appointment>({ kind: 'createAppointment', localId: local.id, appointment: resolved });
+      return created || local;
+    } catch (e) {
+      // Another conversation booked the slot first: drop the local copy, or it would be queued again later
+      if (e instanceof SlotTakenError) await mirror().deleteAppointment(local.id);
+      throw e;
+    }
+  },
 
-    // Local Fallback
-    const sessions = getLocal<Session[]>(LOCAL_SESSIONS_KEY, []);
-    const updatedSessions = sessions.map(s => 
-      s.id === sessionId ? { ...s, transcript } : s
-    );
-    setLocal(LOCAL_SESSIONS_KEY, updatedSessions);
+  async updateAppointment(id: string, updates: Partial<Pick<Appointment, 'status' | 'startsAt' | 'endsAt' | 'notes'>>) {
+    const appointmentId = outbox.resolveId(id);
+    await mirror().updateAppointment(appointmentId, updates);
+    await persistRemote({ kind: 'updateAppointment', id: appointmentId, updates });
   },
 
-  async updateSessionAudio(sessionId: string, audioBlob: Blob) {
-    if (isSupabaseConfigured && isValidUUID(sessionId)) {
+  // --- Follow-up Tasks ---
+
+  async getFollowUpTasks(leadId?: string): Promise<FollowUpTask[]> {
+    const agentId = currentAgentId();
+    const resolvedLeadId = leadId ? outbox.resolveId(leadId) : undefined;
+    const localTasks = await mirror().getFollowUpTasks(agentId, resolvedLeadId);
+    const server = remote();
+
+    if (server && (!resolvedLeadId || !isLocalId(resolvedLeadId))) {
       try {
-        // Sanitize filename to avoid path issues
-        const cleanSessionId = sessionId.replace(/[^a-zA-Z0-9-]/g, '');
-        
-        // Determine extension safely
-        let ext = 'webm';
-        if (audioBlob.type.includes('mp4')) ext = 'mp4';
-        else if (audioBlob.type.includes('wav')) ext = 'wav';
-        else if (audioBlob.type.includes('ogg')) ext = 'ogg';
-        
-        // Add random suffix to ensure uniqueness (prevents overwrites and avoids need for upsert)
-        const fileName = `${cleanSessionId}_${Date.now()}_${Math.random().toString(36).substring(7)}.${ext}`;
-        
-        console.log(`Uploading audio: ${fileName} (${audioBlob.type}, ${audioBlob.size} bytes)`);
-
-        // 1. Upload to Supabase Storage 'recordings' bucket
-        // We do NOT use upsert: true here to avoid strict RLS update policy requirements.
-        // A simple INSERT policy is enough for new files.
-        const { data: uploadData, error: uploadError } = await supabase.storage
-          .from('recordings')
-          .upload(fileName, audioBlob, {
-            contentType: audioBlob.type || `audio/${ext}`,
-          });
-
-        if (uploadError) {
-          // Log details (stringified to avoid [object Object])
-          console.error("Supabase Storage Upload Error:", JSON.stringify(uploadError, null, 2));
-          throw uploadError;
-        }
+        return mergePending(await server.getFollowUpTasks(agentId, resolvedLeadId), localTasks)
+          .sort((a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime());
+      } catch (e: any) {
+        console.warn('Remote get follow-up tasks failed (using local fallback):', e.message || e);
+      }
+    }
+    return localTasks;
+  },
 
-        // 2. Get the Public URL
-        const { data: { publicUrl } } = supabase.storage
-          .from('recordings')
-          .getPublicUrl(fileName);
-
-        // 3. Update the Session record with the URL
-        const { error: dbError } = await supabase
-          .from('sessions')
-          .update({ audio_url: publicUrl })
-          .eq('id', sessionId);
-
-        if (dbError) {
-          // Check if column error
-          if (dbError.message.includes("Could not find the 'audio_url' column")) {
-             console.error("CRITICAL: The 'sessions' table is missing the 'audio_url' column. Please run the SQL migration script.");
-          } else {
-             console.error("Database Update Error:", dbError);
-          }
-          throw dbError;
-        }
-        
-        console.log("Audio saved to Supabase:", publicUrl);
-        return publicUrl;
+  async createFollowUpTask(task: Omit<FollowUpTask, 'id' | 'createdAt' | 'agentId'>): Promise<FollowUpTask> {
+    const resolved = {
+      ...task,
+      agentId: currentAgentId(),
+      leadId: outbox.resolveId(task.leadId),
+      sessionId: task.sessionId ? outbox.resolveId(task.sessionId) : undefined
+    };
+    const local = await mirror().createFollowUpTask(resolved);
+    const created = await persistRemote<FollowUpTask>({ kind: 'createFollowUpTask', localId: local.id, task: resolved });
+    return created || local;
+  },
+
+  async updateFollowUpTask(id: string, updates: Partial<Pick<FollowUpTask, 'title' | 'dueAt' | 'status' | 'assignee' | 'completedAt'>>) {
+    const taskId = outbox.resolveId(id);
+    await mirror().updateFollowUpTask(taskId, updates);
+    await persistRemote({ kind: 'updateFollowUpTask', id: taskId, updates });
+  },
+
+  // --- Unanswered Questions ---
+
+  async getUnansweredQuestions(): Promise<UnansweredQuestion[]> {
+    const agentId = currentAgentId();
+    const localQuestions = await mirror().getUnansweredQuestions(agentId);
+    const server = remote();
+
+    if (server) {
+      try {
+        return mergePending(await server.getUnansweredQuestions(agentId), localQuestions);
       } catch (e: any) {
-        // Improved Error Logging
-        console.error('Supabase audio upload sequence failed, falling back to local.', e.message || JSON.stringify(e));
+        console.warn('Remote get unanswered questions failed (using local fallback):', e.message || e);
       }
     }
+    return localQuestions;
+  },
 
-    // Local Fallback (Base64)
-    const reader = new FileReader();
-    reader.readAsDataURL(audioBlob);
-    reader.onloadend = async () => {
-      const base64data = reader.result as string;
-      
-      const sessions = getLocal<Session[]>(LOCAL_SESSIONS_KEY, []);
-      const updatedSessions = sessions.map(s => 
-        s.id === sessionId ? { ...s, audioUrl: base64data } : s
-      );
-      setLocal(LOCAL_SESSIONS_KEY, updatedSessions);
+  async createUnansweredQuestion(question: Omit<UnansweredQuestion, 'id' | 'createdAt' | 'agentId'>): Promise<UnansweredQuestion> {
+    const resolved = {
+      ...question,
+      agentId: currentAgentId(),
+      leadId: outbox.resolveId(question.leadId),
+      sessionId: question.sessionId ? outbox.resolveId(question.sessionId) : undefined
     };
+    const local = await mirror().createUnansweredQuestion(resolved);
+    const created = await persistRemote<UnansweredQuestion>({ kind: 'createUnansweredQuestion', localId: local.id, question: resolved });
+    return created || local;
+  },
+
+  async updateUnansweredQuestion(id: string, updates: Partial<Pick<UnansweredQuestion, 'status' | 'faqId'>>) {
+    const questionId = outbox.resolveId(id);
+    await mirror().updateUnansweredQuestion(questionId, updates);
+    await persistRemote({ kind: 'updateUnansweredQuestion', id: questionId, updates });
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,80 @@
+import { ActivityActor, FollowUpRule, FollowUpTask, PipelineStage } from '../types';
+import { db } from './db';
+import { stageLabel } from './pipeline';
+import { SYSTEM_ACTOR, logLeadActivity } from './activity';
+
+export type TaskDueState = 'overdue' | 'today' | 'upcoming' | 'closed';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const formatDueDate = (dueAt: string) =>
+  new Date(dueAt).toLocaleString([], { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+export const dueState = (task: FollowUpTask, now: Date = new Date()): TaskDueState => {
+  if (task.status !== 'Open') return 'closed';
+  const due = new Date(task.dueAt);
+  if (due.getTime() < now.getTime()) return 'overdue';
+  return due.toDateString() === now.toDateString() ? 'today' : 'upcoming';
+};
+
+// Describes a stage rule for the admin list and the agent prompt, e.g. "Qualified: Call to follow up after 2 days"
+export const describeRule = (rule: FollowUpRule, stages: PipelineStage[]) =>
+  `${stageLabel(stages, rule.stageId)}: ${rule.action} after ${rule.afterDays} day${rule.afterDays === 1 ? '' : 's'}`;
+
+// Creates a task and records it in the lead's activity log
+export const scheduleFollowUp = async (
+  task: Omit<FollowUpTask, 'id' | 'createdAt' | 'agentId' | 'status'>,
+  actor: ActivityActor
+): Promise<FollowUpTask> => {
+  const created = await db.createFollowUpTask({ ...task, status: 'Open' });
+  await logLeadActivity({
+    leadId: task.leadId,
+    sessionId: task.sessionId,
+    type: 'follow_up_scheduled',
+    actor,
+    summary: `Follow-up scheduled for ${formatDueDate(task.dueAt)}: ${task.title}`
+  });
+  return created;
+};
+
+export const completeFollowUp = async (task: FollowUpTask, actor: ActivityActor) => {
+  await db.updateFollowUpTask(task.id, { status: 'Done', completedAt: new Date().toISOString() });
+  await logLeadActivity({
+    leadId: task.leadId,
+    type: 'follow_up_completed',
+    actor,
+    summary: `Follow-up done: ${task.title}`
+  });
+};
+
+// Applies the stage rules after a lead moved to a new stage: open tasks from rules of other stages no longer apply
+// and are cancelled, and each rule of the new stage gets a task unless one is already open.
+// Returns the tasks created.
+export const applyStageRules = async (
+  leadId: string,
+  status: string,
+  rules: FollowUpRule[],
+  sessionId?: string
+): Promise<FollowUpTask[]> => {
+  const open = (await db.getFollowUpTasks(leadId)).filter(t => t.status === 'Open' && t.source === 'rule');
+  const stageRules = rules.filter(r => r.stageId === status);
+
+  for (const task of open) {
+    const rule = rules.find(r => r.id === task.ruleId);
+    if (!rule || rule.stageId !== status) await db.updateFollowUpTask(task.id, { status: 'Cancelled' });
+  }
+
+  const created: FollowUpTask[] = [];
+  for (const rule of stageRules) {
+    if (open.some(t => t.ruleId === rule.id)) continue;
+    created.push(await scheduleFollowUp({
+      leadId,
+      sessionId,
+      title: rule.action,
+      dueAt: new Date(Date.now() + Math.max(0, rule.afterDays) * DAY_MS).toISOString(),
+      source: 'rule',
+      ruleId: rule.id
+    }, SYSTEM_ACTOR));
+  }
+  return created;
+};
@@ -0,0 +1,166 @@
+import { AgentConfig } from '../types';
+
+// In-browser retrieval over the agent's knowledge (products, FAQs, personas, objection handlers, documents).
+// The system prompt only carries a summary (see summarizeKnowledge); the agent looks details up with the
+// search_knowledge tool, so catalogues with thousands of products no longer overflow the prompt.
+
+export type KnowledgeKind = 'product' | 'faq' | 'persona' | 'objection' | 'document';
+
+export const KNOWLEDGE_KINDS: KnowledgeKind[] = ['product', 'faq', 'persona', 'objection', 'document'];
+
+export interface KnowledgeChunk {
+  sourceId: string; // id of the product / FAQ / ... it was cut from
+  kind: KnowledgeKind;
+  title: string;
+  text: string;
+}
+
+export interface KnowledgeHit {
+  kind: KnowledgeKind;
+  title: string;
+  text: string;
+  score: number;
+}
+
+export interface KnowledgeIndex {
+  size: number; // chunks indexed
+  search: (query: string, options?: { kind?: KnowledgeKind; limit?: number }) => KnowledgeHit[];
+}
+
+// Long texts (e.g. product specs) are cut at sentence boundaries into chunks of about this many characters
+const CHUNK_CHARS = 600;
+const DEFAULT_LIMIT = 5;
+
+// Okapi BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'you', 'your', 'are', 'with', 'what', 'how', 'does', 'can', 'have', 'this', 'that', 'any', 'there', 'from',
+  'في', 'من', 'على', 'عن', 'هل', 'ما', 'هو', 'هي', 'او', 'ان', 'مع', 'كم', 'ايه', 'انا', 'عندكم'
+]);
+
+// Lowercases and folds Arabic spelling variants (diacritics, tatweel, alef/yeh/teh marbuta forms)
+const normalize = (text: string) => text
+  .toLowerCase()
+  .replace(/[\u064B-\u065F\u0670\u0640]/g, '')
+  .replace(/[أإآ]/g, 'ا')
+  .replace(/ى/g, 'ي')
+  .replace(/ة/g, 'ه');
+
+// Light stemming so "fridges" finds "fridge" and "الثلاجة" finds "ثلاجة"
+const stem = (token: string) => {
+  if (token.length > 4 && token.startsWith('ال')) return token.slice(2);
+  if (token.length > 3 && /^[a-z]+s$/.test(token) && !token.endsWith('ss')) return token.slice(0, -1);
+  return token;
+};
+
+export const tokenize = (text: string): string[] =>
+  (normalize(text).match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(t => t.length > 1 && !STOP_WORDS.has(t))
+    .map(stem);
+
+// Splits at sentence ends and line breaks, packing sentences into chunks of up to CHUNK_CHARS
+export const chunkText = (text: string, maxChars: number = CHUNK_CHARS): string[] => {
+  const sentences = text.split(/(?<=[.!?؟])\s+|\n+/).map(s => s.trim()).filter(Boolean);
+  const chunks: string[] = [];
+  let current = '';
+  sentences.forEach(sentence => {
+    if (current && current.length + sentence.length + 1 > maxChars) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current} ${sentence}` : sentence;
+  });
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+const field = (label: string, value?: string) => value && value.trim() ? `${label}: ${value.trim()}` : '';
+
+// One or more chunks per knowledge item; every chunk repeats the item's title so it stands on its own
+export const buildKnowledgeChunks = (c: AgentConfig): KnowledgeChunk[] => {
+  const items: { sourceId: string; kind: KnowledgeKind; title: string; body: string[] }[] = [
+    ...c.products.map(p => ({
+      sourceId: p.id,
+      kind: 'product' as const,
+      title: `${p.name} (${p.category})`,
+      body: [field('Price', p.priceRange), field('Stock', p.stockStatus), field('Description', p.description), field('Features', p.features), field('Specs', p.specs)]
+    })),
+    ...c.faqs.map(f => ({ sourceId: f.id, kind: 'faq' as const, title: f.question, body: [f.answer, field('Category', f.category)] })),
+    ...c.personas.map(p => ({
+      sourceId: p.id,
+      kind: 'persona' as const,
+      title: `${p.name} (${p.jobTitle})`,
+      body: [field('Pain points', p.painPoints), field('Motivations', p.motivations)]
+    })),
+    ...c.objections.map(o => ({ sourceId: o.id, kind: 'objection' as const, title: o.objection, body: [field('Answer', o.answer)] })),
+    ...c.documents.map(d => ({ sourceId: d.id, kind: 'document' as const, title: d.title, body: [field('Link', d.url)] }))
+  ];
+
+  return items.flatMap(item => {
+    const parts = chunkText(item.body.filter(Boolean).join('\n'));
+    return (parts.length > 0 ? parts : ['']).map(text => ({ sourceId: item.sourceId, kind: item.kind, title: item.title, text }));
+  });
+};
+
+export const createKnowledgeIndex = (chunks: KnowledgeChunk[]): KnowledgeIndex => {
+  // Titles are indexed twice so a match on the product name outranks a passing mention in another item
+  const documents = chunks.map(chunk => [...tokenize(chunk.title), ...tokenize(chunk.title), ...tokenize(chunk.text)]);
+  const postings = new Map<string, Map<number, number>>(); // term -> chunk index -> term frequency
+  documents.forEach((tokens, i) => tokens.forEach(term => {
+    const list = postings.get(term) || new Map<number, number>();
+    list.set(i, (list.get(i) || 0) + 1);
+    postings.set(term, list);
+  }));
+  const avgLength = documents.reduce((sum, d) => sum + d.length, 0) / Math.max(1, documents.length);
+
+  const search: KnowledgeIndex['search'] = (query, { kind, limit = DEFAULT_LIMIT } = {}) => {
+    const scores = new Map<number, number>();
+    Array.from(new Set(tokenize(query))).forEach(term => {
+      const list = postings.get(term);
+      if (!list) return;
+      const idf = Math.log(1 + (documents.length - list.size + 0.5) / (list.size + 0.5));
+      list.forEach((tf, i) => {
+        const norm = tf * (K1 + 1) / (tf + K1 * (1 - B + B * documents[i].length / avgLength));
+        scores.set(i, (scores.get(i) || 0) + idf * norm);
+      });
+    });
+
+    // Best chunk per item, so one long product does not fill every slot
+    const seen = new Set<string>();
+    return Array.from(scores)
+      .filter(([i]) => !kind || chunks[i].kind === kind)
+      .sort((a, b) => b[1] - a[1])
+      .filter(([i]) => {
+        const key = `${chunks[i].kind}:${chunks[i].sourceId}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, limit)
+      .map(([i, score]) => ({ kind: chunks[i].kind, title: chunks[i].title, text: chunks[i].text, score: Math.round(score * 100) / 100 }));
+  };
+
+  return { size: chunks.length, search };
+};
+
+// Counts per label, largest first, e.g. "Refrigerators (120), Washers (85)"
+const countBy = (labels: string[], max: number): string => {
+  const counts = new Map<string, number>();
+  labels.map(l => l.trim() || 'Other').forEach(l => counts.set(l, (counts.get(l) || 0) + 1));
+  const sorted = Array.from(counts).sort((a, b) => b[1] - a[1]);
+  const shown = sorted.slice(0, max).map(([label, count]) => `${label} (${count})`).join(', ');
+  return sorted.length > max ? `${shown} and ${sorted.length - max} more` : shown;
+};
+
+// What the prompt says about the searchable knowledge instead of listing it: enough for the agent to know
+// what it can look up. Personas and objections stay in the prompt as short lists (see compileSystemPrompt).
+export const summarizeKnowledge = (c: AgentConfig): string => {
+  const lines = [
+    c.products.length > 0 ? `- ${c.products.length} products. Categories: ${countBy(c.products.map(p => p.category), 25)}.` : '- No products listed.',
+    c.faqs.length > 0 && `- ${c.faqs.length} FAQ answers. Topics: ${countBy(c.faqs.map(f => f.category), 15)}.`,
+    c.documents.length > 0 && `- ${c.documents.length} reference documents: ${c.documents.slice(0, 10).map(d => d.title).join(', ')}${c.documents.length > 10 ? ', ...' : ''}.`
+  ];
+  return lines.filter(Boolean).join('\n    ');
+};
@@ -0,0 +1,78 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { AgentConfig, FAQ, UnansweredQuestion } from "../types";
+import { getApiKey } from "./liveApi";
+import { buildKnowledgeChunks, createKnowledgeIndex } from "./knowledgeBase";
+
+const DRAFT_MODEL = 'gemini-2.5-flash';
+
+// Open questions asked in the same words (ignoring case, punctuation and spacing), shown as one inbox entry
+export interface QuestionGroup {
+  key: string;
+  question: string; // wording of the latest report
+  questions: UnansweredQuestion[]; // newest first
+  sessionCount: number; // conversations it came up in
+  lastAskedAt: string;
+}
+
+export const questionKey = (question: string) =>
+  question.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+
+// Groups open questions, most frequently asked first
+export const groupOpenQuestions = (questions: UnansweredQuestion[]): QuestionGroup[] => {
+  const groups = new Map<string, UnansweredQuestion[]>();
+  questions
+    .filter(q => q.status === 'Open')
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+    .forEach(q => {
+      const key = questionKey(q.question);
+      groups.set(key, [...(groups.get(key) || []), q]);
+    });
+
+  return Array.from(groups, ([key, list]) => ({
+    key,
+    question: list[0].question,
+    questions: list,
+    sessionCount: new Set(list.map(q => q.sessionId || q.id)).size,
+    lastAskedAt: list[0].createdAt
+  })).sort((a, b) => b.sessionCount - a.sessionCount || b.lastAskedAt.localeCompare(a.lastAskedAt));
+};
+
+const DRAFT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    answer: { type: Type.STRING, description: 'The FAQ answer, two to four sentences.' },
+    category: { type: Type.STRING, description: 'A short FAQ category such as Pricing, Shipping, Product or General.' }
+  },
+  required: ['answer', 'category']
+};
+
+// Drafts an FAQ entry for a question the agent could not answer, for an admin to review before saving.
+// Facts missing from the agent's knowledge are left as [placeholders] instead of being made up.
+// Only the knowledge entries that match the question are sent, so large catalogues fit.
+export const draftFaqAnswer = async (question: string, config: AgentConfig): Promise<Pick<FAQ, 'answer' | 'category'>> => {
+  const related = createKnowledgeIndex(buildKnowledgeChunks(config)).search(question, { limit: 8 });
+  const ai = new GoogleGenAI({ apiKey: getApiKey() });
+  const response = await ai.models.generateContent({
+    model: DRAFT_MODEL,
+    contents: `You write FAQ answers for "${config.companyInfo.name}". Visitors asked the sales agent a question it could not answer.
+Draft an answer using only the knowledge below. Where a fact is missing, write a [placeholder] describing what the team must fill in.
+Answer in the language of the question.
+
+Related knowledge:
+${related.map(hit => `- [${hit.kind}] ${hit.title}: ${hit.text}`).join('\n') || 'nothing related found'}
+Pricing: ${config.pricing.standardPricing}. Offers: ${config.pricing.seasonalOffers}
+Existing categories: ${Array.from(new Set(config.faqs.map(f => f.category))).join(', ') || 'General'}
+
+Question: ${question}`,
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: DRAFT_SCHEMA
+    }
+  });
+
+  const parsed = JSON.parse(response.text || '{}');
+  return {
+    answer: String(parsed.answer || '').trim(),
+    category: String(parsed.category || '').trim() || 'General'
+  };
+};
@@ -0,0 +1,144 @@
+import { Lead, PipelineStage } from '../types';
+import { normalizePhone } from './phone';
+import { GUEST_COMPANY, GUEST_INTEREST, isGuestName } from './conversation';
+import { mergeQualification } from './qualification';
+import { initialStage, stageRank } from './pipeline';
+
+export interface DuplicateMatch {
+  key: string; // stable for the pair, used to dismiss it
+  survivor: Lead; // suggested lead to keep
+  duplicate: Lead;
+  score: number; // 0..1
+  reasons: string[];
+}
+
+// Minimum name similarity (0..1) for two names to count as the same person
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+// Minimum score for a pair to be suggested
+const MATCH_THRESHOLD = 0.6;
+
+const SENTIMENT_RANK: Record<Lead['sentiment'], number> = { Negative: 0, Neutral: 1, Positive: 2 };
+
+// Lowercased, with Arabic letter variants, diacritics and tatweel folded, and tokens sorted so word order does not matter
+const normalizeName = (name: string): string =>
+  name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f\u064b-\u065f\u0670\u0640]/g, '')
+    .replace(/[أإآ]/g, 'ا')
+    .replace(/ة/g, 'ه')
+    .replace(/ى/g, 'ي')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(' ');
+
+const normalizeCompany = (company?: string): string => {
+  const value = (company || '').trim().toLowerCase();
+  return value === GUEST_COMPANY.toLowerCase() ? '' : value;
+};
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const nameSimilarity = (a: string, b: string): number => {
+  if (!a || !b) return 0;
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+};
+
+// Higher for leads with more real information; the richer lead is suggested as the survivor
+const completeness = (lead: Lead, stages: PipelineStage[]): number =>
+  (isGuestName(lead.name) ? 0 : 2) +
+  (normalizePhone(lead.phone) ? 2 : 0) +
+  (normalizeCompany(lead.company) ? 1 : 0) +
+  (lead.interestedIn && lead.interestedIn !== GUEST_INTEREST ? 1 : 0) +
+  (lead.notes ? 1 : 0) +
+  (lead.status !== initialStage(stages) ? 2 : 0);
+
+export const duplicatePairKey = (a: string, b: string) => [a, b].sort().join(':');
+
+// Normalized once per lead, since every lead is compared against every other one
+interface PreparedLead {
+  lead: Lead;
+  phone: string;
+  name: string; // empty for guest placeholders, which say nothing about who the visitor is
+  company: string;
+}
+
+const prepare = (lead: Lead): PreparedLead => ({
+  lead,
+  phone: normalizePhone(lead.phone),
+  name: isGuestName(lead.name) ? '' : normalizeName(lead.name),
+  company: normalizeCompany(lead.company)
+});
+
+const scorePair = (a: PreparedLead, b: PreparedLead): { score: number; reasons: string[] } => {
+  const reasons: string[] = [];
+  let score = 0;
+
+  if (a.phone && a.phone === b.phone) {
+    score = 1;
+    reasons.push('Same phone number');
+  }
+
+  const similarity = nameSimilarity(a.name, b.name);
+  if (similarity >= NAME_SIMILARITY_THRESHOLD) {
+    score = Math.max(score, 0.6);
+    reasons.push(similarity === 1 ? 'Same name' : `Similar name (${Math.round(similarity * 100)}%)`);
+
+    if (a.company && a.company === b.company) {
+      score = Math.min(1, score + 0.3);
+      reasons.push('Same company');
+    }
+  }
+
+  return { score, reasons };
+};
+
+// Likely duplicate pairs among the leads, strongest first. Dismissed pairs (see duplicatePairKey) are skipped.
+export const findDuplicates = (leads: Lead[], stages: PipelineStage[], dismissed: Set<string> = new Set()): DuplicateMatch[] => {
+  const prepared = leads.map(prepare);
+  const matches: DuplicateMatch[] = [];
+  for (let i = 0; i < prepared.length; i++) {
+    for (let j = i + 1; j < prepared.length; j++) {
+      const [a, b] = [prepared[i].lead, prepared[j].lead];
+      const key = duplicatePairKey(a.id, b.id);
+      if (dismissed.has(key)) continue;
+      const { score, reasons } = scorePair(prepared[i], prepared[j]);
+      if (score < MATCH_THRESHOLD) continue;
+      const [survivor, duplicate] = completeness(b, stages) > completeness(a, stages) ? [b, a] : [a, b];
+      matches.push({ key, survivor, duplicate, score, reasons });
+    }
+  }
+  return matches.sort((x, y) => y.score - x.score);
+};
+
+// Fields of the surviving lead after the merge: real values win over guest placeholders, notes are combined,
+// the furthest status and best sentiment are kept, and the latest assessment of each qualification criterion wins
+export const mergeLeadFields = (survivor: Lead, duplicate: Lead, stages: PipelineStage[]): Partial<Lead> => {
+  const notes = Array.from(new Set([survivor.notes, duplicate.notes].map(n => (n || '').trim()).filter(Boolean)));
+  return {
+    name: isGuestName(survivor.name) && !isGuestName(duplicate.name) ? duplicate.name : survivor.name,
+    company: normalizeCompany(survivor.company) ? survivor.company : (normalizeCompany(duplicate.company) ? duplicate.company : survivor.company),
+    phone: survivor.phone || duplicate.phone,
+    interestedIn: survivor.interestedIn && survivor.interestedIn !== GUEST_INTEREST ? survivor.interestedIn : (duplicate.interestedIn || survivor.interestedIn),
+    notes: notes.join('\n'),
+    status: stageRank(stages, duplicate.status) > stageRank(stages, survivor.status) ? duplicate.status : survivor.status,
+    sentiment: SENTIMENT_RANK[duplicate.sentiment] > SENTIMENT_RANK[survivor.sentiment] ? duplicate.sentiment : survivor.sentiment,
+    escalated: !!(survivor.escalated || duplicate.escalated),
+    dealValue: survivor.dealValue || duplicate.dealValue,
+    personaId: survivor.personaId || duplicate.personaId,
+    lastInteractionAt: [survivor.lastInteractionAt, duplicate.lastInteractionAt].filter(Boolean).sort().pop(),
+    qualification: mergeQualification(survivor.qualification, duplicate.qualification)
+  };
+};
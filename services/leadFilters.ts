@@ -0,0 +1,83 @@
+import { Lead } from '../types';
+import { lastContactAt } from './leadTiming';
+
+export interface LeadFilters {
+  search: string;
+  statuses: string[]; // PipelineStage ids; empty = any
+  sentiments: Lead['sentiment'][];
+  interests: string[]; // exact interestedIn values
+  interactionFrom?: string; // YYYY-MM-DD, inclusive
+  interactionTo?: string; // YYYY-MM-DD, inclusive
+}
+
+export interface LeadSort {
+  key: keyof Lead;
+  direction: 'asc' | 'desc';
+}
+
+// A named combination of filters and sort an admin can switch back to
+export interface SavedLeadView {
+  id: string;
+  name: string;
+  filters: LeadFilters;
+  sort: LeadSort | null;
+}
+
+export const EMPTY_FILTERS: LeadFilters = { search: '', statuses: [], sentiments: [], interests: [] };
+
+export const SENTIMENTS: Lead['sentiment'][] = ['Positive', 'Neutral', 'Negative'];
+
+// Saved views are kept per browser and per agent, since each agent has its own stages
+const savedViewsKey = (agentId: string) => `nova_crm_views:${agentId}`;
+
+export const loadSavedViews = (agentId: string): SavedLeadView[] => {
+  try {
+    return JSON.parse(localStorage.getItem(savedViewsKey(agentId)) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+export const storeSavedViews = (agentId: string, views: SavedLeadView[]) => {
+  localStorage.setItem(savedViewsKey(agentId), JSON.stringify(views));
+};
+
+const startOfDay = (day: string) => new Date(`${day}T00:00:00`);
+const endOfDay = (day: string) => new Date(`${day}T23:59:59.999`);
+
+export const activeFilterCount = (filters: LeadFilters): number =>
+  (filters.search.trim() ? 1 : 0) +
+  (filters.statuses.length > 0 ? 1 : 0) +
+  (filters.sentiments.length > 0 ? 1 : 0) +
+  (filters.interests.length > 0 ? 1 : 0) +
+  (filters.interactionFrom || filters.interactionTo ? 1 : 0);
+
+export const applyLeadFilters = (leads: Lead[], filters: LeadFilters): Lead[] => {
+  const search = filters.search.trim().toLowerCase();
+  const statuses = new Set(filters.statuses);
+  const sentiments = new Set(filters.sentiments);
+  const interests = new Set(filters.interests);
+  const from = filters.interactionFrom ? startOfDay(filters.interactionFrom) : undefined;
+  const to = filters.interactionTo ? endOfDay(filters.interactionTo) : undefined;
+
+  return leads.filter(l => {
+    if (search && ![l.name, l.company, l.phone, l.id, l.interestedIn, l.notes].some(v => v && v.toLowerCase().includes(search))) return false;
+    if (statuses.size > 0 && !statuses.has(l.status)) return false;
+    if (sentiments.size > 0 && !sentiments.has(l.sentiment)) return false;
+    if (interests.size > 0 && !interests.has(l.interestedIn || '')) return false;
+    if (from || to) {
+      const date = lastContactAt(l);
+      if (!date || (from && date < from) || (to && date > to)) return false;
+    }
+    return true;
+  });
+};
+
+// Distinct interestedIn values for the interest facet, most common first
+export const interestOptions = (leads: Lead[]): { value: string; count: number }[] => {
+  const counts = new Map<string, number>();
+  leads.forEach(l => {
+    if (l.interestedIn) counts.set(l.interestedIn, (counts.get(l.interestedIn) || 0) + 1);
+  });
+  return Array.from(counts, ([value, count]) => ({ value, count })).sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
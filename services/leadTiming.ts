@@ -0,0 +1,51 @@
+import { Lead, PipelineStage } from '../types';
+import { findStage } from './pipeline';
+
+// Open leads nobody has talked to for this many days are flagged as stale, unless the agent sets its own threshold
+export const DEFAULT_STALE_LEAD_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDate = (iso?: string): Date | undefined => {
+  if (!iso) return undefined;
+  const time = Date.parse(iso);
+  return isNaN(time) ? undefined : new Date(time);
+};
+
+// When we last spoke to the lead, or when it was created if the visitor never wrote anything.
+// Undefined only for legacy local rows stored before timestamps were recorded.
+export const lastContactAt = (lead: Lead): Date | undefined =>
+  toDate(lead.lastInteractionAt) || toDate(lead.createdAt);
+
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['year', 365 * DAY_MS],
+  ['month', 30 * DAY_MS],
+  ['week', 7 * DAY_MS],
+  ['day', DAY_MS],
+  ['hour', 60 * 60 * 1000],
+  ['minute', 60 * 1000]
+];
+
+const relativeFormat = new Intl.RelativeTimeFormat('en', { numeric: 'auto' });
+
+// "5 minutes ago", "yesterday", "3 weeks ago"; anything under a minute is "just now"
+export const formatRelativeTime = (date: Date | undefined, now: number = Date.now()): string => {
+  if (!date) return 'Unknown';
+  const elapsed = now - date.getTime();
+  const unit = RELATIVE_UNITS.find(([, ms]) => Math.abs(elapsed) >= ms);
+  if (!unit) return 'just now';
+  return relativeFormat.format(-Math.round(elapsed / unit[1]), unit[0]);
+};
+
+export const daysSince = (date: Date, now: number = Date.now()): number =>
+  Math.floor((now - date.getTime()) / DAY_MS);
+
+// Open leads (won and lost deals need no follow-up) without contact for at least `days`, longest silent first
+export const findStaleLeads = (leads: Lead[], stages: PipelineStage[], days: number, now: number = Date.now()): Lead[] =>
+  leads
+    .filter(l => {
+      const outcome = findStage(stages, l.status)?.outcome;
+      const contact = lastContactAt(l);
+      return outcome !== 'won' && outcome !== 'lost' && !!contact && daysSince(contact, now) >= days;
+    })
+    .sort((a, b) => lastContactAt(a)!.getTime() - lastContactAt(b)!.getTime());
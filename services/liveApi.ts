@@ -1,8 +1,10 @@
-import { GoogleGenAI, LiveServerMessage, Modality, FunctionDeclaration, Type } from "@google/genai";
+import { GoogleGenAI, LiveServerMessage, Modality, FunctionCall } from "@google/genai";
 import { AgentConfig, AgentStatus, Lead } from "../types";
+import { ToolRegistry, createUpdateLeadTool } from "./agentTools";
+import { getPipelineStages } from "./pipeline";
 
 // Helper to retrieve API Key compatibly across environments (Node/Vite/Vercel)
-const getApiKey = (): string => {
+export const getApiKey = (): string => {
   // 1. Check process.env (Standard)
   if (typeof process !== 'undefined' && process.env && process.env.API_KEY) {
     return process.env.API_KEY;
@@ -67,26 +69,10 @@ function createBlob(data: Float32Array): { data: string; mimeType: string } {
   };
 }
 
-// Tool Definition for updating lead info
-const updateLeadTool: FunctionDeclaration = {
-  name: 'update_lead',
-  description: 'Update the current lead information (phone, interest, notes, etc) based on the conversation.',
-  parameters: {
-    type: Type.OBJECT,
-    properties: {
-      phone: { type: Type.STRING, description: 'The phone number of the lead if provided.' },
-      interestedIn: { type: Type.STRING, description: 'The product or service the lead is interested in.' },
-      notes: { type: Type.STRING, description: 'Important notes, requirements, or summary of the lead.' },
-      sentiment: { type: Type.STRING, description: 'The sentiment of the conversation: Positive, Neutral, or Negative.' },
-      status: { type: Type.STRING, description: 'The status of the lead: Contacted, Qualified, Closed.' }
-    },
-    required: [] // Explicitly optional to avoid schema validation errors
-  }
-};
-
 export class LiveClient {
   private ai: GoogleGenAI;
   private config: AgentConfig;
+  public readonly tools: ToolRegistry;
   private inputAudioContext: AudioContext | null = null;
   private outputAudioContext: AudioContext | null = null;
   private inputNode: ScriptProcessorNode | null = null;
@@ -100,6 +86,10 @@ export class LiveClient {
   private currentStatus: AgentStatus = 'idle';
   private lastUserInteraction: number = 0;
   private hasSpokenOnce: boolean = false;
+
+  // Graceful hang-up (e.g. after announcing a human handoff)
+  private endAfterTurn: boolean = false;
+  private turnFinished: boolean = false;
   
   // Recording
   private mediaRecorder: MediaRecorder | null = null;
@@ -114,14 +104,19 @@ export class LiveClient {
   public onTranscript: ((text: string, role: 'user' | 'model') => void) | null = null;
   public onLeadUpdate: ((updates: Partial<Lead>) => void) | null = null;
   public onAudioRecord: ((blob: Blob) => void) | null = null;
+  public onCallEnd: (() => void) | null = null; // after a connected call is torn down and its recording handed over
 
-  constructor(config: AgentConfig) {
+  constructor(config: AgentConfig, tools?: ToolRegistry) {
     const apiKey = getApiKey();
     if (!apiKey) {
       console.error("API_KEY not found in environment variables");
     }
     this.ai = new GoogleGenAI({ apiKey });
     this.config = config;
+    // Without an explicit registry, keep the built-in update_lead tool routed to onLeadUpdate
+    this.tools = tools || new ToolRegistry().register(
+      createUpdateLeadTool(getPipelineStages(config.process), config.personas, updates => this.onLeadUpdate?.(updates))
+    );
   }
 
   private setStatus(status: AgentStatus) {
@@ -130,12 +125,20 @@ export class LiveClient {
     if (this.onStatusChange) this.onStatusChange(status);
   }
 
-  async connect() {
+  // Ends the call once the model has finished speaking its current reply
+  endAfterCurrentTurn() {
+    this.endAfterTurn = true;
+  }
+
+  // instructionSuffix is appended to the system instruction for this call only (e.g. the current time)
+  async connect(instructionSuffix: string = '') {
     // Ensure clean state before connecting
     await this.disconnect();
 
     this.setStatus('connecting');
     this.audioChunks = [];
+    this.endAfterTurn = false;
+    this.turnFinished = false;
 
     try {
       this.inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
@@ -212,10 +215,10 @@ export class LiveClient {
               speechConfig: {
                 voiceConfig: { prebuiltVoiceConfig: { voiceName: this.config.voiceName } },
               },
-              systemInstruction: this.config.systemInstruction,
+              systemInstruction: this.config.systemInstruction + instructionSuffix,
               inputAudioTranscription: { },
               outputAudioTranscription: { },
-              tools: [{ functionDeclarations: [updateLeadTool] }]
+              tools: [{ functionDeclarations: this.tools.declarations }]
             }
           });
         } catch (e: any) {
@@ -294,24 +297,17 @@ export class LiveClient {
     this.inputNode.connect(this.inputAudioContext.destination);
   }
 
+  private async handleToolCalls(calls: FunctionCall[]) {
+    // Every call gets a response (errors included), otherwise the model stalls waiting for it
+    const functionResponses = await Promise.all(calls.map(fc => this.tools.execute(fc)));
+    this.sessionPromise?.then(session => {
+      session.sendToolResponse({ functionResponses });
+    });
+  }
+
   private async handleMessage(message: LiveServerMessage) {
-    if (message.toolCall) {
-      for (const fc of message.toolCall.functionCalls) {
-        if (fc.name === 'update_lead' && this.onLeadUpdate) {
-           console.log("Agent updating lead:", fc.args);
-           this.onLeadUpdate(fc.args as Partial<Lead>);
-           
-           this.sessionPromise?.then(session => {
-              session.sendToolResponse({
-                functionResponses: [{
-                  id: fc.id,
-                  name: fc.name,
-                  response: { result: "Lead updated successfully." }
-                }]
-              });
-           });
-        }
-      }
+    if (message.toolCall?.functionCalls?.length) {
+      this.handleToolCalls(message.toolCall.functionCalls);
     }
 
     if (message.serverContent?.outputTranscription?.text) {
@@ -330,6 +326,10 @@ export class LiveClient {
         this.onTranscript(this.currentOutputTranscription, 'model');
         this.currentOutputTranscription = '';
       }
+      if (this.endAfterTurn) {
+        this.turnFinished = true;
+        if (this.sources.size === 0) this.disconnect();
+      }
     }
 
     const base64Audio = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
@@ -345,6 +345,10 @@ export class LiveClient {
       source.addEventListener('ended', () => {
         this.sources.delete(source);
         if (this.sources.size === 0) {
+          if (this.endAfterTurn && this.turnFinished) {
+            this.disconnect();
+            return;
+          }
           this.setStatus('listening');
           this.lastUserInteraction = 0;
           this.hasSpokenOnce = false;
@@ -368,6 +372,8 @@ export class LiveClient {
   }
 
   async disconnect() {
+    const wasConnected = !!this.sessionPromise;
+
     // 1. Close Session (Close WebSockets)
     if (this.sessionPromise) {
       try {
@@ -439,5 +445,6 @@ export class LiveClient {
     this.sources.forEach(s => s.stop());
     this.sources.clear();
     this.setStatus('idle');
+    if (wasConnected) this.onCallEnd?.();
   }
 }
\ No newline at end of file
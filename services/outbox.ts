@@ -0,0 +1,167 @@
+import { AgentConfig, ConfigVersion, Lead, LeadActivity, Appointment, FollowUpTask, UnansweredQuestion, SessionEscalation, SessionInsights, ObjectionOccurrence } from '../types';
+
+// Durable queue of Supabase writes that could not be delivered (offline, outage, or
+// records created locally that do not have a server UUID yet). Replayed in order by db.syncPending().
+
+const LOCAL_OUTBOX_KEY = 'nova_agent_outbox';
+const LOCAL_ID_MAP_KEY = 'nova_agent_id_map';
+
+export type OutboxOperation =
+  | { kind: 'saveConfig'; agentId: string; config: AgentConfig }
+  | { kind: 'createConfigVersion'; localId: string; version: Omit<ConfigVersion, 'id' | 'version'> }
+  | { kind: 'createLead'; localId: string; lead: Omit<Lead, 'id'> }
+  | { kind: 'updateLead'; id: string; updates: Partial<Lead> }
+  | { kind: 'deleteLead'; id: string }
+  | { kind: 'mergeLeads'; id: string; duplicateId: string } // id = surviving lead
+  | { kind: 'createLeadActivity'; localId: string; activity: Omit<LeadActivity, 'id'> }
+  | { kind: 'createSession'; localId: string; leadId: string; createdAt: string; agentId?: string }
+  | { kind: 'updateSessionTranscript'; id: string; transcript: any[] }
+  | { kind: 'appendSessionMessage'; id: string; message: any }
+  | { kind: 'updateSessionEscalation'; id: string; escalation: SessionEscalation }
+  | { kind: 'updateSessionInsights'; id: string; insights: SessionInsights }
+  | { kind: 'updateSessionObjections'; id: string; objections: ObjectionOccurrence[] }
+  | { kind: 'moveSession'; id: string; leadId: string }
+  | { kind: 'uploadSessionAudio'; id: string } // audio itself stays in local storage until replay
+  | { kind: 'createAppointment'; localId: string; appointment: Omit<Appointment, 'id' | 'createdAt'> }
+  | { kind: 'updateAppointment'; id: string; updates: Partial<Appointment> }
+  | { kind: 'createFollowUpTask'; localId: string; task: Omit<FollowUpTask, 'id' | 'createdAt'> }
+  | { kind: 'updateFollowUpTask'; id: string; updates: Partial<FollowUpTask> }
+  | { kind: 'createUnansweredQuestion'; localId: string; question: Omit<UnansweredQuestion, 'id' | 'createdAt'> }
+  | { kind: 'updateUnansweredQuestion'; id: string; updates: Partial<UnansweredQuestion> };
+
+export interface OutboxEntry {
+  id: string;
+  op: OutboxOperation;
+  createdAt: string;
+  attempts: number;
+  lastError?: string;
+}
+
+export interface SyncStatus {
+  state: 'disabled' | 'synced' | 'pending' | 'syncing' | 'offline';
+  pending: number;
+  lastSyncedAt?: string;
+  lastError?: string;
+}
+
+// Whole-value writes where only the latest queued one matters
+const COALESCED_KINDS: OutboxOperation['kind'][] = ['saveConfig', 'updateSessionTranscript', 'updateSessionEscalation', 'updateSessionInsights', 'updateSessionObjections'];
+
+const read = <T>(key: string, defaultVal: T): T => {
+  try {
+    const item = localStorage.getItem(key);
+    return item ? JSON.parse(item) : defaultVal;
+  } catch (e) {
+    console.warn(`Failed to parse local storage for ${key}`, e);
+    return defaultVal;
+  }
+};
+
+const write = (key: string, value: any) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.warn(`Failed to save to local storage for ${key}`, e);
+  }
+};
+
+// Every record ID an operation touches (local or server)
+export const operationIds = (op: OutboxOperation): string[] => {
+  switch (op.kind) {
+    case 'saveConfig': return [op.agentId];
+    case 'createLead': return [op.localId];
+    case 'createConfigVersion': return [op.localId];
+    case 'createSession': return [op.localId, op.leadId];
+    case 'moveSession': return [op.id, op.leadId];
+    case 'mergeLeads': return [op.id, op.duplicateId];
+    case 'createLeadActivity': return [op.localId, op.activity.leadId, ...(op.activity.sessionId ? [op.activity.sessionId] : [])];
+    case 'createAppointment': return [op.localId, op.appointment.leadId, ...(op.appointment.sessionId ? [op.appointment.sessionId] : [])];
+    case 'createFollowUpTask': return [op.localId, op.task.leadId, ...(op.task.sessionId ? [op.task.sessionId] : [])];
+    case 'createUnansweredQuestion': return [op.localId, op.question.leadId, ...(op.question.sessionId ? [op.question.sessionId] : [])];
+    default: return [op.id];
+  }
+};
+
+const targetKey = (op: OutboxOperation): string => `${op.kind}:${operationIds(op)[0]}`;
+
+let status: SyncStatus = { state: 'synced', pending: read<OutboxEntry[]>(LOCAL_OUTBOX_KEY, []).length };
+const listeners = new Set<(status: SyncStatus) => void>();
+
+export const outbox = {
+  entries(): OutboxEntry[] {
+    return read<OutboxEntry[]>(LOCAL_OUTBOX_KEY, []);
+  },
+
+  size(): number {
+    return outbox.entries().length;
+  },
+
+  enqueue(op: OutboxOperation) {
+    const entries = outbox.entries();
+    const entry: OutboxEntry = { id: `${Date.now()}_${Math.random().toString(36).substring(2, 8)}`, op, createdAt: new Date().toISOString(), attempts: 0 };
+
+    const existing = COALESCED_KINDS.includes(op.kind)
+      ? entries.findIndex(e => targetKey(e.op) === targetKey(op))
+      : -1;
+    if (existing >= 0) {
+      // Keep the original queue position so ordering against creates is preserved
+      entries[existing] = { ...entries[existing], op };
+    } else {
+      entries.push(entry);
+    }
+    write(LOCAL_OUTBOX_KEY, entries);
+    outbox.setStatus({ pending: entries.length, state: status.state === 'syncing' || status.state === 'offline' ? status.state : 'pending' });
+  },
+
+  replace(entry: OutboxEntry) {
+    write(LOCAL_OUTBOX_KEY, outbox.entries().map(e => e.id === entry.id ? entry : e));
+  },
+
+  remove(entryId: string) {
+    const entries = outbox.entries().filter(e => e.id !== entryId);
+    write(LOCAL_OUTBOX_KEY, entries);
+    outbox.setStatus({ pending: entries.length });
+  },
+
+  // IDs (resolved to server IDs where known) with writes still waiting in the queue
+  pendingIds(): Set<string> {
+    const ids = new Set<string>();
+    outbox.entries().forEach(e => operationIds(e.op).forEach(id => ids.add(outbox.resolveId(id))));
+    return ids;
+  },
+
+  // --- Local -> Server ID Mapping ---
+
+  resolveId(id: string): string {
+    return read<Record<string, string>>(LOCAL_ID_MAP_KEY, {})[id] || id;
+  },
+
+  mapId(localId: string, serverId: string) {
+    const map = read<Record<string, string>>(LOCAL_ID_MAP_KEY, {});
+    map[localId] = serverId;
+    write(LOCAL_ID_MAP_KEY, map);
+  },
+
+  isMapped(localId: string): boolean {
+    return localId in read<Record<string, string>>(LOCAL_ID_MAP_KEY, {});
+  },
+
+  // --- Status ---
+
+  getStatus(): SyncStatus {
+    return status;
+  },
+
+  setStatus(next: Partial<SyncStatus>) {
+    status = { ...status, ...next };
+    listeners.forEach(l => l(status));
+  },
+
+  subscribe(listener: (status: SyncStatus) => void): () => void {
+    listeners.add(listener);
+    listener(status);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+};
@@ -0,0 +1,25 @@
+// Arabic-Indic (٠-٩) and Extended Arabic-Indic (۰-۹) digits, as typed on Arabic keyboards
+const toAsciiDigits = (value: string) =>
+  value
+    .replace(/[٠-٩]/g, d => String(d.charCodeAt(0) - 0x0660))
+    .replace(/[۰-۹]/g, d => String(d.charCodeAt(0) - 0x06F0));
+
+// Comparable form of a phone number. Egyptian numbers become their national form, so "+20 100 123 4567",
+// "00201001234567", "1001234567" and "01001234567" all match; other numbers keep just their digits.
+// Returns '' when there are too few digits to identify anyone.
+export const normalizePhone = (phone?: string): string => {
+  let digits = toAsciiDigits(phone || '').replace(/\D/g, '');
+  if (digits.startsWith('0020')) {
+    digits = `0${digits.slice(4)}`;
+  } else if (digits.startsWith('20') && digits.length >= 11) {
+    digits = `0${digits.slice(2)}`; // national numbers start with 0, so a leading 20 is the country code
+  } else if (/^1[0125]\d{8}$/.test(digits)) {
+    digits = `0${digits}`; // mobile number typed without the leading zero
+  }
+  return digits.length >= 8 ? digits : '';
+};
+
+export const isSamePhone = (a?: string, b?: string): boolean => {
+  const normalized = normalizePhone(a);
+  return !!normalized && normalized === normalizePhone(b);
+};
@@ -0,0 +1,54 @@
+import { PipelineStage, SalesProcess } from '../types';
+
+// Used until an admin defines their own stages. The ids match the statuses stored before stages were
+// configurable, so existing leads keep their stage.
+export const DEFAULT_PIPELINE_STAGES: PipelineStage[] = [
+  { id: 'New', name: 'New', color: '#3b82f6', outcome: 'open' },
+  { id: 'Contacted', name: 'Contacted', color: '#eab308', outcome: 'open' },
+  { id: 'Qualified', name: 'Qualified', color: '#10b981', outcome: 'open' },
+  { id: 'Closed', name: 'Closed', color: '#a855f7', outcome: 'won' },
+  { id: 'Lost', name: 'Lost', color: '#ef4444', outcome: 'lost' }
+];
+
+// Shown for statuses that no longer match a stage (e.g. the stage was deleted)
+const UNKNOWN_STAGE_COLOR = '#6b7280';
+
+export const getPipelineStages = (process?: SalesProcess): PipelineStage[] =>
+  process?.pipelineStages && process.pipelineStages.length > 0 ? process.pipelineStages : DEFAULT_PIPELINE_STAGES;
+
+export const findStage = (stages: PipelineStage[], status?: string): PipelineStage | undefined =>
+  stages.find(s => s.id === status);
+
+export const stageLabel = (stages: PipelineStage[], status: string): string =>
+  findStage(stages, status)?.name || status;
+
+// Stage new leads start in: the first open stage
+export const initialStage = (stages: PipelineStage[]): string =>
+  (stages.find(s => s.outcome === 'open') || stages[0]).id;
+
+// How far along a status is: open stages by position, won above every open stage, lost and unknown below all
+export const stageRank = (stages: PipelineStage[], status: string): number => {
+  const index = stages.findIndex(s => s.id === status);
+  if (index < 0) return -2;
+  const { outcome } = stages[index];
+  return outcome === 'won' ? stages.length + index : outcome === 'lost' ? -1 : index;
+};
+
+// Where a lead moves once the visitor engages: from the initial stage to the next open one.
+// Leads that are already further along keep their stage.
+export const engagedStatus = (stages: PipelineStage[], current: string): string => {
+  const initial = initialStage(stages);
+  if (current !== initial) return current;
+  const next = stages.slice(stages.findIndex(s => s.id === initial) + 1).find(s => s.outcome === 'open');
+  return next ? next.id : current;
+};
+
+// Badge colours derived from the stage colour (#rrggbb)
+export const stageStyle = (stage?: PipelineStage): { color: string; borderColor: string; backgroundColor: string } => {
+  const color = stage?.color || UNKNOWN_STAGE_COLOR;
+  return { color, borderColor: `${color}33`, backgroundColor: `${color}1a` };
+};
+
+// Deal values are plain amounts in the company's pricing currency
+export const formatDealValue = (value: number): string =>
+  value.toLocaleString(undefined, { maximumFractionDigits: 0 });
@@ -0,0 +1,55 @@
+import { Lead, QualificationAssessment, QualificationCriterion, QualificationLevel } from '../types';
+
+export const QUALIFICATION_LEVELS: QualificationLevel[] = ['met', 'partial', 'not_met'];
+
+export const QUALIFICATION_LEVEL_LABELS: Record<QualificationLevel, string> = {
+  met: 'Met',
+  partial: 'Partially met',
+  not_met: 'Not met'
+};
+
+const LEVEL_VALUE: Record<QualificationLevel, number> = { met: 1, partial: 0.5, not_met: 0 };
+
+// Weighted share (0-100) of the criteria the lead meets. Criteria not assessed yet count as not met.
+// Undefined when no criteria are configured or the lead has not been assessed at all.
+export const computeQualificationScore = (
+  criteria: QualificationCriterion[] = [],
+  qualification: Record<string, QualificationAssessment> = {}
+): number | undefined => {
+  const weighted = criteria.filter(c => c.weight > 0);
+  const totalWeight = weighted.reduce((sum, c) => sum + c.weight, 0);
+  if (totalWeight === 0 || !weighted.some(c => qualification[c.id])) return undefined;
+
+  const earned = weighted.reduce((sum, c) => sum + (qualification[c.id] ? LEVEL_VALUE[qualification[c.id].level] * c.weight : 0), 0);
+  return Math.round((earned / totalWeight) * 100);
+};
+
+// Scores with the current criteria, so changing weights re-ranks leads without re-assessing them
+export const leadScore = (lead: Lead, criteria?: QualificationCriterion[]): number | undefined =>
+  computeQualificationScore(criteria, lead.qualification);
+
+export const scoreColor = (score: number) =>
+  score >= 70 ? 'text-emerald-400 border-emerald-500/30 bg-emerald-500/10'
+    : score >= 40 ? 'text-yellow-400 border-yellow-500/30 bg-yellow-500/10'
+      : 'text-red-400 border-red-500/30 bg-red-500/10';
+
+// One line per criterion, e.g. for tooltips
+export const describeQualification = (lead: Lead, criteria: QualificationCriterion[] = []): string =>
+  criteria
+    .map(c => {
+      const assessment = lead.qualification?.[c.id];
+      return `${c.name}: ${assessment ? QUALIFICATION_LEVEL_LABELS[assessment.level] : 'Unknown'}${assessment?.evidence ? ` (${assessment.evidence})` : ''}`;
+    })
+    .join('\n');
+
+// Keeps the most recent assessment of each criterion (used when merging leads)
+export const mergeQualification = (
+  a: Record<string, QualificationAssessment> = {},
+  b: Record<string, QualificationAssessment> = {}
+): Record<string, QualificationAssessment> => {
+  const merged = { ...a };
+  Object.entries(b).forEach(([id, assessment]) => {
+    if (!merged[id] || new Date(assessment.assessedAt) > new Date(merged[id].assessedAt)) merged[id] = assessment;
+  });
+  return merged;
+};
@@ -0,0 +1,74 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { AgentConfig, Message, Session, SessionInsights } from "../types";
+import { db } from "./db";
+import { getApiKey } from "./liveApi";
+
+const INSIGHTS_MODEL = 'gemini-2.5-flash';
+
+const SPEAKER_LABELS: Record<Message['role'], string> = { user: 'Visitor', model: 'AI Agent', operator: 'Human colleague' };
+
+const stringList = (description: string) => ({ type: Type.ARRAY, items: { type: Type.STRING }, description });
+
+const INSIGHTS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: 'Two or three sentences: who the visitor is, what they want and where the conversation ended.' },
+    nextSteps: stringList('Concrete actions for the sales team, most urgent first. Empty if none.'),
+    objections: stringList('Concerns or objections the visitor raised, in a few words each.'),
+    productsMentioned: stringList('Products or services discussed, using the catalogue names where they match.'),
+    budgetSignals: stringList('Anything said about budget, price sensitivity, team size or purchase timeline.')
+  },
+  required: ['summary', 'nextSteps', 'objections', 'productsMentioned', 'budgetSignals']
+};
+
+const toList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(v => String(v).trim()).filter(Boolean) : [];
+
+// True when the session has no digest yet, or the conversation continued after it was generated
+export const insightsOutdated = (session: Session): boolean =>
+  !session.insights || session.insights.messageCount < (session.transcript || []).length;
+
+// Asks Gemini for a structured digest of the transcript. Null when the visitor never said anything.
+export const generateSessionInsights = async (transcript: Message[], config: AgentConfig): Promise<SessionInsights | null> => {
+  if (!transcript.some(m => m.role === 'user')) return null;
+
+  const conversation = transcript.map(m => `${SPEAKER_LABELS[m.role]}: ${m.text}`).join('\n');
+  const ai = new GoogleGenAI({ apiKey: getApiKey() });
+  const response = await ai.models.generateContent({
+    model: INSIGHTS_MODEL,
+    contents: `You review sales conversations for the managers of "${config.companyInfo.name}".
+Product catalogue: ${config.products.map(p => p.name).join(', ') || 'none listed'}.
+Write in English even when the conversation is in Arabic. Only report what was actually said.
+
+Conversation:
+${conversation}`,
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: INSIGHTS_SCHEMA
+    }
+  });
+
+  const parsed = JSON.parse(response.text || '{}');
+  return {
+    summary: String(parsed.summary || '').trim(),
+    nextSteps: toList(parsed.nextSteps),
+    objections: toList(parsed.objections),
+    productsMentioned: toList(parsed.productsMentioned),
+    budgetSignals: toList(parsed.budgetSignals),
+    generatedAt: new Date().toISOString(),
+    messageCount: transcript.length
+  };
+};
+
+// Generates and stores the digest of a finished call or chat. Failures are logged, never thrown,
+// so ending a call cannot fail because of the summary.
+export const summarizeSession = async (sessionId: string, transcript: Message[], config: AgentConfig): Promise<SessionInsights | null> => {
+  try {
+    const insights = await generateSessionInsights(transcript, config);
+    if (insights) await db.updateSessionInsights(sessionId, insights);
+    return insights;
+  } catch (e: any) {
+    console.warn('Failed to summarize session:', e.message || e);
+    return null;
+  }
+};
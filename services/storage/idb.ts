@@ -0,0 +1,38 @@
+// Shared IndexedDB database for the local backends: `records` holds JSON collections (indexedDB backend),
+// `recordings` holds audio Blobs (all local backends where IndexedDB exists)
+
+const DB_NAME = 'nova_agent';
+const DB_VERSION = 2;
+
+export const RECORDS_STORE = 'records';
+export const RECORDINGS_STORE = 'recordings';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isIndexedDBAvailable = () => typeof indexedDB !== 'undefined';
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RECORDS_STORE)) db.createObjectStore(RECORDS_STORE);
+        if (!db.objectStoreNames.contains(RECORDINGS_STORE)) db.createObjectStore(RECORDINGS_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const idbRequest = <T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> =>
+  openDatabase().then(db => new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  }));
@@ -0,0 +1,43 @@
+import { isSupabaseConfigured, getEnvVar } from '../supabaseClient';
+import { StorageAdapter, StorageBackend } from './types';
+import { supabaseAdapter } from './supabaseAdapter';
+import { localStorageAdapter } from './localStorageAdapter';
+import { indexedDbAdapter, isIndexedDBAvailable } from './indexedDbAdapter';
+import { createMemoryAdapter } from './memoryAdapter';
+
+export type { StorageAdapter, StorageBackend, RecordStore, SchemaIssue, SchemaReport } from './types';
+export { createMemoryAdapter } from './memoryAdapter';
+
+const BACKENDS: StorageBackend[] = ['supabase', 'localStorage', 'indexedDB', 'memory'];
+
+// Backend chosen by `?storage=<backend>` in the URL, then STORAGE_BACKEND / VITE_STORAGE_BACKEND,
+// otherwise Supabase when configured and localStorage when not
+export const resolveStorageBackend = (): StorageBackend => {
+  const fromUrl = typeof window !== 'undefined' ? new URLSearchParams(window.location.search).get('storage') : null;
+  const requested = fromUrl || getEnvVar('STORAGE_BACKEND') || getEnvVar('VITE_STORAGE_BACKEND');
+  const fallback: StorageBackend = isSupabaseConfigured ? 'supabase' : 'localStorage';
+
+  if (!requested) return fallback;
+  if (!BACKENDS.includes(requested as StorageBackend)) {
+    console.warn(`Unknown storage backend "${requested}", using ${fallback}.`);
+    return fallback;
+  }
+  if (requested === 'supabase' && !isSupabaseConfigured) {
+    console.warn('Supabase storage requested but Supabase is not configured, using localStorage.');
+    return 'localStorage';
+  }
+  if (requested === 'indexedDB' && !isIndexedDBAvailable()) {
+    console.warn('IndexedDB is not available in this browser, using localStorage.');
+    return 'localStorage';
+  }
+  return requested as StorageBackend;
+};
+
+export const createStorageAdapter = (backend: StorageBackend): StorageAdapter => {
+  switch (backend) {
+    case 'supabase': return supabaseAdapter;
+    case 'indexedDB': return indexedDbAdapter;
+    case 'memory': return createMemoryAdapter();
+    default: return localStorageAdapter;
+  }
+};
@@ -0,0 +1,29 @@
+import { RecordStore } from './types';
+import { createLocalAdapter } from './localAdapter';
+import { idbRequest, RECORDS_STORE } from './idb';
+import { indexedDbRecordingStore } from './recordingStore';
+
+export { isIndexedDBAvailable } from './idb';
+
+export const indexedDbStore: RecordStore = {
+  async read<T>(key: string, defaultVal: T): Promise<T> {
+    try {
+      const value = await idbRequest<T | undefined>(RECORDS_STORE, 'readonly', store => store.get(key));
+      return value === undefined ? defaultVal : value;
+    } catch (e) {
+      console.warn(`Failed to read IndexedDB record ${key}`, e);
+      return defaultVal;
+    }
+  },
+
+  async write(key: string, value: any) {
+    try {
+      // Round-trip through JSON so stored records match the other backends (dates as strings)
+      await idbRequest(RECORDS_STORE, 'readwrite', store => store.put(JSON.parse(JSON.stringify(value)), key));
+    } catch (e) {
+      console.warn(`Failed to write IndexedDB record ${key}`, e);
+    }
+  }
+};
+
+export const indexedDbAdapter = createLocalAdapter('indexedDB', indexedDbStore, indexedDbRecordingStore);
@@ -0,0 +1,413 @@
+import { AgentConfig, AgentProfile, ConfigVersion, Lead, LeadActivity, Session, Appointment, FollowUpTask, UnansweredQuestion } from '../../types';
+import { StorageAdapter, StorageBackend, RecordStore } from './types';
+import { RecordingStore, toRecordingRef, parseRecordingRef } from './recordingStore';
+
+// Collection keys (unchanged from the original localStorage fallback so existing data keeps loading)
+export const LOCAL_KEYS = {
+  agents: 'nova_agent_agents',
+  config: 'nova_agent_config', // single-agent config from before multi-agent support
+  configVersions: 'nova_agent_config_versions',
+  leads: 'nova_agent_leads',
+  sessions: 'nova_agent_sessions',
+  appointments: 'nova_agent_appointments',
+  leadActivities: 'nova_agent_lead_activities',
+  followUpTasks: 'nova_agent_follow_up_tasks',
+  unansweredQuestions: 'nova_agent_unanswered_questions'
+};
+
+// Creation time plus 32 random bits. Records of every kind are often created within the same millisecond
+// (parallel tool calls, an activity logged beside the lead it describes) and their local IDs share one outbox
+// ID map, so a plain timestamp would let one record's create be skipped as already synced. Digits only rather
+// than a UUID, which isLocalId would take for a server ID.
+const newUniqueLocalId = () => `${Date.now()}${crypto.getRandomValues(new Uint32Array(1))[0].toString().padStart(10, '0')}`;
+
+// Runs read-modify-write steps on one store one after another. Two steps that read the same collection before
+// either writes it back (e.g. parallel tool calls creating a lead and an appointment) would otherwise each write
+// their own copy and drop the other's change. Steps must not queue further steps on the same store (deadlock).
+const storeQueues = new WeakMap<RecordStore, Promise<unknown>>();
+export const serialized = <T>(store: RecordStore, step: () => Promise<T>): Promise<T> => {
+  const run = (storeQueues.get(store) || Promise.resolve()).then(step);
+  storeQueues.set(store, run.catch(() => undefined));
+  return run;
+};
+
+export const agentConfigKey = (agentId: string) => `${LOCAL_KEYS.config}:${agentId}`;
+
+// IDs minted on this device (digits) as opposed to IDs issued by a remote backend
+export const isLocalId = (id: string): boolean => /^\d+$/.test(id);
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// Rewrites an ID everywhere it is stored or referenced (used when a local record receives its server ID)
+export const remapRecordIds = async (
+  store: RecordStore,
+  entity: 'lead' | 'session' | 'appointment' | 'configVersion' | 'leadActivity' | 'followUpTask' | 'unansweredQuestion',
+  oldId: string,
+  newId: string
+) => serialized(store, async () => {
+  const leads = await store.read<Lead[]>(LOCAL_KEYS.leads, []);
+  const sessions = await store.read<Session[]>(LOCAL_KEYS.sessions, []);
+  const appointments = await store.read<Appointment[]>(LOCAL_KEYS.appointments, []);
+  const activities = await store.read<LeadActivity[]>(LOCAL_KEYS.leadActivities, []);
+  const tasks = await store.read<FollowUpTask[]>(LOCAL_KEYS.followUpTasks, []);
+  const questions = await store.read<UnansweredQuestion[]>(LOCAL_KEYS.unansweredQuestions, []);
+
+  if (entity === 'lead') {
+    await store.write(LOCAL_KEYS.leads, leads.map(l => l.id === oldId ? { ...l, id: newId } : l));
+    await store.write(LOCAL_KEYS.sessions, sessions.map(s => s.leadId === oldId ? { ...s, leadId: newId } : s));
+    await store.write(LOCAL_KEYS.appointments, appointments.map(a => a.leadId === oldId ? { ...a, leadId: newId } : a));
+    await store.write(LOCAL_KEYS.leadActivities, activities.map(a => a.leadId === oldId ? { ...a, leadId: newId } : a));
+    await store.write(LOCAL_KEYS.followUpTasks, tasks.map(t => t.leadId === oldId ? { ...t, leadId: newId } : t));
+    await store.write(LOCAL_KEYS.unansweredQuestions, questions.map(q => q.leadId === oldId ? { ...q, leadId: newId } : q));
+  } else if (entity === 'session') {
+    await store.write(LOCAL_KEYS.sessions, sessions.map(s => s.id === oldId ? { ...s, id: newId } : s));
+    await store.write(LOCAL_KEYS.appointments, appointments.map(a => a.sessionId === oldId ? { ...a, sessionId: newId } : a));
+    await store.write(LOCAL_KEYS.leadActivities, activities.map(a => a.sessionId === oldId ? { ...a, sessionId: newId } : a));
+    await store.write(LOCAL_KEYS.followUpTasks, tasks.map(t => t.sessionId === oldId ? { ...t, sessionId: newId } : t));
+    await store.write(LOCAL_KEYS.unansweredQuestions, questions.map(q => q.sessionId === oldId ? { ...q, sessionId: newId } : q));
+  } else if (entity === 'appointment') {
+    await store.write(LOCAL_KEYS.appointments, appointments.map(a => a.id === oldId ? { ...a, id: newId } : a));
+  } else if (entity === 'leadActivity') {
+    await store.write(LOCAL_KEYS.leadActivities, activities.map(a => a.id === oldId ? { ...a, id: newId } : a));
+  } else if (entity === 'followUpTask') {
+    await store.write(LOCAL_KEYS.followUpTasks, tasks.map(t => t.id === oldId ? { ...t, id: newId } : t));
+  } else if (entity === 'unansweredQuestion') {
+    await store.write(LOCAL_KEYS.unansweredQuestions, questions.map(q => q.id === oldId ? { ...q, id: newId } : q));
+  } else {
+    const versions = await store.read<ConfigVersion[]>(LOCAL_KEYS.configVersions, []);
+    await store.write(LOCAL_KEYS.configVersions, versions.map(v => v.id === oldId ? { ...v, id: newId } : v));
+  }
+});
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+// Builds a complete adapter on top of a key/value store; localStorage, IndexedDB and memory only differ in the store.
+// Without a recording store, audio falls back to inline base64 data URLs on the session.
+export const createLocalAdapter = (backend: StorageBackend, store: RecordStore, recordings?: RecordingStore): StorageAdapter => {
+  // Writes (and the first-agent adoption in agents()) run as serialized steps. The helpers below run inside
+  // those steps, so they must not call `locked` themselves.
+  const locked = <T>(step: () => Promise<T>) => serialized(store, step);
+  const sessions = () => store.read<Session[]>(LOCAL_KEYS.sessions, []);
+  const appointments = () => store.read<Appointment[]>(LOCAL_KEYS.appointments, []);
+  const configVersions = () => store.read<ConfigVersion[]>(LOCAL_KEYS.configVersions, []);
+  const activities = () => store.read<LeadActivity[]>(LOCAL_KEYS.leadActivities, []);
+  const tasks = () => store.read<FollowUpTask[]>(LOCAL_KEYS.followUpTasks, []);
+  const questions = () => store.read<UnansweredQuestion[]>(LOCAL_KEYS.unansweredQuestions, []);
+
+  const agents = async (): Promise<AgentProfile[]> => {
+    const list = await store.read<AgentProfile[]>(LOCAL_KEYS.agents, []);
+    if (list.length > 0) return list;
+
+    // Adopt the pre multi-agent config as the first ("default") agent
+    const legacy = await store.read<AgentConfig | null>(LOCAL_KEYS.config, null);
+    if (!legacy) return list;
+    const adopted: AgentProfile = { id: newUniqueLocalId(), slug: 'default', name: legacy.name, createdAt: new Date().toISOString() };
+    await store.write(agentConfigKey(adopted.id), legacy);
+    await store.write(LOCAL_KEYS.agents, [adopted]);
+    return [adopted];
+  };
+
+  // Rows saved before multi-agent support have no agentId and belong to the first agent
+  const ownedBy = async (agentId: string) => {
+    const defaultId = (await agents())[0]?.id;
+    return (row: { agentId?: string }) => (row.agentId || defaultId) === agentId;
+  };
+
+  const updateSession = async (id: string, updates: Partial<Session>) => {
+    await store.write(LOCAL_KEYS.sessions, (await sessions()).map(s => s.id === id ? { ...s, ...updates } : s));
+  };
+
+  return {
+    backend,
+    isRemote: false,
+    recordings,
+
+    // --- Agents & Config ---
+
+    async getAgents() {
+      return locked(agents);
+    },
+
+    async createAgent(slug, config, id) {
+      return locked(async () => {
+        const created: AgentProfile = { id: id || newUniqueLocalId(), slug, name: config.name, createdAt: new Date().toISOString() };
+        await store.write(agentConfigKey(created.id), config);
+        await store.write(LOCAL_KEYS.agents, [...await agents(), created]);
+        return created;
+      });
+    },
+
+    async deleteAgent(agentId) {
+      return locked(async () => {
+        const isOwned = await ownedBy(agentId);
+        await store.write(LOCAL_KEYS.leads, (await store.read<Lead[]>(LOCAL_KEYS.leads, [])).filter(l => !isOwned(l)));
+        await store.write(LOCAL_KEYS.sessions, (await sessions()).filter(s => !isOwned(s)));
+        await store.write(LOCAL_KEYS.appointments, (await appointments()).filter(a => !isOwned(a)));
+        await store.write(LOCAL_KEYS.leadActivities, (await activities()).filter(a => !isOwned(a)));
+        await store.write(LOCAL_KEYS.followUpTasks, (await tasks()).filter(t => !isOwned(t)));
+        await store.write(LOCAL_KEYS.unansweredQuestions, (await questions()).filter(q => !isOwned(q)));
+        await store.write(agentConfigKey(agentId), null);
+        await store.write(LOCAL_KEYS.configVersions, (await configVersions()).filter(v => v.agentId !== agentId));
+        await store.write(LOCAL_KEYS.agents, (await agents()).filter(a => a.id !== agentId));
+      });
+    },
+
+    async getConfig(agentId) {
+      return store.read<AgentConfig | null>(agentConfigKey(agentId), null);
+    },
+
+    async saveConfig(agentId, config) {
+      return locked(async () => {
+        await store.write(agentConfigKey(agentId), config);
+        const list = await agents();
+        if (list.some(a => a.id === agentId && a.name !== config.name)) {
+          await store.write(LOCAL_KEYS.agents, list.map(a => a.id === agentId ? { ...a, name: config.name } : a));
+        }
+      });
+    },
+
+    async getConfigVersions(agentId) {
+      return (await configVersions())
+        .filter(v => v.agentId === agentId)
+        .sort((a, b) => b.version - a.version);
+    },
+
+    async createConfigVersion(version) {
+      return locked(async () => {
+        const all = await configVersions();
+        const latest = Math.max(0, ...all.filter(v => v.agentId === version.agentId).map(v => v.version));
+        const created: ConfigVersion = { ...version, id: newUniqueLocalId(), version: latest + 1 };
+        await store.write(LOCAL_KEYS.configVersions, [...all, created]);
+        return created;
+      });
+    },
+
+    // --- Leads ---
+
+    async getLeads(agentId) {
+      return (await store.read<Lead[]>(LOCAL_KEYS.leads, []))
+        .filter(await locked(() => ownedBy(agentId)))
+        // Leads stored before timestamps were recorded: a local ID starts with the creation time (in milliseconds)
+        .map(l => l.createdAt || !isLocalId(l.id) ? l : { ...l, createdAt: new Date(Number(l.id.slice(0, 13))).toISOString() });
+    },
+
+    async createLead(lead) {
+      return locked(async () => {
+        const created: Lead = { ...lead, id: newUniqueLocalId() };
+        await store.write(LOCAL_KEYS.leads, [created, ...await store.read<Lead[]>(LOCAL_KEYS.leads, [])]);
+        return created;
+      });
+    },
+
+    async updateLead(id, updates) {
+      return locked(async () => {
+        const leads = await store.read<Lead[]>(LOCAL_KEYS.leads, []);
+        await store.write(LOCAL_KEYS.leads, leads.map(l => l.id === id ? { ...l, ...updates } : l));
+      });
+    },
+
+    // Removes everything the database deletes with the lead (on delete cascade), plus the sessions' stored recordings
+    async deleteLead(id) {
+      return locked(async () => {
+        const leads = await store.read<Lead[]>(LOCAL_KEYS.leads, []);
+        await store.write(LOCAL_KEYS.leads, leads.filter(l => l.id !== id));
+        const allSessions = await sessions();
+        await store.write(LOCAL_KEYS.sessions, allSessions.filter(s => s.leadId !== id));
+        for (const session of allSessions.filter(s => s.leadId === id)) {
+          const recordingId = parseRecordingRef(session.audioUrl);
+          if (recordings && recordingId) await recordings.delete(recordingId);
+        }
+        await store.write(LOCAL_KEYS.appointments, (await appointments()).filter(a => a.leadId !== id));
+        await store.write(LOCAL_KEYS.leadActivities, (await activities()).filter(a => a.leadId !== id));
+        await store.write(LOCAL_KEYS.followUpTasks, (await tasks()).filter(t => t.leadId !== id));
+        await store.write(LOCAL_KEYS.unansweredQuestions, (await questions()).filter(q => q.leadId !== id));
+      });
+    },
+
+    async mergeLeads(survivorId, duplicateId) {
+      return locked(async () => {
+        await store.write(LOCAL_KEYS.sessions, (await sessions()).map(s => s.leadId === duplicateId ? { ...s, leadId: survivorId } : s));
+        await store.write(LOCAL_KEYS.appointments, (await appointments()).map(a => a.leadId === duplicateId ? { ...a, leadId: survivorId } : a));
+        await store.write(LOCAL_KEYS.leadActivities, (await activities()).map(a => a.leadId === duplicateId ? { ...a, leadId: survivorId } : a));
+        await store.write(LOCAL_KEYS.followUpTasks, (await tasks()).map(t => t.leadId === duplicateId ? { ...t, leadId: survivorId } : t));
+        await store.write(LOCAL_KEYS.unansweredQuestions, (await questions()).map(q => q.leadId === duplicateId ? { ...q, leadId: survivorId } : q));
+        const leads = await store.read<Lead[]>(LOCAL_KEYS.leads, []);
+        await store.write(LOCAL_KEYS.leads, leads.filter(l => l.id !== duplicateId));
+      });
+    },
+
+    async getLeadActivities(leadId) {
+      return (await activities())
+        .filter(a => a.leadId === leadId)
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    },
+
+    async createLeadActivity(activity) {
+      return locked(async () => {
+        const created: LeadActivity = { ...activity, id: newUniqueLocalId() };
+        await store.write(LOCAL_KEYS.leadActivities, [created, ...await activities()]);
+        return created;
+      });
+    },
+
+    // --- Sessions ---
+
+    async getSessions(leadId) {
+      return (await sessions())
+        .filter(s => s.leadId === leadId)
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    },
+
+    async getSession(id) {
+      return (await sessions()).find(s => s.id === id) || null;
+    },
+
+    async getEscalatedSessions(agentId) {
+      const isOwned = await locked(() => ownedBy(agentId));
+      return (await sessions()).filter(s => isOwned(s) && s.escalation && s.escalation.status !== 'Resolved');
+    },
+
+    async getAgentSessions(agentId, since) {
+      const isOwned = await locked(() => ownedBy(agentId));
+      return (await sessions())
+        .filter(s => isOwned(s) && (!since || s.createdAt >= since))
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    },
+
+    async createSession(leadId, createdAt, agentId) {
+      return locked(async () => {
+        const created: Session = { id: newUniqueLocalId(), leadId, createdAt, transcript: [], agentId };
+        await store.write(LOCAL_KEYS.sessions, [created, ...await sessions()]);
+        return created;
+      });
+    },
+
+    async updateSessionTranscript(id, transcript) {
+      await locked(() => updateSession(id, { transcript }));
+    },
+
+    async appendSessionMessage(id, message) {
+      return locked(async () => {
+        await store.write(LOCAL_KEYS.sessions, (await sessions()).map(s =>
+          s.id === id && !s.transcript.some(m => m.id === message.id) ? { ...s, transcript: [...s.transcript, message] } : s
+        ));
+      });
+    },
+
+    async updateSessionEscalation(id, escalation) {
+      await locked(() => updateSession(id, { escalation }));
+    },
+
+    async updateSessionInsights(id, insights) {
+      await locked(() => updateSession(id, { insights }));
+    },
+
+    async updateSessionObjections(id, objections) {
+      await locked(() => updateSession(id, { objections }));
+    },
+
+    async moveSession(id, leadId) {
+      await locked(() => updateSession(id, { leadId }));
+    },
+
+    async saveRecording(sessionId, audio) {
+      const audioUrl = recordings
+        ? toRecordingRef(await recordings.put(sessionId, audio))
+        : await blobToDataUrl(audio);
+      await locked(() => updateSession(sessionId, { audioUrl }));
+      return audioUrl;
+    },
+
+    async migrateInlineRecordings() {
+      if (!recordings) return 0;
+      let moved = 0;
+      for (const session of await sessions()) {
+        if (!session.audioUrl?.startsWith('data:')) continue;
+        const id = await recordings.put(session.id, await dataUrlToBlob(session.audioUrl));
+        await locked(() => updateSession(session.id, { audioUrl: toRecordingRef(id) }));
+        moved++;
+      }
+      return moved;
+    },
+
+    // --- Appointments ---
+
+    async getAppointments(agentId, leadId) {
+      const isOwned = await locked(() => ownedBy(agentId));
+      return (await appointments())
+        .filter(a => isOwned(a) && (!leadId || a.leadId === leadId))
+        .sort((a, b) => new Date(a.startsAt).getTime() - new Date(b.startsAt).getTime());
+    },
+
+    async createAppointment(appointment) {
+      return locked(async () => {
+        const created: Appointment = { ...appointment, id: newUniqueLocalId(), createdAt: new Date().toISOString() };
+        await store.write(LOCAL_KEYS.appointments, [created, ...await appointments()]);
+        return created;
+      });
+    },
+
+    async updateAppointment(id, updates) {
+      return locked(async () => {
+        await store.write(LOCAL_KEYS.appointments, (await appointments()).map(a => a.id === id ? { ...a, ...updates } : a));
+      });
+    },
+
+    async deleteAppointment(id) {
+      return locked(async () => {
+        await store.write(LOCAL_KEYS.appointments, (await appointments()).filter(a => a.id !== id));
+      });
+    },
+
+    // --- Follow-up Tasks ---
+
+    async getFollowUpTasks(agentId, leadId) {
+      const isOwned = await locked(() => ownedBy(agentId));
+      return (await tasks())
+        .filter(t => isOwned(t) && (!leadId || t.leadId === leadId))
+        .sort((a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime());
+    },
+
+    async createFollowUpTask(task) {
+      return locked(async () => {
+        const created: FollowUpTask = { ...task, id: newUniqueLocalId(), createdAt: new Date().toISOString() };
+        await store.write(LOCAL_KEYS.followUpTasks, [created, ...await tasks()]);
+        return created;
+      });
+    },
+
+    async updateFollowUpTask(id, updates) {
+      return locked(async () => {
+        await store.write(LOCAL_KEYS.followUpTasks, (await tasks()).map(t => t.id === id ? { ...t, ...updates } : t));
+      });
+    },
+
+    // --- Unanswered Questions ---
+
+    async getUnansweredQuestions(agentId) {
+      const isOwned = await locked(() => ownedBy(agentId));
+      return (await questions())
+        .filter(isOwned)
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    },
+
+    async createUnansweredQuestion(question) {
+      return locked(async () => {
+        const created: UnansweredQuestion = { ...question, id: newUniqueLocalId(), createdAt: new Date().toISOString() };
+        await store.write(LOCAL_KEYS.unansweredQuestions, [created, ...await questions()]);
+        return created;
+      });
+    },
+
+    async updateUnansweredQuestion(id, updates) {
+      return locked(async () => {
+        await store.write(LOCAL_KEYS.unansweredQuestions, (await questions()).map(q => q.id === id ? { ...q, ...updates } : q));
+      });
+    }
+  };
+};
@@ -0,0 +1,30 @@
+import { RecordStore } from './types';
+import { createLocalAdapter } from './localAdapter';
+import { indexedDbRecordingStore } from './recordingStore';
+
+export const localStorageStore: RecordStore = {
+  async read<T>(key: string, defaultVal: T): Promise<T> {
+    try {
+      const item = localStorage.getItem(key);
+      return item ? JSON.parse(item) : defaultVal;
+    } catch (e) {
+      console.warn(`Failed to parse local storage for ${key}`, e);
+      return defaultVal;
+    }
+  },
+
+  async write(key: string, value: any) {
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
+    } catch (e: any) {
+      if (e?.name === 'QuotaExceededError') {
+        console.error(`Local storage is full; ${key} was NOT saved. Free space in the Admin dashboard.`, e);
+      } else {
+        console.warn(`Failed to save to local storage for ${key}`, e);
+      }
+    }
+  }
+};
+
+// Recordings go to IndexedDB: as base64 they would exhaust the ~5MB localStorage quota within a few calls
+export const localStorageAdapter = createLocalAdapter('localStorage', localStorageStore, indexedDbRecordingStore);
@@ -0,0 +1,21 @@
+import { RecordStore, StorageAdapter } from './types';
+import { createLocalAdapter } from './localAdapter';
+import { createMemoryRecordingStore } from './recordingStore';
+
+// Values are kept as JSON so reads behave like the persistent stores (no shared references, dates as strings)
+export const createMemoryStore = (seed: Record<string, any> = {}): RecordStore => {
+  const data = new Map<string, string>(Object.entries(seed).map(([k, v]) => [k, JSON.stringify(v)]));
+  return {
+    async read<T>(key: string, defaultVal: T): Promise<T> {
+      const item = data.get(key);
+      return item ? JSON.parse(item) : defaultVal;
+    },
+    async write(key: string, value: any) {
+      data.set(key, JSON.stringify(value));
+    }
+  };
+};
+
+// Fresh, isolated adapter per call (tests, demos); nothing survives a reload
+export const createMemoryAdapter = (seed?: Record<string, any>): StorageAdapter =>
+  createLocalAdapter('memory', createMemoryStore(seed), createMemoryRecordingStore());
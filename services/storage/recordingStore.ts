@@ -0,0 +1,162 @@
+import { idbRequest, isIndexedDBAvailable, RECORDINGS_STORE } from './idb';
+
+// Sessions point at locally stored audio with `local-recording:<id>`; resolved to object URLs on read
+export const LOCAL_RECORDING_PREFIX = 'local-recording:';
+
+// Recordings may use at most this much, or half of the browser quota if that is smaller
+const MAX_RECORDING_BYTES = 300 * 1024 * 1024;
+const QUOTA_SHARE = 0.5;
+
+export interface RecordingMeta {
+  id: string;
+  sessionId: string;
+  size: number;
+  type: string;
+  createdAt: string;
+  lastAccessedAt: string;
+}
+
+interface StoredRecording extends RecordingMeta {
+  blob: Blob;
+}
+
+export interface RecordingStore {
+  put(sessionId: string, blob: Blob): Promise<string>; // returns the recording id
+  get(id: string): Promise<Blob | null>;
+  delete(id: string): Promise<void>;
+  list(): Promise<RecordingMeta[]>;
+}
+
+export interface StorageUsage {
+  recordings: number;
+  recordingBytes: number;
+  usage?: number; // whole origin, from navigator.storage.estimate()
+  quota?: number;
+  persisted?: boolean;
+}
+
+export const toRecordingRef = (id: string) => `${LOCAL_RECORDING_PREFIX}${id}`;
+
+export const parseRecordingRef = (url?: string): string | null =>
+  url?.startsWith(LOCAL_RECORDING_PREFIX) ? url.slice(LOCAL_RECORDING_PREFIX.length) : null;
+
+const newRecording = (sessionId: string, blob: Blob): StoredRecording => {
+  const now = new Date().toISOString();
+  return {
+    id: `${sessionId}_${Date.now()}`,
+    sessionId,
+    blob,
+    size: blob.size,
+    type: blob.type,
+    createdAt: now,
+    lastAccessedAt: now
+  };
+};
+
+const toMeta = ({ blob, ...meta }: StoredRecording): RecordingMeta => meta;
+
+const idbStore: RecordingStore = {
+  async put(sessionId, blob) {
+    const recording = newRecording(sessionId, blob);
+    await idbRequest(RECORDINGS_STORE, 'readwrite', store => store.put(recording));
+    return recording.id;
+  },
+
+  async get(id) {
+    const recording = await idbRequest<StoredRecording | undefined>(RECORDINGS_STORE, 'readonly', store => store.get(id));
+    if (!recording) return null;
+    // Track access for least-recently-used eviction
+    await idbRequest(RECORDINGS_STORE, 'readwrite', store => store.put({ ...recording, lastAccessedAt: new Date().toISOString() }));
+    return recording.blob;
+  },
+
+  async delete(id) {
+    await idbRequest(RECORDINGS_STORE, 'readwrite', store => store.delete(id));
+  },
+
+  async list() {
+    const all = await idbRequest<StoredRecording[]>(RECORDINGS_STORE, 'readonly', store => store.getAll());
+    return all.map(toMeta);
+  }
+};
+
+// Undefined where IndexedDB is unavailable; local adapters then keep recordings inline as data URLs
+export const indexedDbRecordingStore: RecordingStore | undefined = isIndexedDBAvailable() ? idbStore : undefined;
+
+export const createMemoryRecordingStore = (): RecordingStore => {
+  const recordings = new Map<string, StoredRecording>();
+  return {
+    async put(sessionId, blob) {
+      const recording = newRecording(sessionId, blob);
+      recordings.set(recording.id, recording);
+      return recording.id;
+    },
+    async get(id) {
+      const recording = recordings.get(id);
+      if (!recording) return null;
+      recording.lastAccessedAt = new Date().toISOString();
+      return recording.blob;
+    },
+    async delete(id) {
+      recordings.delete(id);
+    },
+    async list() {
+      return Array.from(recordings.values()).map(toMeta);
+    }
+  };
+};
+
+const estimate = async (): Promise<{ usage?: number; quota?: number }> => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return {};
+  try {
+    return await navigator.storage.estimate();
+  } catch {
+    return {};
+  }
+};
+
+export const getStorageUsage = async (recordings?: RecordingStore): Promise<StorageUsage> => {
+  const list = recordings ? await recordings.list() : [];
+  const { usage, quota } = await estimate();
+  const persisted = typeof navigator !== 'undefined' && navigator.storage?.persisted
+    ? await navigator.storage.persisted().catch(() => false)
+    : undefined;
+  return {
+    recordings: list.length,
+    recordingBytes: list.reduce((sum, r) => sum + r.size, 0),
+    usage,
+    quota,
+    persisted
+  };
+};
+
+// Deletes least-recently-used recordings until they fit the budget. Protected IDs (e.g. not yet
+// uploaded to the server) are never evicted. Returns the evicted recordings.
+export const enforceRecordingBudget = async (
+  recordings: RecordingStore,
+  protectedIds: Set<string> = new Set()
+): Promise<RecordingMeta[]> => {
+  const { quota } = await estimate();
+  const budget = quota ? Math.min(MAX_RECORDING_BYTES, quota * QUOTA_SHARE) : MAX_RECORDING_BYTES;
+
+  const list = await recordings.list();
+  let total = list.reduce((sum, r) => sum + r.size, 0);
+  if (total <= budget) return [];
+
+  const evicted: RecordingMeta[] = [];
+  const candidates = list
+    .filter(r => !protectedIds.has(r.id))
+    .sort((a, b) => new Date(a.lastAccessedAt).getTime() - new Date(b.lastAccessedAt).getTime());
+
+  for (const recording of candidates) {
+    if (total <= budget) break;
+    await recordings.delete(recording.id);
+    total -= recording.size;
+    evicted.push(recording);
+  }
+
+  if (total > budget) {
+    console.warn(`Recordings use ${Math.round(total / 1048576)} MB, over the ${Math.round(budget / 1048576)} MB budget, but the rest are waiting to be uploaded.`);
+  }
+  return evicted;
+};
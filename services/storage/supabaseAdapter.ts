@@ -0,0 +1,755 @@
+import { supabase, isSupabaseConfigured, agentKeyAgentId } from '../supabaseClient';
+import { AgentProfile, ConfigVersion, Lead, LeadActivity, Session, Message, Appointment, FollowUpTask, UnansweredQuestion } from '../../types';
+import { StorageAdapter, SchemaIssue, SchemaReport } from './types';
+
+// UUID Validator
+export const isValidUUID = (id: string): boolean => {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id);
+};
+
+// --- Schema Requirements ---
+// Every table / column / bucket the app touches, keyed to the migration (supabase/migrations) that creates it.
+
+const MIGRATION_INITIAL = '20251210000000_initial_schema';
+const MIGRATION_APPOINTMENTS = '20251211000000_appointments';
+const MIGRATION_ESCALATION = '20251212000000_human_escalation';
+const MIGRATION_MULTI_AGENT = '20251213000000_multi_agent';
+const MIGRATION_CONFIG_VERSIONS = '20251214000000_config_versions';
+const MIGRATION_QUALIFICATION = '20251215000000_lead_qualification';
+const MIGRATION_DEAL_VALUE = '20251216000000_lead_deal_value';
+const MIGRATION_LEAD_ACTIVITIES = '20251217000000_lead_activities';
+const MIGRATION_INTERACTION_TIMES = '20251218000000_lead_interaction_times';
+const MIGRATION_FOLLOW_UP_TASKS = '20251219000000_follow_up_tasks';
+const MIGRATION_SESSION_INSIGHTS = '20251220000000_session_insights';
+const MIGRATION_LEAD_PERSONA = '20251221000000_lead_persona';
+const MIGRATION_SESSION_OBJECTIONS = '20251222000000_session_objections';
+const MIGRATION_UNANSWERED_QUESTIONS = '20251223000000_unanswered_questions';
+const MIGRATION_APPEND_SESSION_MESSAGE = '20251224000000_append_session_message';
+const MIGRATION_AGENT_ISOLATION = '20251225000000_agent_isolation';
+
+const SCHEMA_TABLES: Record<string, Record<string, string>> = {
+  agent_configs: {
+    id: MIGRATION_INITIAL, config: MIGRATION_INITIAL, created_at: MIGRATION_INITIAL, updated_at: MIGRATION_INITIAL,
+    slug: MIGRATION_MULTI_AGENT
+  },
+  agent_config_versions: {
+    id: MIGRATION_CONFIG_VERSIONS, agent_id: MIGRATION_CONFIG_VERSIONS, version: MIGRATION_CONFIG_VERSIONS,
+    config: MIGRATION_CONFIG_VERSIONS, author: MIGRATION_CONFIG_VERSIONS, note: MIGRATION_CONFIG_VERSIONS,
+    created_at: MIGRATION_CONFIG_VERSIONS
+  },
+  leads: {
+    id: MIGRATION_INITIAL, name: MIGRATION_INITIAL, company: MIGRATION_INITIAL, status: MIGRATION_INITIAL,
+    sentiment: MIGRATION_INITIAL, phone: MIGRATION_INITIAL,
+    interested_in: MIGRATION_INITIAL, notes: MIGRATION_INITIAL, created_at: MIGRATION_INITIAL,
+    escalated: MIGRATION_ESCALATION, agent_id: MIGRATION_MULTI_AGENT,
+    qualification: MIGRATION_QUALIFICATION, qualification_score: MIGRATION_QUALIFICATION,
+    deal_value: MIGRATION_DEAL_VALUE, last_interaction_at: MIGRATION_INTERACTION_TIMES,
+    persona_id: MIGRATION_LEAD_PERSONA
+  },
+  sessions: {
+    id: MIGRATION_INITIAL, lead_id: MIGRATION_INITIAL, transcript: MIGRATION_INITIAL,
+    audio_url: MIGRATION_INITIAL, created_at: MIGRATION_INITIAL, escalation: MIGRATION_ESCALATION,
+    agent_id: MIGRATION_MULTI_AGENT, insights: MIGRATION_SESSION_INSIGHTS, objections: MIGRATION_SESSION_OBJECTIONS
+  },
+  appointments: {
+    id: MIGRATION_APPOINTMENTS, lead_id: MIGRATION_APPOINTMENTS, session_id: MIGRATION_APPOINTMENTS,
+    starts_at: MIGRATION_APPOINTMENTS, ends_at: MIGRATION_APPOINTMENTS, status: MIGRATION_APPOINTMENTS,
+    notes: MIGRATION_APPOINTMENTS, created_at: MIGRATION_APPOINTMENTS, agent_id: MIGRATION_MULTI_AGENT
+  },
+  lead_activities: {
+    id: MIGRATION_LEAD_ACTIVITIES, lead_id: MIGRATION_LEAD_ACTIVITIES, session_id: MIGRATION_LEAD_ACTIVITIES,
+    agent_id: MIGRATION_LEAD_ACTIVITIES, type: MIGRATION_LEAD_ACTIVITIES, actor_kind: MIGRATION_LEAD_ACTIVITIES,
+    actor_name: MIGRATION_LEAD_ACTIVITIES, summary: MIGRATION_LEAD_ACTIVITIES, changes: MIGRATION_LEAD_ACTIVITIES,
+    created_at: MIGRATION_LEAD_ACTIVITIES
+  },
+  follow_up_tasks: {
+    id: MIGRATION_FOLLOW_UP_TASKS, lead_id: MIGRATION_FOLLOW_UP_TASKS, session_id: MIGRATION_FOLLOW_UP_TASKS,
+    agent_id: MIGRATION_FOLLOW_UP_TASKS, title: MIGRATION_FOLLOW_UP_TASKS, due_at: MIGRATION_FOLLOW_UP_TASKS,
+    status: MIGRATION_FOLLOW_UP_TASKS, source: MIGRATION_FOLLOW_UP_TASKS, rule_id: MIGRATION_FOLLOW_UP_TASKS,
+    assignee: MIGRATION_FOLLOW_UP_TASKS, completed_at: MIGRATION_FOLLOW_UP_TASKS, created_at: MIGRATION_FOLLOW_UP_TASKS
+  },
+  unanswered_questions: {
+    id: MIGRATION_UNANSWERED_QUESTIONS, lead_id: MIGRATION_UNANSWERED_QUESTIONS, session_id: MIGRATION_UNANSWERED_QUESTIONS,
+    agent_id: MIGRATION_UNANSWERED_QUESTIONS, question: MIGRATION_UNANSWERED_QUESTIONS, user_words: MIGRATION_UNANSWERED_QUESTIONS,
+    status: MIGRATION_UNANSWERED_QUESTIONS, faq_id: MIGRATION_UNANSWERED_QUESTIONS, created_at: MIGRATION_UNANSWERED_QUESTIONS
+  }
+};
+
+const SCHEMA_BUCKETS: Record<string, string> = {
+  recordings: MIGRATION_INITIAL
+};
+
+// Database functions, each probed with arguments that match no row
+const SCHEMA_FUNCTIONS: Record<string, { args: Record<string, unknown>; migration: string }> = {
+  append_session_message: {
+    args: { p_session_id: '00000000-0000-0000-0000-000000000000', p_message: { id: 'schema-check' } },
+    migration: MIGRATION_APPEND_SESSION_MESSAGE
+  }
+};
+
+// PostgREST error codes for unknown relations / columns (old and new server versions)
+const MISSING_TABLE_CODES = ['42P01', 'PGRST205'];
+const MISSING_COLUMN_CODES = ['42703', 'PGRST204'];
+const MISSING_FUNCTION_CODES = ['42883', 'PGRST202'];
+
+// PostgREST errors do not carry the HTTP status of the response. The db service needs it to tell
+// an outage (5xx, 408, 429), which is retried as is, from a rejected write (see isTransientError in db.ts).
+const withStatus = <E extends object>(error: E, status: number): E => Object.assign(error, { status });
+
+const mapLeadRow = (row: any): Lead => ({
+  id: row.id,
+  name: row.name,
+  company: row.company,
+  status: row.status,
+  createdAt: row.created_at,
+  lastInteractionAt: row.last_interaction_at || undefined,
+  sentiment: row.sentiment,
+  phone: row.phone,
+  interestedIn: row.interested_in,
+  notes: row.notes,
+  escalated: row.escalated || false,
+  agentId: row.agent_id || undefined,
+  qualification: row.qualification || undefined,
+  qualificationScore: row.qualification_score ?? undefined,
+  dealValue: row.deal_value != null ? Number(row.deal_value) : undefined,
+  personaId: row.persona_id || undefined
+});
+
+const mapSessionRow = (row: any): Session => ({
+  id: row.id,
+  leadId: row.lead_id,
+  createdAt: row.created_at,
+  transcript: row.transcript || [],
+  audioUrl: row.audio_url, // Correctly mapped from DB
+  escalation: row.escalation || undefined,
+  insights: row.insights || undefined,
+  objections: row.objections || undefined,
+  agentId: row.agent_id || undefined
+});
+
+// Map dates to strings for JSON storage
+const serializeTranscript = (transcript: Message[]) => transcript.map(m => ({
+  ...m,
+  timestamp: m.timestamp instanceof Date ? m.timestamp.toISOString() : m.timestamp
+}));
+
+const mapAppointmentRow = (row: any): Appointment => ({
+  id: row.id,
+  leadId: row.lead_id,
+  sessionId: row.session_id || undefined,
+  startsAt: row.starts_at,
+  endsAt: row.ends_at,
+  status: row.status,
+  notes: row.notes || undefined,
+  createdAt: row.created_at,
+  agentId: row.agent_id || undefined
+});
+
+const mapFollowUpTaskRow = (row: any): FollowUpTask => ({
+  id: row.id,
+  leadId: row.lead_id,
+  sessionId: row.session_id || undefined,
+  title: row.title,
+  dueAt: row.due_at,
+  status: row.status,
+  source: row.source,
+  ruleId: row.rule_id || undefined,
+  assignee: row.assignee || undefined,
+  completedAt: row.completed_at || undefined,
+  createdAt: row.created_at,
+  agentId: row.agent_id || undefined
+});
+
+const mapUnansweredQuestionRow = (row: any): UnansweredQuestion => ({
+  id: row.id,
+  leadId: row.lead_id,
+  sessionId: row.session_id || undefined,
+  question: row.question,
+  userWords: row.user_words || undefined,
+  status: row.status,
+  faqId: row.faq_id || undefined,
+  createdAt: row.created_at,
+  agentId: row.agent_id || undefined
+});
+
+const mapLeadActivityRow = (row: any): LeadActivity => ({
+  id: row.id,
+  leadId: row.lead_id,
+  sessionId: row.session_id || undefined,
+  type: row.type,
+  actor: { kind: row.actor_kind, name: row.actor_name },
+  summary: row.summary,
+  changes: row.changes && row.changes.length > 0 ? row.changes : undefined,
+  createdAt: row.created_at,
+  agentId: row.agent_id || undefined
+});
+
+const mapConfigVersionRow = (row: any): ConfigVersion => ({
+  id: row.id,
+  agentId: row.agent_id,
+  version: row.version,
+  config: row.config,
+  author: row.author,
+  note: row.note || undefined,
+  createdAt: row.created_at
+});
+
+const mapAgentRow = (row: any): AgentProfile => ({
+  id: row.id,
+  slug: row.slug || row.id,
+  name: row.config?.name || row.slug || 'Agent',
+  createdAt: row.created_at
+});
+
+// Reads and writes throw on failure; the db service decides whether to fall back or queue
+export const supabaseAdapter: StorageAdapter = {
+  backend: 'supabase',
+  isRemote: true,
+  scopedAgentId: agentKeyAgentId,
+
+  // --- Schema Check ---
+
+  // Probes every required table, column and bucket and reports exactly what is missing
+  async checkSchema(): Promise<SchemaReport> {
+    if (!isSupabaseConfigured) return { checked: false, missing: [] };
+
+    const missing: SchemaIssue[] = [];
+    try {
+      for (const [table, columns] of Object.entries(SCHEMA_TABLES)) {
+        const { error } = await supabase.from(table).select(Object.keys(columns).join(',')).limit(0);
+        if (!error) continue;
+
+        if (MISSING_TABLE_CODES.includes(error.code)) {
+          missing.push({ object: `table ${table}`, migration: columns.id });
+          continue;
+        }
+        if (!MISSING_COLUMN_CODES.includes(error.code)) throw error;
+
+        // Narrow down which columns are absent
+        for (const [column, migration] of Object.entries(columns)) {
+          const probe = await supabase.from(table).select(column).limit(0);
+          if (probe.error) missing.push({ object: `column ${table}.${column}`, migration });
+        }
+      }
+
+      for (const [bucket, migration] of Object.entries(SCHEMA_BUCKETS)) {
+        const { error } = await supabase.storage.from(bucket).list('', { limit: 1 });
+        if (error && /not found/i.test(error.message)) {
+          missing.push({ object: `bucket ${bucket}`, migration });
+        }
+      }
+
+      for (const [name, { args, migration }] of Object.entries(SCHEMA_FUNCTIONS)) {
+        const { error } = await supabase.rpc(name, args);
+        if (error && MISSING_FUNCTION_CODES.includes(error.code)) {
+          missing.push({ object: `function ${name}`, migration });
+        }
+      }
+
+      // Agent data that any request can still reach, not only the owning agent's key
+      const gaps = await supabase.rpc('agent_isolation_gaps');
+      if (gaps.error && MISSING_FUNCTION_CODES.includes(gaps.error.code)) {
+        missing.push({ object: 'function agent_isolation_gaps', migration: MIGRATION_AGENT_ISOLATION });
+      } else if (!gaps.error) {
+        (gaps.data as string[] || []).forEach(table =>
+          missing.push({ object: `agent-scoped policies on ${table}`, migration: MIGRATION_AGENT_ISOLATION }));
+      }
+    } catch (e: any) {
+      console.warn('Supabase schema check failed:', e.message || e);
+      return { checked: true, missing, error: e.message || String(e) };
+    }
+
+    if (missing.length > 0) {
+      console.error(
+        'Supabase schema is incomplete. Apply the listed migrations from supabase/migrations:\n' +
+        missing.map(m => `  - ${m.object} (${m.migration})`).join('\n')
+      );
+    }
+    return { checked: true, missing };
+  },
+
+  // --- Agents & Configuration ---
+
+  async getAgents() {
+    const { data, error, status } = await supabase
+      .from('agent_configs')
+      .select('id, slug, config->name, created_at')
+      .order('created_at', { ascending: true });
+
+    if (error) throw withStatus(error, status);
+    return data.map((row: any) => mapAgentRow({ ...row, config: { name: row.name } }));
+  },
+
+  async createAgent(slug, config, id) {
+    const { data, error, status } = await supabase
+      .from('agent_configs')
+      .insert([{ id, slug, config }])
+      .select('id, slug, config, created_at')
+      .single();
+
+    if (error) throw withStatus(error, status);
+    return mapAgentRow(data);
+  },
+
+  // Leads, sessions and appointments are removed by the agent_id foreign keys (on delete cascade)
+  async deleteAgent(agentId) {
+    const { error, status } = await supabase.from('agent_configs').delete().eq('id', agentId);
+    if (error) throw withStatus(error, status);
+  },
+
+  async getConfig(agentId) {
+    const { data, error, status } = await supabase
+      .from('agent_configs')
+      .select('config')
+      .eq('id', agentId)
+      .maybeSingle();
+
+    if (error) throw withStatus(error, status);
+    return data?.config || null;
+  },
+
+  async saveConfig(agentId, config) {
+    const { error, status } = await supabase
+      .from('agent_configs')
+      .update({ config, updated_at: new Date() })
+      .eq('id', agentId);
+    if (error) throw withStatus(error, status);
+  },
+
+  async getConfigVersions(agentId) {
+    const { data, error, status } = await supabase
+      .from('agent_config_versions')
+      .select('*')
+      .eq('agent_id', agentId)
+      .order('version', { ascending: false });
+
+    if (error) throw withStatus(error, status);
+    return data.map(mapConfigVersionRow);
+  },
+
+  // The version number is assigned by a trigger so concurrent editors never collide
+  async createConfigVersion(version) {
+    const { data, error, status } = await supabase
+      .from('agent_config_versions')
+      .insert([{
+        agent_id: version.agentId,
+        config: version.config,
+        author: version.author,
+        note: version.note,
+        created_at: version.createdAt
+      }])
+      .select()
+      .single();
+
+    if (error) throw withStatus(error, status);
+    return mapConfigVersionRow(data);
+  },
+
+  // --- Leads ---
+
+  async getLeads(agentId) {
+    const { data, error, status } = await supabase
+      .from('leads')
+      .select('*')
+      .eq('agent_id', agentId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw withStatus(error, status);
+    return data.map(mapLeadRow);
+  },
+
+  async createLead(lead) {
+    const { data, error, status } = await supabase
+      .from('leads')
+      .insert([{
+        name: lead.name,
+        company: lead.company,
+        status: lead.status,
+        created_at: lead.createdAt,
+        last_interaction_at: lead.lastInteractionAt || null,
+        sentiment: lead.sentiment,
+        phone: lead.phone,
+        interested_in: lead.interestedIn,
+        notes: lead.notes,
+        escalated: lead.escalated || false,
+        agent_id: lead.agentId,
+        qualification: lead.qualification || {},
+        qualification_score: lead.qualificationScore ?? null,
+        deal_value: lead.dealValue || 0,
+        persona_id: lead.personaId || null
+      }])
+      .select()
+      .single();
+
+    if (error) throw withStatus(error, status);
+    return mapLeadRow(data);
+  },
+
+  async updateLead(id, updates) {
+    const dbUpdates: any = {};
+    if (updates.name) dbUpdates.name = updates.name;
+    if (updates.company) dbUpdates.company = updates.company;
+    if (updates.status) dbUpdates.status = updates.status;
+    if (updates.lastInteractionAt) dbUpdates.last_interaction_at = updates.lastInteractionAt;
+    if (updates.sentiment) dbUpdates.sentiment = updates.sentiment;
+    if (updates.phone) dbUpdates.phone = updates.phone;
+    if (updates.interestedIn) dbUpdates.interested_in = updates.interestedIn;
+    if (updates.notes) dbUpdates.notes = updates.notes;
+    if (updates.escalated !== undefined) dbUpdates.escalated = updates.escalated;
+    if (updates.qualification) dbUpdates.qualification = updates.qualification;
+    if (updates.qualificationScore !== undefined) dbUpdates.qualification_score = updates.qualificationScore;
+    if (updates.dealValue !== undefined) dbUpdates.deal_value = updates.dealValue;
+    if (updates.personaId) dbUpdates.persona_id = updates.personaId;
+
+    const { error, status } = await supabase.from('leads').update(dbUpdates).eq('id', id);
+    if (error) throw withStatus(error, status);
+  },
+
+  async deleteLead(id) {
+    const { error, status } = await supabase.from('leads').delete().eq('id', id);
+    if (error) throw withStatus(error, status);
+  },
+
+  // Safe to replay: once re-parented nothing matches the duplicate any more, and the delete is a no-op
+  async mergeLeads(survivorId, duplicateId) {
+    for (const table of ['sessions', 'appointments', 'lead_activities', 'follow_up_tasks', 'unanswered_questions']) {
+      const { error, status } = await supabase.from(table).update({ lead_id: survivorId }).eq('lead_id', duplicateId);
+      if (error) throw withStatus(error, status);
+    }
+    const { error, status } = await supabase.from('leads').delete().eq('id', duplicateId);
+    if (error) throw withStatus(error, status);
+  },
+
+  async getLeadActivities(leadId) {
+    const { data, error, status } = await supabase
+      .from('lead_activities')
+      .select('*')
+      .eq('lead_id', leadId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw withStatus(error, status);
+    return data.map(mapLeadActivityRow);
+  },
+
+  async createLeadActivity(activity) {
+    const { data, error, status } = await supabase
+      .from('lead_activities')
+      .insert([{
+        lead_id: activity.leadId,
+        session_id: activity.sessionId && isValidUUID(activity.sessionId) ? activity.sessionId : null,
+        agent_id: activity.agentId,
+        type: activity.type,
+        actor_kind: activity.actor.kind,
+        actor_name: activity.actor.name,
+        summary: activity.summary,
+        changes: activity.changes || [],
+        created_at: activity.createdAt
+      }])
+      .select()
+      .single();
+
+    if (error) throw withStatus(error, status);
+    return mapLeadActivityRow(data);
+  },
+
+  // --- Sessions (Recording) ---
+
+  async getSessions(leadId) {
+    const { data, error, status } = await supabase
+      .from('sessions')
+      .select('*')
+      .eq('lead_id', leadId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw withStatus(error, status);
+    return data.map(mapSessionRow);
+  },
+
+  async getSession(id) {
+    const { data, error, status } = await supabase
+      .from('sessions')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw withStatus(error, status);
+    return data ? mapSessionRow(data) : null;
+  },
+
+  async getEscalatedSessions(agentId) {
+    const { data, error, status } = await supabase
+      .from('sessions')
+      .select('*')
+      .eq('agent_id', agentId)
+      .in('escalation->>status', ['Waiting', 'Active'])
+      .order('created_at', { ascending: false });
+
+    if (error) throw withStatus(error, status);
+    return data.map(mapSessionRow);
+  },
+
+  async getAgentSessions(agentId, since) {
+    let query = supabase.from('sessions').select('*').eq('agent_id', agentId);
+    if (since) query = query.gte('created_at', since);
+    const { data, error, status } = await query.order('created_at', { ascending: false });
+
+    if (error) throw withStatus(error, status);
+    return data.map(mapSessionRow);
+  },
+
+  async createSession(leadId, createdAt, agentId) {
+    const { data, error, status } = await supabase
+      .from('sessions')
+      .insert([{ lead_id: leadId, transcript: [], created_at: createdAt, agent_id: agentId }])
+      .select()
+      .single();
+
+    if (error) throw withStatus(error, status);
+    return mapSessionRow(data);
+  },
+
+  async updateSessionTranscript(id, transcript) {
+    const { error, status } = await supabase
+      .from('sessions')
+      .update({ transcript: serializeTranscript(transcript) })
+      .eq('id', id);
+    if (error) throw withStatus(error, status);
+  },
+
+  // Appended by the database in one statement, so messages the visitor and an operator send at the same time are both kept
+  async appendSessionMessage(id, message) {
+    const { error, status } = await supabase.rpc('append_session_message', {
+      p_session_id: id,
+      p_message: serializeTranscript([message])[0]
+    });
+    if (error) throw withStatus(error, status);
+  },
+
+  async updateSessionEscalation(id, escalation) {
+    const { error, status } = await supabase
+      .from('sessions')
+      .update({ escalation })
+      .eq('id', id);
+    if (error) throw withStatus(error, status);
+  },
+
+  async updateSessionInsights(id, insights) {
+    const { error, status } = await supabase
+      .from('sessions')
+      .update({ insights })
+      .eq('id', id);
+    if (error) throw withStatus(error, status);
+  },
+
+  async updateSessionObjections(id, objections) {
+    const { error, status } = await supabase
+      .from('sessions')
+      .update({ objections })
+      .eq('id', id);
+    if (error) throw withStatus(error, status);
+  },
+
+  async moveSession(id, leadId) {
+    const { error, status } = await supabase
+      .from('sessions')
+      .update({ lead_id: leadId })
+      .eq('id', id);
+    if (error) throw withStatus(error, status);
+  },
+
+  async saveRecording(sessionId, audioBlob) {
+    // Sanitize filename to avoid path issues
+    const cleanSessionId = sessionId.replace(/[^a-zA-Z0-9-]/g, '');
+
+    // Determine extension safely
+    let ext = 'webm';
+    if (audioBlob.type.includes('mp4')) ext = 'mp4';
+    else if (audioBlob.type.includes('wav')) ext = 'wav';
+    else if (audioBlob.type.includes('ogg')) ext = 'ogg';
+
+    // Add random suffix to ensure uniqueness (prevents overwrites and avoids need for upsert)
+    // Under the agent's folder, the only one its key may write (see the agent_isolation migration)
+    const fileName = `${agentKeyAgentId ? `${agentKeyAgentId}/` : ''}${cleanSessionId}_${Date.now()}_${Math.random().toString(36).substring(7)}.${ext}`;
+
+    console.log(`Uploading audio: ${fileName} (${audioBlob.type}, ${audioBlob.size} bytes)`);
+
+    // 1. Upload to Supabase Storage 'recordings' bucket
+    // We do NOT use upsert: true here to avoid strict RLS update policy requirements.
+    // A simple INSERT policy is enough for new files.
+    const { error: uploadError } = await supabase.storage
+      .from('recordings')
+      .upload(fileName, audioBlob, {
+        contentType: audioBlob.type || `audio/${ext}`,
+      });
+
+    if (uploadError) {
+      // Log details (stringified to avoid [object Object])
+      console.error("Supabase Storage Upload Error:", JSON.stringify(uploadError, null, 2));
+      throw uploadError;
+    }
+
+    // 2. Get the Public URL
+    const { data: { publicUrl } } = supabase.storage
+      .from('recordings')
+      .getPublicUrl(fileName);
+
+    // 3. Update the Session record with the URL
+    const { error: dbError, status: dbStatus } = await supabase
+      .from('sessions')
+      .update({ audio_url: publicUrl })
+      .eq('id', sessionId);
+
+    if (dbError) {
+      // Check if column error
+      if (dbError.message.includes("Could not find the 'audio_url' column")) {
+         console.error(`CRITICAL: The 'sessions' table is missing the 'audio_url' column. Apply supabase/migrations/${MIGRATION_INITIAL}.sql.`);
+      } else {
+         console.error("Database Update Error:", dbError);
+      }
+      throw withStatus(dbError, dbStatus);
+    }
+
+    console.log("Audio saved to Supabase:", publicUrl);
+    return publicUrl;
+  },
+
+  // --- Appointments (Booking) ---
+
+  async getAppointments(agentId, leadId) {
+    let query = supabase
+      .from('appointments')
+      .select('*')
+      .eq('agent_id', agentId)
+      .order('starts_at', { ascending: true });
+    if (leadId) query = query.eq('lead_id', leadId);
+
+    const { data, error, status } = await query;
+    if (error) throw withStatus(error, status);
+    return data.map(mapAppointmentRow);
+  },
+
+  async createAppointment(appointment) {
+    const { data, error, status } = await supabase
+      .from('appointments')
+      .insert([{
+        lead_id: appointment.leadId,
+        session_id: appointment.sessionId && isValidUUID(appointment.sessionId) ? appointment.sessionId : null,
+        starts_at: appointment.startsAt,
+        ends_at: appointment.endsAt,
+        status: appointment.status,
+        notes: appointment.notes,
+        agent_id: appointment.agentId
+      }])
+      .select()
+      .single();
+
+    if (error) throw withStatus(error, status);
+    return mapAppointmentRow(data);
+  },
+
+  async updateAppointment(id, updates) {
+    const dbUpdates: any = {};
+    if (updates.status) dbUpdates.status = updates.status;
+    if (updates.startsAt) dbUpdates.starts_at = updates.startsAt;
+    if (updates.endsAt) dbUpdates.ends_at = updates.endsAt;
+    if (updates.notes !== undefined) dbUpdates.notes = updates.notes;
+
+    const { error, status } = await supabase.from('appointments').update(dbUpdates).eq('id', id);
+    if (error) throw withStatus(error, status);
+  },
+
+  async deleteAppointment(id) {
+    const { error, status } = await supabase.from('appointments').delete().eq('id', id);
+    if (error) throw withStatus(error, status);
+  },
+
+  // --- Follow-up Tasks ---
+
+  async getFollowUpTasks(agentId, leadId) {
+    let query = supabase
+      .from('follow_up_tasks')
+      .select('*')
+      .eq('agent_id', agentId)
+      .order('due_at', { ascending: true });
+    if (leadId) query = query.eq('lead_id', leadId);
+
+    const { data, error, status } = await query;
+    if (error) throw withStatus(error, status);
+    return data.map(mapFollowUpTaskRow);
+  },
+
+  async createFollowUpTask(task) {
+    const { data, error, status } = await supabase
+      .from('follow_up_tasks')
+      .insert([{
+        lead_id: task.leadId,
+        session_id: task.sessionId && isValidUUID(task.sessionId) ? task.sessionId : null,
+        title: task.title,
+        due_at: task.dueAt,
+        status: task.status,
+        source: task.source,
+        rule_id: task.ruleId || null,
+        assignee: task.assignee || null,
+        completed_at: task.completedAt || null,
+        agent_id: task.agentId
+      }])
+      .select()
+      .single();
+
+    if (error) throw withStatus(error, status);
+    return mapFollowUpTaskRow(data);
+  },
+
+  async updateFollowUpTask(id, updates) {
+    const dbUpdates: any = {};
+    if (updates.title) dbUpdates.title = updates.title;
+    if (updates.dueAt) dbUpdates.due_at = updates.dueAt;
+    if (updates.status) dbUpdates.status = updates.status;
+    if (updates.assignee !== undefined) dbUpdates.assignee = updates.assignee || null;
+    if (updates.completedAt !== undefined) dbUpdates.completed_at = updates.completedAt || null;
+
+    const { error, status } = await supabase.from('follow_up_tasks').update(dbUpdates).eq('id', id);
+    if (error) throw withStatus(error, status);
+  },
+
+  // --- Unanswered Questions ---
+
+  async getUnansweredQuestions(agentId) {
+    const { data, error, status } = await supabase
+      .from('unanswered_questions')
+      .select('*')
+      .eq('agent_id', agentId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw withStatus(error, status);
+    return data.map(mapUnansweredQuestionRow);
+  },
+
+  async createUnansweredQuestion(question) {
+    const { data, error, status } = await supabase
+      .from('unanswered_questions')
+      .insert([{
+        lead_id: question.leadId,
+        session_id: question.sessionId && isValidUUID(question.sessionId) ? question.sessionId : null,
+        question: question.question,
+        user_words: question.userWords || null,
+        status: question.status,
+        faq_id: question.faqId || null,
+        agent_id: question.agentId
+      }])
+      .select()
+      .single();
+
+    if (error) throw withStatus(error, status);
+    return mapUnansweredQuestionRow(data);
+  },
+
+  async updateUnansweredQuestion(id, updates) {
+    const dbUpdates: any = {};
+    if (updates.status) dbUpdates.status = updates.status;
+    if (updates.faqId !== undefined) dbUpdates.faq_id = updates.faqId || null;
+
+    const { error, status } = await supabase.from('unanswered_questions').update(dbUpdates).eq('id', id);
+    if (error) throw withStatus(error, status);
+  }
+};
@@ -0,0 +1,88 @@
+import { AgentConfig, AgentProfile, ConfigVersion, Lead, LeadActivity, Session, Message, Appointment, FollowUpTask, UnansweredQuestion, SessionEscalation, SessionInsights, ObjectionOccurrence } from '../../types';
+import { RecordingStore } from './recordingStore';
+
+export type StorageBackend = 'supabase' | 'localStorage' | 'indexedDB' | 'memory';
+
+export interface SchemaIssue {
+  object: string; // e.g. "table leads", "column sessions.audio_url", "bucket recordings"
+  migration: string;
+}
+
+export interface SchemaReport {
+  checked: boolean; // false when the backend has no schema to verify (local mode)
+  missing: SchemaIssue[];
+  error?: string; // set when the database could not be reached at all
+}
+
+// Everything the app persists. The db service picks one implementation at startup;
+// remote adapters are additionally mirrored to local storage and written through the outbox.
+export interface StorageAdapter {
+  readonly backend: StorageBackend;
+  readonly isRemote: boolean;
+  readonly scopedAgentId?: string | null; // set when the backend only lets this browser reach one agent (an agent key)
+
+  checkSchema?(): Promise<SchemaReport>;
+
+  // Agents and their configs
+  getAgents(): Promise<AgentProfile[]>; // oldest first; the first agent owns legacy rows without an agentId
+  createAgent(slug: string, config: AgentConfig, id?: string): Promise<AgentProfile>; // id: the scoped agent's, if any
+  deleteAgent(agentId: string): Promise<void>; // also removes the agent's leads, sessions and appointments
+  getConfig(agentId: string): Promise<AgentConfig | null>;
+  saveConfig(agentId: string, config: AgentConfig): Promise<void>;
+  getConfigVersions(agentId: string): Promise<ConfigVersion[]>; // newest first
+  createConfigVersion(version: Omit<ConfigVersion, 'id' | 'version'>): Promise<ConfigVersion>; // numbered by the backend
+
+  // Leads
+  getLeads(agentId: string): Promise<Lead[]>;
+  createLead(lead: Omit<Lead, 'id'>): Promise<Lead>;
+  updateLead(id: string, updates: Partial<Lead>): Promise<void>;
+  deleteLead(id: string): Promise<void>;
+  mergeLeads(survivorId: string, duplicateId: string): Promise<void>; // re-parents sessions, appointments, activities and tasks, then deletes the duplicate
+
+  // Lead activity log (append-only; removed only together with the lead)
+  getLeadActivities(leadId: string): Promise<LeadActivity[]>; // newest first
+  createLeadActivity(activity: Omit<LeadActivity, 'id'>): Promise<LeadActivity>;
+
+  // Sessions
+  getSessions(leadId: string): Promise<Session[]>;
+  getSession(id: string): Promise<Session | null>;
+  getEscalatedSessions(agentId: string): Promise<Session[]>;
+  getAgentSessions(agentId: string, since?: string): Promise<Session[]>; // newest first, created at or after since
+  createSession(leadId: string, createdAt: string, agentId?: string): Promise<Session>;
+  updateSessionTranscript(id: string, transcript: Message[]): Promise<void>;
+  appendSessionMessage(id: string, message: Message): Promise<void>; // atomic on the backend; skips a message id already stored
+  updateSessionEscalation(id: string, escalation: SessionEscalation): Promise<void>;
+  updateSessionInsights(id: string, insights: SessionInsights): Promise<void>;
+  updateSessionObjections(id: string, objections: ObjectionOccurrence[]): Promise<void>;
+  moveSession(id: string, leadId: string): Promise<void>; // re-parents a session to another lead of the same agent
+
+  // Recordings: stores the audio and returns the URL now saved on the session
+  saveRecording(sessionId: string, audio: Blob): Promise<string>;
+
+  // Local adapters keep recording Blobs here; session audio URLs reference them (see recordingStore)
+  readonly recordings?: RecordingStore;
+  // Moves recordings saved inline as base64 data URLs into the recording store. Returns how many moved.
+  migrateInlineRecordings?(): Promise<number>;
+
+  // Appointments
+  getAppointments(agentId: string, leadId?: string): Promise<Appointment[]>;
+  createAppointment(appointment: Omit<Appointment, 'id' | 'createdAt'>): Promise<Appointment>;
+  updateAppointment(id: string, updates: Partial<Appointment>): Promise<void>;
+  deleteAppointment(id: string): Promise<void>;
+
+  // Follow-up tasks
+  getFollowUpTasks(agentId: string, leadId?: string): Promise<FollowUpTask[]>; // soonest due first
+  createFollowUpTask(task: Omit<FollowUpTask, 'id' | 'createdAt'>): Promise<FollowUpTask>;
+  updateFollowUpTask(id: string, updates: Partial<FollowUpTask>): Promise<void>;
+
+  // Knowledge gaps reported by the agent (FAQ inbox)
+  getUnansweredQuestions(agentId: string): Promise<UnansweredQuestion[]>; // newest first
+  createUnansweredQuestion(question: Omit<UnansweredQuestion, 'id' | 'createdAt'>): Promise<UnansweredQuestion>;
+  updateUnansweredQuestion(id: string, updates: Partial<UnansweredQuestion>): Promise<void>;
+}
+
+// Minimal async key/value store the local adapters are built on
+export interface RecordStore {
+  read<T>(key: string, defaultVal: T): Promise<T>;
+  write(key: string, value: any): Promise<void>;
+}
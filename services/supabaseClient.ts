@@ -1,7 +1,7 @@
 import { createClient } from '@supabase/supabase-js';
 
 // Helper to check standard process.env and Vite's import.meta.env
-const getEnvVar = (key: string): string => {
+export const getEnvVar = (key: string): string => {
   // Check process.env (Standard/CRA/Next)
   if (typeof process !== 'undefined' && process.env && process.env[key]) {
     return process.env[key];
@@ -26,7 +26,43 @@ const rawKey = getEnvVar('SUPABASE_KEY') || getEnvVar('VITE_SUPABASE_KEY') || DE
 const supabaseUrl = rawUrl || 'https://placeholder.supabase.co';
 const supabaseKey = rawKey || 'placeholder-key';
 
-export const supabase = createClient(supabaseUrl, supabaseKey);
+// Agent key (see scripts/agent-key.mjs): a JWT signed with the project's JWT secret whose agent_id claim the
+// row-level security policies check, so requests made with it only reach that agent's rows. Sent in place of the
+// anon key. Taken from `?key=` in the URL (and remembered on this device), else SUPABASE_AGENT_KEY / VITE_SUPABASE_AGENT_KEY.
+const AGENT_KEY_PARAM = 'key';
+const AGENT_KEY_STORAGE = 'nova_agent_key';
+
+const readAgentKey = (): string | null => {
+  try {
+    const fromUrl = new URLSearchParams(window.location.search).get(AGENT_KEY_PARAM);
+    if (fromUrl) localStorage.setItem(AGENT_KEY_STORAGE, fromUrl);
+    return fromUrl || localStorage.getItem(AGENT_KEY_STORAGE) || getEnvVar('SUPABASE_AGENT_KEY') || getEnvVar('VITE_SUPABASE_AGENT_KEY') || null;
+  } catch (e) {
+    return getEnvVar('SUPABASE_AGENT_KEY') || getEnvVar('VITE_SUPABASE_AGENT_KEY') || null;
+  }
+};
+
+// The agent_id claim, read without verifying the signature (the database does that)
+const agentIdOf = (key: string | null): string | null => {
+  try {
+    const payload = key?.split('.')[1];
+    if (!payload) return null;
+    const claims = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof claims.agent_id === 'string' ? claims.agent_id : null;
+  } catch (e) {
+    console.warn('Could not read the agent key:', e);
+    return null;
+  }
+};
+
+const agentKey = readAgentKey();
+
+// The only agent this browser's requests can reach; null without an agent key
+export const agentKeyAgentId = agentIdOf(agentKey);
+
+export const supabase = agentKey
+  ? createClient(supabaseUrl, supabaseKey, { accessToken: async () => agentKey })
+  : createClient(supabaseUrl, supabaseKey);
 
 // Robust check to determine if we should actually attempt DB calls
 export const isSupabaseConfigured = 
@@ -0,0 +1,77 @@
+-- Initial schema: agent configuration, CRM leads, recorded sessions and the recordings bucket.
+-- The app talks to Supabase directly from the browser with the anon key, so RLS policies below
+-- grant the anon/authenticated roles access. Tighten them once the admin area sits behind auth.
+
+create extension if not exists pgcrypto;
+
+-- Agent Configuration -------------------------------------------------------
+
+create table if not exists public.agent_configs (
+  id uuid primary key default gen_random_uuid(),
+  config jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Leads ----------------------------------------------------------------------
+
+create table if not exists public.leads (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  company text not null default 'Unknown',
+  status text not null default 'New',
+  last_interaction text,
+  sentiment text not null default 'Neutral',
+  phone text,
+  interested_in text,
+  notes text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists leads_created_at_idx on public.leads (created_at desc);
+create index if not exists leads_phone_idx on public.leads (phone);
+
+-- Sessions (Recording) -------------------------------------------------------
+
+create table if not exists public.sessions (
+  id uuid primary key default gen_random_uuid(),
+  lead_id uuid not null references public.leads (id) on delete cascade,
+  transcript jsonb not null default '[]'::jsonb,
+  audio_url text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists sessions_lead_id_created_at_idx on public.sessions (lead_id, created_at desc);
+
+-- Row Level Security ---------------------------------------------------------
+
+alter table public.agent_configs enable row level security;
+alter table public.leads enable row level security;
+alter table public.sessions enable row level security;
+
+drop policy if exists "agent_configs_public_access" on public.agent_configs;
+create policy "agent_configs_public_access" on public.agent_configs
+  for all to anon, authenticated using (true) with check (true);
+
+drop policy if exists "leads_public_access" on public.leads;
+create policy "leads_public_access" on public.leads
+  for all to anon, authenticated using (true) with check (true);
+
+drop policy if exists "sessions_public_access" on public.sessions;
+create policy "sessions_public_access" on public.sessions
+  for all to anon, authenticated using (true) with check (true);
+
+-- Storage: call recordings ---------------------------------------------------
+-- Uploads never overwrite (unique file names), so only insert + read are granted.
+
+insert into storage.buckets (id, name, public)
+values ('recordings', 'recordings', true)
+on conflict (id) do nothing;
+
+drop policy if exists "recordings_insert" on storage.objects;
+create policy "recordings_insert" on storage.objects
+  for insert to anon, authenticated with check (bucket_id = 'recordings');
+
+drop policy if exists "recordings_read" on storage.objects;
+create policy "recordings_read" on storage.objects
+  for select to anon, authenticated using (bucket_id = 'recordings');
@@ -0,0 +1,22 @@
+-- Appointment booking (book_appointment tool + admin process availability).
+
+create table if not exists public.appointments (
+  id uuid primary key default gen_random_uuid(),
+  lead_id uuid not null references public.leads (id) on delete cascade,
+  session_id uuid references public.sessions (id) on delete set null,
+  starts_at timestamptz not null,
+  ends_at timestamptz not null,
+  status text not null default 'Scheduled' check (status in ('Scheduled', 'Cancelled', 'Completed')),
+  notes text,
+  created_at timestamptz not null default now(),
+  check (ends_at > starts_at)
+);
+
+create index if not exists appointments_lead_id_idx on public.appointments (lead_id);
+create index if not exists appointments_starts_at_idx on public.appointments (starts_at) where status = 'Scheduled';
+
+alter table public.appointments enable row level security;
+
+drop policy if exists "appointments_public_access" on public.appointments;
+create policy "appointments_public_access" on public.appointments
+  for all to anon, authenticated using (true) with check (true);
@@ -0,0 +1,8 @@
+-- Human escalation handoff (escalate_to_human tool + admin live queue).
+
+alter table public.leads add column if not exists escalated boolean not null default false;
+alter table public.sessions add column if not exists escalation jsonb;
+
+-- The live queue polls for open escalations
+create index if not exists sessions_escalation_status_idx on public.sessions ((escalation ->> 'status'))
+  where escalation is not null;
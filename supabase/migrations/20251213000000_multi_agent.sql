@@ -0,0 +1,40 @@
+-- Multiple named agents per deployment. Each agent_configs row is one agent, addressed by a URL slug;
+-- leads, sessions and appointments belong to an agent. Existing data is assigned to the oldest agent.
+-- Access is not scoped by agent yet; 20251225000000_agent_isolation replaces the public policies with ones
+-- that check the request's agent key.
+
+alter table public.agent_configs add column if not exists slug text;
+
+update public.agent_configs
+set slug = 'default'
+where slug is null
+  and id = (select id from public.agent_configs order by created_at asc limit 1)
+  and not exists (select 1 from public.agent_configs where slug = 'default');
+
+update public.agent_configs set slug = id::text where slug is null;
+
+alter table public.agent_configs alter column slug set not null;
+create unique index if not exists agent_configs_slug_key on public.agent_configs (slug);
+
+alter table public.leads add column if not exists agent_id uuid references public.agent_configs (id) on delete cascade;
+alter table public.sessions add column if not exists agent_id uuid references public.agent_configs (id) on delete cascade;
+alter table public.appointments add column if not exists agent_id uuid references public.agent_configs (id) on delete cascade;
+
+-- Backfill rows created before this migration
+update public.leads l
+set agent_id = (select id from public.agent_configs order by created_at asc limit 1)
+where l.agent_id is null;
+
+update public.sessions s
+set agent_id = l.agent_id
+from public.leads l
+where s.lead_id = l.id and s.agent_id is null;
+
+update public.appointments a
+set agent_id = l.agent_id
+from public.leads l
+where a.lead_id = l.id and a.agent_id is null;
+
+create index if not exists leads_agent_id_idx on public.leads (agent_id, created_at desc);
+create index if not exists sessions_agent_id_idx on public.sessions (agent_id);
+create index if not exists appointments_agent_id_idx on public.appointments (agent_id, starts_at);
@@ -0,0 +1,49 @@
+-- Config version history: every admin save inserts an immutable snapshot; rollback inserts an old
+-- snapshot again as the newest version. Rows are never updated or deleted by the app.
+
+create table if not exists public.agent_config_versions (
+  id uuid primary key default gen_random_uuid(),
+  agent_id uuid not null references public.agent_configs (id) on delete cascade,
+  version integer not null,
+  config jsonb not null,
+  author text not null default 'Unknown',
+  note text,
+  created_at timestamptz not null default now(),
+  unique (agent_id, version)
+);
+
+create index if not exists agent_config_versions_agent_idx on public.agent_config_versions (agent_id, version desc);
+
+-- Numbers versions per agent server-side so two editors saving at once never collide
+create or replace function public.assign_config_version() returns trigger
+language plpgsql as $$
+begin
+  perform pg_advisory_xact_lock(hashtext(new.agent_id::text));
+  select coalesce(max(version), 0) + 1 into new.version
+  from public.agent_config_versions
+  where agent_id = new.agent_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists agent_config_versions_assign_version on public.agent_config_versions;
+create trigger agent_config_versions_assign_version
+  before insert on public.agent_config_versions
+  for each row execute function public.assign_config_version();
+
+-- Seed v1 from each agent's current config so there is always something to roll back to
+insert into public.agent_config_versions (agent_id, version, config, author, note)
+select c.id, 1, c.config, 'System', 'Initial version'
+from public.agent_configs c
+where not exists (select 1 from public.agent_config_versions v where v.agent_id = c.id);
+
+alter table public.agent_config_versions enable row level security;
+
+-- Insert and read only: history is immutable
+drop policy if exists "agent_config_versions_read" on public.agent_config_versions;
+create policy "agent_config_versions_read" on public.agent_config_versions
+  for select to anon, authenticated using (true);
+
+drop policy if exists "agent_config_versions_insert" on public.agent_config_versions;
+create policy "agent_config_versions_insert" on public.agent_config_versions
+  for insert to anon, authenticated with check (true);
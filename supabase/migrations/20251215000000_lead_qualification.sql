@@ -0,0 +1,9 @@
+-- Structured lead qualification (qualify_lead tool + CRM score column).
+-- Assessments are keyed by the criterion ids in agent_configs.config -> process -> qualificationCriteria.
+
+alter table public.leads add column if not exists qualification jsonb not null default '{}'::jsonb;
+alter table public.leads add column if not exists qualification_score smallint
+  check (qualification_score between 0 and 100);
+
+-- Managers work through leads by score, highest first
+create index if not exists leads_agent_score_idx on public.leads (agent_id, qualification_score desc nulls last);
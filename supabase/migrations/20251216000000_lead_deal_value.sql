@@ -0,0 +1,5 @@
+-- Expected deal value per lead, totalled per stage on the CRM pipeline board.
+-- Plain amount in the company's pricing currency; 0 means not estimated yet.
+
+alter table public.leads add column if not exists deal_value numeric(12, 2) not null default 0
+  check (deal_value >= 0);
@@ -0,0 +1,36 @@
+-- Lead activity log: status changes, field edits, AI tool updates, sessions, escalations and bookings,
+-- each attributed to the AI agent, an admin/operator or the visitor. Rows are never edited; the only
+-- permitted update re-parents a duplicate's history onto the surviving lead when leads are merged.
+
+create table if not exists public.lead_activities (
+  id uuid primary key default gen_random_uuid(),
+  lead_id uuid not null references public.leads (id) on delete cascade,
+  session_id uuid references public.sessions (id) on delete set null,
+  agent_id uuid references public.agent_configs (id) on delete cascade,
+  type text not null,
+  actor_kind text not null check (actor_kind in ('agent', 'admin', 'visitor', 'system')),
+  actor_name text not null,
+  summary text not null,
+  changes jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists lead_activities_lead_idx on public.lead_activities (lead_id, created_at desc);
+
+alter table public.lead_activities enable row level security;
+
+drop policy if exists "lead_activities_read" on public.lead_activities;
+create policy "lead_activities_read" on public.lead_activities
+  for select to anon, authenticated using (true);
+
+drop policy if exists "lead_activities_insert" on public.lead_activities;
+create policy "lead_activities_insert" on public.lead_activities
+  for insert to anon, authenticated with check (true);
+
+-- Merging leads moves history; no other column may change and rows cannot be deleted directly
+drop policy if exists "lead_activities_reparent" on public.lead_activities;
+create policy "lead_activities_reparent" on public.lead_activities
+  for update to anon, authenticated using (true) with check (true);
+
+revoke update, delete on public.lead_activities from anon, authenticated;
+grant update (lead_id) on public.lead_activities to anon, authenticated;
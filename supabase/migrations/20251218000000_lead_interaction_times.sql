@@ -0,0 +1,20 @@
+-- Replaces the free-text last_interaction label ("Just now") with a real timestamp, so leads can be
+-- sorted, filtered and aged. Existing leads get the start of their latest conversation.
+
+alter table public.leads add column if not exists last_interaction_at timestamptz;
+
+do $$
+begin
+  if exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'leads' and column_name = 'last_interaction'
+  ) then
+    update public.leads l
+    set last_interaction_at = (select max(s.created_at) from public.sessions s where s.lead_id = l.id)
+    where l.last_interaction_at is null;
+
+    alter table public.leads drop column last_interaction;
+  end if;
+end $$;
+
+create index if not exists leads_agent_id_last_interaction_at_idx on public.leads (agent_id, last_interaction_at);
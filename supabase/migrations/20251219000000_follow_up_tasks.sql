@@ -0,0 +1,26 @@
+-- Follow-up tasks: reminders to get back to a lead, created by the agent's follow-up rules (on entering a
+-- pipeline stage), by the schedule_follow_up tool when a visitor asks to be contacted later, or by an admin.
+
+create table if not exists public.follow_up_tasks (
+  id uuid primary key default gen_random_uuid(),
+  lead_id uuid not null references public.leads (id) on delete cascade,
+  session_id uuid references public.sessions (id) on delete set null,
+  agent_id uuid references public.agent_configs (id) on delete cascade,
+  title text not null,
+  due_at timestamptz not null,
+  status text not null default 'Open' check (status in ('Open', 'Done', 'Cancelled')),
+  source text not null check (source in ('rule', 'agent', 'admin')),
+  rule_id text,
+  assignee text,
+  completed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists follow_up_tasks_lead_idx on public.follow_up_tasks (lead_id);
+create index if not exists follow_up_tasks_agent_due_idx on public.follow_up_tasks (agent_id, due_at) where status = 'Open';
+
+alter table public.follow_up_tasks enable row level security;
+
+drop policy if exists "follow_up_tasks_public_access" on public.follow_up_tasks;
+create policy "follow_up_tasks_public_access" on public.follow_up_tasks
+  for all to anon, authenticated using (true) with check (true);
@@ -0,0 +1,3 @@
+-- Post-call AI digest per session: summary, next steps, objections, products mentioned and budget signals.
+
+alter table public.sessions add column if not exists insights jsonb;
@@ -0,0 +1,4 @@
+-- Target persona the agent matched each lead to (id of an entry in the agent's config.personas).
+-- Used for conversion by persona on the analytics dashboard; null until the agent decides.
+
+alter table public.leads add column if not exists persona_id text;
@@ -0,0 +1,4 @@
+-- Objections the agent reported during each session (report_objection tool), matched to the agent's
+-- objection handlers where possible. Aggregated into the handler effectiveness table.
+
+alter table public.sessions add column if not exists objections jsonb;
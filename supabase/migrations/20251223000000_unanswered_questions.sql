@@ -0,0 +1,22 @@
+-- Knowledge gaps: visitor questions the agent could not answer, reported with the unanswered_question tool.
+-- Admins review them in the FAQ inbox and either promote them to an FAQ (faq_id) or dismiss them.
+
+create table if not exists public.unanswered_questions (
+  id uuid primary key default gen_random_uuid(),
+  lead_id uuid not null references public.leads (id) on delete cascade,
+  session_id uuid references public.sessions (id) on delete set null,
+  agent_id uuid references public.agent_configs (id) on delete cascade,
+  question text not null,
+  user_words text,
+  status text not null default 'Open' check (status in ('Open', 'Promoted', 'Dismissed')),
+  faq_id text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists unanswered_questions_agent_idx on public.unanswered_questions (agent_id, created_at desc);
+
+alter table public.unanswered_questions enable row level security;
+
+drop policy if exists "unanswered_questions_public_access" on public.unanswered_questions;
+create policy "unanswered_questions_public_access" on public.unanswered_questions
+  for all to anon, authenticated using (true) with check (true);
@@ -0,0 +1,16 @@
+-- Appends one message to a session transcript in a single statement. During a human handoff the visitor and the
+-- operator write to the same transcript; appending in the database keeps both when they send at the same time,
+-- where reading and rewriting the whole transcript from the browser lost one of them.
+-- A message whose id is already in the transcript is skipped, so a replayed append is harmless.
+
+create or replace function public.append_session_message(p_session_id uuid, p_message jsonb)
+returns void
+language sql
+as $$
+  update public.sessions
+     set transcript = coalesce(transcript, '[]'::jsonb) || jsonb_build_array(p_message)
+   where id = p_session_id
+     and not coalesce(transcript, '[]'::jsonb) @> jsonb_build_array(jsonb_build_object('id', p_message -> 'id'));
+$$;
+
+grant execute on function public.append_session_message(uuid, jsonb) to anon, authenticated;
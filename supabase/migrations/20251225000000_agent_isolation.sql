@@ -0,0 +1,142 @@
+-- Isolates agents from each other. Until now every table was readable and writable by anyone with the public
+-- anon key. From here on the browser sends an agent key instead (a JWT signed with the project's JWT secret,
+-- see scripts/agent-key.mjs) and every policy checks its agent_id claim against the row's agent_id.
+-- Requests without an agent_id claim reach no rows. Supabase Auth users can carry the claim in app_metadata instead.
+
+-- The agent the request's JWT was issued for; null for the plain anon key
+create or replace function public.request_agent_id()
+returns uuid
+language sql
+stable
+as $$
+  select nullif(coalesce(auth.jwt() ->> 'agent_id', auth.jwt() -> 'app_metadata' ->> 'agent_id'), '')::uuid
+$$;
+
+grant execute on function public.request_agent_id() to anon, authenticated;
+
+-- Backfill rows written before agent_id was always set
+update public.sessions s set agent_id = l.agent_id from public.leads l where s.lead_id = l.id and s.agent_id is null;
+update public.appointments a set agent_id = l.agent_id from public.leads l where a.lead_id = l.id and a.agent_id is null;
+update public.lead_activities a set agent_id = l.agent_id from public.leads l where a.lead_id = l.id and a.agent_id is null;
+update public.follow_up_tasks t set agent_id = l.agent_id from public.leads l where t.lead_id = l.id and t.agent_id is null;
+update public.unanswered_questions q set agent_id = l.agent_id from public.leads l where q.lead_id = l.id and q.agent_id is null;
+
+-- Inserts that leave agent_id out are filed under the requesting agent
+alter table public.leads alter column agent_id set default public.request_agent_id();
+alter table public.sessions alter column agent_id set default public.request_agent_id();
+alter table public.appointments alter column agent_id set default public.request_agent_id();
+alter table public.agent_config_versions alter column agent_id set default public.request_agent_id();
+alter table public.lead_activities alter column agent_id set default public.request_agent_id();
+alter table public.follow_up_tasks alter column agent_id set default public.request_agent_id();
+alter table public.unanswered_questions alter column agent_id set default public.request_agent_id();
+
+-- Agents ---------------------------------------------------------------------
+-- A key may create its own agent row (on first use) and manage only that one
+
+drop policy if exists "agent_configs_public_access" on public.agent_configs;
+drop policy if exists "agent_configs_own_agent" on public.agent_configs;
+create policy "agent_configs_own_agent" on public.agent_configs
+  for all to anon, authenticated
+  using (id = public.request_agent_id()) with check (id = public.request_agent_id());
+
+drop policy if exists "agent_config_versions_read" on public.agent_config_versions;
+create policy "agent_config_versions_read" on public.agent_config_versions
+  for select to anon, authenticated using (agent_id = public.request_agent_id());
+
+drop policy if exists "agent_config_versions_insert" on public.agent_config_versions;
+create policy "agent_config_versions_insert" on public.agent_config_versions
+  for insert to anon, authenticated with check (agent_id = public.request_agent_id());
+
+-- CRM data -------------------------------------------------------------------
+
+drop policy if exists "leads_public_access" on public.leads;
+drop policy if exists "leads_own_agent" on public.leads;
+create policy "leads_own_agent" on public.leads
+  for all to anon, authenticated
+  using (agent_id = public.request_agent_id()) with check (agent_id = public.request_agent_id());
+
+drop policy if exists "sessions_public_access" on public.sessions;
+drop policy if exists "sessions_own_agent" on public.sessions;
+create policy "sessions_own_agent" on public.sessions
+  for all to anon, authenticated
+  using (agent_id = public.request_agent_id()) with check (agent_id = public.request_agent_id());
+
+drop policy if exists "appointments_public_access" on public.appointments;
+drop policy if exists "appointments_own_agent" on public.appointments;
+create policy "appointments_own_agent" on public.appointments
+  for all to anon, authenticated
+  using (agent_id = public.request_agent_id()) with check (agent_id = public.request_agent_id());
+
+drop policy if exists "follow_up_tasks_public_access" on public.follow_up_tasks;
+drop policy if exists "follow_up_tasks_own_agent" on public.follow_up_tasks;
+create policy "follow_up_tasks_own_agent" on public.follow_up_tasks
+  for all to anon, authenticated
+  using (agent_id = public.request_agent_id()) with check (agent_id = public.request_agent_id());
+
+drop policy if exists "unanswered_questions_public_access" on public.unanswered_questions;
+drop policy if exists "unanswered_questions_own_agent" on public.unanswered_questions;
+create policy "unanswered_questions_own_agent" on public.unanswered_questions
+  for all to anon, authenticated
+  using (agent_id = public.request_agent_id()) with check (agent_id = public.request_agent_id());
+
+-- Activity history stays insert-and-reparent only (see the lead_activities migration)
+drop policy if exists "lead_activities_read" on public.lead_activities;
+create policy "lead_activities_read" on public.lead_activities
+  for select to anon, authenticated using (agent_id = public.request_agent_id());
+
+drop policy if exists "lead_activities_insert" on public.lead_activities;
+create policy "lead_activities_insert" on public.lead_activities
+  for insert to anon, authenticated with check (agent_id = public.request_agent_id());
+
+drop policy if exists "lead_activities_reparent" on public.lead_activities;
+create policy "lead_activities_reparent" on public.lead_activities
+  for update to anon, authenticated
+  using (agent_id = public.request_agent_id()) with check (agent_id = public.request_agent_id());
+
+-- Recordings -----------------------------------------------------------------
+-- Uploaded under "<agent id>/", and only that folder can be written or listed. The bucket stays public so the
+-- players can stream the stored URLs; file names are random, and the URLs are only found through the sessions.
+
+drop policy if exists "recordings_insert" on storage.objects;
+create policy "recordings_insert" on storage.objects
+  for insert to anon, authenticated
+  with check (bucket_id = 'recordings' and (storage.foldername(name))[1] = public.request_agent_id()::text);
+
+drop policy if exists "recordings_read" on storage.objects;
+create policy "recordings_read" on storage.objects
+  for select to anon, authenticated
+  using (bucket_id = 'recordings' and (storage.foldername(name))[1] = public.request_agent_id()::text);
+
+-- Schema check ---------------------------------------------------------------
+-- Agent data tables (and the recordings bucket) whose row-level security is off or still has a policy that lets
+-- every request through. The app lists them at the top of the Admin dashboard; empty once agents are isolated.
+
+create or replace function public.agent_isolation_gaps()
+returns setof text
+language sql
+stable
+security definer
+set search_path = pg_catalog, public
+as $$
+  select c.relname::text
+  from pg_class c
+  join pg_namespace n on n.oid = c.relnamespace and n.nspname = 'public'
+  where c.relname in ('agent_configs', 'agent_config_versions', 'leads', 'sessions', 'appointments',
+                      'lead_activities', 'follow_up_tasks', 'unanswered_questions')
+    and (not c.relrowsecurity or exists (
+      select 1 from pg_policies p
+      where p.schemaname = 'public' and p.tablename = c.relname
+        and (p.qual is null or p.qual not like '%request_agent_id()%')
+        and (p.with_check is null or p.with_check not like '%request_agent_id()%')
+    ))
+  union all
+  select 'storage.objects (recordings)'
+  where exists (
+    select 1 from pg_policies p
+    where p.schemaname = 'storage' and p.tablename = 'objects'
+      and coalesce(p.qual, p.with_check) like '%recordings%'
+      and coalesce(p.qual, p.with_check) not like '%request_agent_id()%'
+  )
+$$;
+
+grant execute on function public.agent_isolation_gaps() to anon, authenticated;
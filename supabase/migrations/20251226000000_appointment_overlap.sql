@@ -0,0 +1,24 @@
+-- One agent cannot have two scheduled appointments at overlapping times. The booking tool checks availability
+-- before it books, but two conversations booking the same slot at once both pass that check; the database
+-- now rejects the second insert (exclusion_violation, 23P01) and the tool offers other times instead.
+
+create extension if not exists btree_gist;
+
+-- Existing double bookings would block the constraint: keep the earliest booking of each overlap
+update public.appointments a
+set status = 'Cancelled',
+    notes = concat_ws(E'\n', a.notes, 'Cancelled automatically: overlapped an earlier booking.')
+where a.status = 'Scheduled'
+  and exists (
+    select 1 from public.appointments b
+    where b.status = 'Scheduled'
+      and b.agent_id = a.agent_id
+      and b.id <> a.id
+      and (b.created_at, b.id) < (a.created_at, a.id)
+      and tstzrange(b.starts_at, b.ends_at) && tstzrange(a.starts_at, a.ends_at)
+  );
+
+alter table public.appointments drop constraint if exists appointments_no_overlap;
+alter table public.appointments add constraint appointments_no_overlap
+  exclude using gist (agent_id with =, tstzrange(starts_at, ends_at) with &&)
+  where (status = 'Scheduled');
@@ -1 +1,26 @@
-��n��b�)��Һ��jǒ@���+��
\ No newline at end of file
+-- Full Nova Agent schema, built from the versioned migrations in ./migrations.
+--
+-- With the Supabase CLI:   supabase db push
+-- With psql:               psql "$DATABASE_URL" -f supabase/schema.sql
+-- In the dashboard:        paste each migration into the SQL Editor, oldest first.
+--
+-- Every migration is idempotent, so re-running this file on an existing project is safe.
+-- Add new changes as a new timestamped file in ./migrations and list it below.
+
+\ir migrations/20251210000000_initial_schema.sql
+\ir migrations/20251211000000_appointments.sql
+\ir migrations/20251212000000_human_escalation.sql
+\ir migrations/20251213000000_multi_agent.sql
+\ir migrations/20251214000000_config_versions.sql
+\ir migrations/20251215000000_lead_qualification.sql
+\ir migrations/20251216000000_lead_deal_value.sql
+\ir migrations/20251217000000_lead_activities.sql
+\ir migrations/20251218000000_lead_interaction_times.sql
+\ir migrations/20251219000000_follow_up_tasks.sql
+\ir migrations/20251220000000_session_insights.sql
+\ir migrations/20251221000000_lead_persona.sql
+\ir migrations/20251222000000_session_objections.sql
+\ir migrations/20251223000000_unanswered_questions.sql
+\ir migrations/20251224000000_append_session_message.sql
+\ir migrations/20251225000000_agent_isolation.sql
+\ir migrations/20251226000000_appointment_overlap.sql
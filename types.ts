@@ -3,13 +3,20 @@ export interface Lead {
   id: string;
   name: string;
   company: string;
-  status: 'New' | 'Contacted' | 'Qualified' | 'Closed';
-  lastInteraction: string;
+  status: string; // PipelineStage id
+  createdAt?: string; // ISO; unset on legacy local rows
+  lastInteractionAt?: string; // ISO time of the visitor's last message; unset until they write
   sentiment: 'Positive' | 'Neutral' | 'Negative';
   // New CRM Fields
   phone?: string;
   interestedIn?: string;
   notes?: string;
+  escalated?: boolean; // Waiting for / handled by a human operator
+  agentId?: string; // Owning agent (multi-agent deployments); unset on legacy local rows
+  qualification?: Record<string, QualificationAssessment>; // keyed by QualificationCriterion id
+  qualificationScore?: number; // 0-100, weighted over the agent's criteria (see services/qualification)
+  dealValue?: number; // Expected deal size, totalled per stage on the pipeline board
+  personaId?: string; // Persona (AgentConfig.personas) the agent matched the visitor to
 }
 
 export interface Session {
@@ -18,6 +25,79 @@ export interface Session {
   createdAt: string;
   transcript: Message[];
   audioUrl?: string; // URL to the recorded blob
+  escalation?: SessionEscalation;
+  insights?: SessionInsights;
+  objections?: ObjectionOccurrence[];
+  agentId?: string;
+}
+
+// AI-generated digest of a conversation, created after a call ends (see services/sessionInsights)
+export interface SessionInsights {
+  summary: string;
+  nextSteps: string[];
+  objections: string[];
+  productsMentioned: string[];
+  budgetSignals: string[];
+  generatedAt: string;
+  messageCount: number; // transcript length it was generated from, to spot conversations that continued since
+}
+
+// An objection the agent reported with the report_objection tool, in the order they came up
+export interface ObjectionOccurrence {
+  handlerId?: string; // ObjectionHandler id; unset when none of the scripted objections matched
+  objection: string; // the handler's objection, or the visitor's concern in a few words
+  userWords?: string; // what the visitor actually said
+  at: string; // ISO
+}
+
+// Human handoff state for a session, set by the escalate_to_human tool
+export interface SessionEscalation {
+  status: 'Waiting' | 'Active' | 'Resolved';
+  reason: string;
+  requestedAt: string;
+  operatorName?: string;
+}
+
+// Append-only audit trail of a lead: who changed what, and when (see services/activity)
+export interface LeadActivity {
+  id: string;
+  leadId: string;
+  sessionId?: string; // the conversation it happened in, if any
+  type: LeadActivityType;
+  actor: ActivityActor;
+  summary: string;
+  changes?: FieldChange[];
+  createdAt: string;
+  agentId?: string;
+}
+
+export type LeadActivityType =
+  | 'created'
+  | 'status_changed'
+  | 'field_updated'
+  | 'session_started'
+  | 'visitor_recognised'
+  | 'qualified'
+  | 'escalated'
+  | 'escalation_taken'
+  | 'escalation_resolved'
+  | 'appointment_booked'
+  | 'appointment_cancelled'
+  | 'follow_up_scheduled'
+  | 'follow_up_completed'
+  | 'objection_raised'
+  | 'question_unanswered'
+  | 'merged';
+
+export interface ActivityActor {
+  kind: 'agent' | 'admin' | 'visitor' | 'system';
+  name: string; // agent persona or admin/operator name
+}
+
+export interface FieldChange {
+  field: string; // Lead property
+  from?: string;
+  to?: string;
 }
 
 export interface CompanyInfo {
@@ -74,6 +154,95 @@ export interface SalesProcess {
   followUpStrategy: string;
   humanEscalationTrigger: string;
   bookingLink?: string;
+  // Appointment Booking
+  availability?: AvailabilitySlot[];
+  appointmentDurationMinutes?: number;
+  // Structured qualification, assessed by the agent with the qualify_lead tool
+  qualificationCriteria?: QualificationCriterion[];
+  // Lead pipeline in board order; defaults apply when unset (see services/pipeline)
+  pipelineStages?: PipelineStage[];
+  // Open leads without contact for this many days are flagged on the overview (see services/leadTiming)
+  staleLeadDays?: number;
+  // Follow-up tasks created automatically when a lead enters a stage (see services/followUps)
+  followUpRules?: FollowUpRule[];
+}
+
+export interface FollowUpRule {
+  id: string;
+  stageId: string; // PipelineStage id that triggers the task
+  afterDays: number; // due this many days after the lead entered the stage
+  action: string; // task title, e.g. "Call to follow up on the quote"
+}
+
+export interface PipelineStage {
+  id: string; // stored as Lead.status
+  name: string;
+  color: string; // #rrggbb
+  outcome: 'open' | 'won' | 'lost';
+}
+
+export interface QualificationCriterion {
+  id: string;
+  name: string; // e.g. "Budget"
+  description: string; // what counts as met; shown to the agent
+  weight: number; // relative importance
+}
+
+export type QualificationLevel = 'met' | 'partial' | 'not_met';
+
+export interface QualificationAssessment {
+  level: QualificationLevel;
+  evidence?: string; // what the visitor said
+  assessedAt: string;
+}
+
+// Weekly recurring window in which appointments can be booked (local time)
+export interface AvailabilitySlot {
+  id: string;
+  dayOfWeek: number; // 0 = Sunday ... 6 = Saturday
+  startTime: string; // "HH:MM"
+  endTime: string; // "HH:MM"
+}
+
+export interface Appointment {
+  id: string;
+  leadId: string;
+  sessionId?: string;
+  startsAt: string; // ISO timestamp
+  endsAt: string; // ISO timestamp
+  status: 'Scheduled' | 'Cancelled' | 'Completed';
+  notes?: string;
+  createdAt: string;
+  agentId?: string;
+}
+
+// A reminder to get back to a lead, from a follow-up rule, the agent's schedule_follow_up tool or an admin
+export interface FollowUpTask {
+  id: string;
+  leadId: string;
+  sessionId?: string;
+  title: string;
+  dueAt: string; // ISO timestamp
+  status: 'Open' | 'Done' | 'Cancelled';
+  source: 'rule' | 'agent' | 'admin';
+  ruleId?: string; // FollowUpRule that created it
+  assignee?: string; // operator name; unset = anyone on the team
+  completedAt?: string;
+  createdAt: string;
+  agentId?: string;
+}
+
+// A visitor question the agent could not answer (unanswered_question tool), reviewed in the FAQ inbox
+export interface UnansweredQuestion {
+  id: string;
+  leadId: string;
+  sessionId?: string;
+  question: string; // as the agent summarised it
+  userWords?: string; // what the visitor actually asked
+  status: 'Open' | 'Promoted' | 'Dismissed';
+  faqId?: string; // FAQ created when it was promoted
+  createdAt: string;
+  agentId?: string;
 }
 
 export interface PricingOffer {
@@ -155,6 +324,25 @@ export interface AgentConfig {
   landingPage: LandingPageConfig;
 }
 
+// Immutable snapshot written on every config save; rollback saves an old snapshot as a new version
+export interface ConfigVersion {
+  id: string;
+  agentId: string;
+  version: number; // 1, 2, 3... per agent
+  config: AgentConfig;
+  author: string;
+  note?: string; // e.g. "Rolled back to v12"
+  createdAt: string;
+}
+
+// One named agent (brand / branch) in a multi-agent deployment; its AgentConfig is stored separately
+export interface AgentProfile {
+  id: string;
+  slug: string; // URL key, e.g. ?agent=downtown-branch
+  name: string;
+  createdAt?: string;
+}
+
 export enum AppMode {
   LANDING = 'LANDING',
   ADMIN = 'ADMIN',
@@ -165,7 +353,7 @@ export type AgentStatus = 'idle' | 'connecting' | 'listening' | 'processing' | '
 
 export interface Message {
   id: string;
-  role: 'user' | 'model';
+  role: 'user' | 'model' | 'operator'; // operator = human who took over an escalated chat
   text: string;
   timestamp: Date;
 }